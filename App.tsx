@@ -1,21 +1,34 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import WorldRenderer from './components/WorldRenderer';
 import PixelEditor from './components/PixelEditor';
-import { CustomSprite } from './types';
+import { BiomeDefinition, CustomSprite, QuestDefinition } from './types';
 import { StorageService } from './services/storage';
+import { parseBiomeDefinitions } from './services/biomeRegistry';
+import { parseQuestDefinitions } from './services/quests';
+import { GENERATOR_VERSIONS, LATEST_GENERATOR_VERSION } from './services/generatorVersions';
+import { LOCALES, Locale, itemName, setLocale, t, useLocale } from './services/i18n';
 
 function App() {
+  const locale = useLocale();
+
   // Default 128-bit style key (32 hex chars)
   const generateRandomKey = () => Array.from({length: 32}, () => Math.floor(Math.random() * 16).toString(16)).join('');
   
   const [seed, setSeed] = useState<string>("8f2a4b9c1d3e5f7a0b2c4d6e8f1a3b5c");
   const [tempSeed, setTempSeed] = useState(seed);
+  const [generatorVersion, setGeneratorVersion] = useState(LATEST_GENERATOR_VERSION);
   const [showEditor, setShowEditor] = useState(false);
   const [showSpriteSelector, setShowSpriteSelector] = useState(false);
   const [savedSprites, setSavedSprites] = useState<CustomSprite[]>([]);
+  const [customBiomes, setCustomBiomes] = useState<BiomeDefinition[]>(() => StorageService.getBiomes());
+  const biomeFileRef = useRef<HTMLInputElement>(null);
+  const [customQuests, setCustomQuests] = useState<QuestDefinition[]>(() => StorageService.getQuests());
+  const questFileRef = useRef<HTMLInputElement>(null);
   
   // Placement State
   const [placingSprite, setPlacingSprite] = useState<CustomSprite | null>(null);
+  const [creative, setCreative] = useState(() => StorageService.getCreativeMode());
+  const [peaceful, setPeaceful] = useState(() => StorageService.getPeacefulMode());
   
   // Player Spawn Override (for portals)
   const [spawnPos, setSpawnPos] = useState<{x: number, y: number} | null>(null);
@@ -42,6 +55,48 @@ function App() {
       setShowSpriteSelector(false);
   };
 
+  // Custom biomes (JSON, one biome or an array) join the registry of every world from now on
+  const handleImportBiomes = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+
+      try {
+          const biomes = parseBiomeDefinitions(await file.text());
+          StorageService.saveBiomes(biomes);
+          setCustomBiomes(StorageService.getBiomes());
+          alert(t('app.importedBiomes', { count: biomes.length, names: biomes.map(b => b.name).join(', ') }));
+      } catch (err) {
+          alert(err instanceof Error ? err.message : t('app.importFailed'));
+      }
+  };
+
+  // Custom quests (JSON, one quest or an array) are offered in every world from now on
+  const handleImportQuests = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+
+      try {
+          const quests = parseQuestDefinitions(await file.text());
+          StorageService.saveQuests(quests);
+          setCustomQuests(StorageService.getQuests());
+          alert(t('app.importedQuests', { count: quests.length, names: quests.map(q => q.title ?? q.id).join(', ') }));
+      } catch (err) {
+          alert(err instanceof Error ? err.message : t('app.importQuestsFailed'));
+      }
+  };
+
+  const handleToggleCreative = (enabled: boolean) => {
+      setCreative(enabled);
+      StorageService.saveCreativeMode(enabled);
+  };
+
+  const handleTogglePeaceful = (enabled: boolean) => {
+      setPeaceful(enabled);
+      StorageService.savePeacefulMode(enabled);
+  };
+
   const handleTeleport = (newSeed: string, x: number, y: number) => {
       console.log(`Teleporting to ${newSeed} at ${x},${y}`);
       setSeed(newSeed);
@@ -55,8 +110,13 @@ function App() {
       <div className="absolute inset-0 z-0">
         <WorldRenderer 
             seed={seed} 
+            customBiomes={customBiomes}
+            customQuests={customQuests}
+            generatorVersion={generatorVersion}
             initialPos={spawnPos}
             placingSprite={placingSprite}
+            creative={creative}
+            peaceful={peaceful}
             onPlaceComplete={() => setPlacingSprite(null)}
             onTeleport={handleTeleport}
         />
@@ -72,13 +132,13 @@ function App() {
         <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4" onClick={() => setShowSpriteSelector(false)}>
             <div className="bg-slate-900 border-2 border-slate-600 rounded-lg w-full max-w-md max-h-[60vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
                 <div className="p-3 border-b border-slate-700 bg-slate-800 flex justify-between items-center">
-                    <h3 className="text-white text-xs font-bold uppercase">Select Sprite to Place</h3>
+                    <h3 className="text-white text-xs font-bold uppercase">{t('app.selectSprite')}</h3>
                     <button onClick={() => setShowSpriteSelector(false)} className="text-slate-400 hover:text-white">×</button>
                 </div>
                 <div className="overflow-y-auto p-2">
                     {savedSprites.length === 0 ? (
                         <div className="text-center p-8 text-slate-500 text-xs">
-                            No sprites found. Use the Sprite Editor to create one!
+                            {t('app.noSprites')}
                         </div>
                     ) : (
                         <div className="grid grid-cols-1 gap-2">
@@ -94,8 +154,14 @@ function App() {
                                     <div>
                                         <div className="text-green-400 text-xs font-bold group-hover:text-green-300">{sprite.name}</div>
                                         <div className="text-slate-500 text-[10px]">{sprite.width}x{sprite.height}</div>
-                                        {sprite.collision && <span className="text-red-400 text-[9px] mr-1">[SOLID]</span>}
-                                        {sprite.portal && <span className="text-purple-400 text-[9px] mr-1">[PORTAL]</span>}
+                                        {sprite.collision && <span className="text-red-400 text-[9px] mr-1">{t('app.solid')}</span>}
+                                        {sprite.portal && <span className="text-purple-400 text-[9px] mr-1">{t('app.portal')}</span>}
+                                        {sprite.dialogue && <span className="text-amber-300 text-[9px] mr-1">{t('app.dialogue')}</span>}
+                                        {sprite.cost && sprite.cost.length > 0 && (
+                                            <div className="text-amber-400 text-[9px]">
+                                                {sprite.cost.map(stack => `${stack.count}× ${itemName(stack.item)}`).join(', ')}
+                                            </div>
+                                        )}
                                     </div>
                                 </button>
                             ))}
@@ -115,7 +181,7 @@ function App() {
           
           <div className="space-y-4">
             <div>
-              <label className="block text-xs uppercase text-slate-400 mb-1">World Seed (128-bit Key)</label>
+              <label className="block text-xs uppercase text-slate-400 mb-1">{t('app.seed')}</label>
               <div className="flex gap-2">
                 <input 
                   type="text" 
@@ -126,18 +192,33 @@ function App() {
               </div>
             </div>
 
+            <div>
+              <label className="block text-xs uppercase text-slate-400 mb-1">{t('app.generator')}</label>
+              <select
+                value={generatorVersion}
+                onChange={(e) => setGeneratorVersion(Number(e.target.value))}
+                className="w-full bg-slate-800 border border-slate-600 px-2 py-2 text-xs font-mono text-green-400 focus:outline-none focus:border-green-500 rounded"
+              >
+                {GENERATOR_VERSIONS.map(profile => (
+                  <option key={profile.version} value={profile.version}>
+                    {profile.label}{profile.version === LATEST_GENERATOR_VERSION ? ` (${t('app.latest')})` : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             <div className="flex gap-2">
               <button 
                 onClick={handleApply}
-                className="flex-1 bg-blue-700 hover:bg-blue-600 text-white text-xs py-2 px-4 rounded border-b-4 border-blue-900 active:border-b-0 active:translate-y-1 transition-all"
+                className="flex-1 bg-blue-700 hover:bg-blue-600 text-white text-xs py-2 px-4 rounded border-b-4 border-blue-900 active:border-b-0 active:translate-y-1 transition-all uppercase"
               >
-                LOAD WORLD
+                {t('app.loadWorld')}
               </button>
               <button 
                 onClick={handleRandomize}
-                className="flex-1 bg-red-700 hover:bg-red-600 text-white text-xs py-2 px-4 rounded border-b-4 border-red-900 active:border-b-0 active:translate-y-1 transition-all"
+                className="flex-1 bg-red-700 hover:bg-red-600 text-white text-xs py-2 px-4 rounded border-b-4 border-red-900 active:border-b-0 active:translate-y-1 transition-all uppercase"
               >
-                RANDOMIZE
+                {t('app.randomize')}
               </button>
             </div>
 
@@ -146,14 +227,64 @@ function App() {
                     onClick={() => setShowEditor(true)}
                     className="flex-1 bg-purple-700 hover:bg-purple-600 text-white text-xs py-2 px-4 rounded border-b-4 border-purple-900 active:border-b-0 active:translate-y-1 transition-all uppercase font-bold"
                 >
-                    Sprite Editor
+                    {t('app.spriteEditor')}
                 </button>
                 <button 
                     onClick={handleOpenSpriteSelector}
                     className="flex-1 bg-green-700 hover:bg-green-600 text-white text-xs py-2 px-4 rounded border-b-4 border-green-900 active:border-b-0 active:translate-y-1 transition-all uppercase font-bold"
                 >
-                    + Add Sprite
+                    {t('app.addSprite')}
+                </button>
+            </div>
+
+            <div className="flex gap-2">
+                <button 
+                    onClick={() => biomeFileRef.current?.click()}
+                    className="flex-1 bg-amber-700 hover:bg-amber-600 text-white text-xs py-2 px-4 rounded border-b-4 border-amber-900 active:border-b-0 active:translate-y-1 transition-all uppercase font-bold"
+                >
+                    {t('app.importBiomes')}{customBiomes.length > 0 && ` (${customBiomes.length})`}
+                </button>
+                <input ref={biomeFileRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImportBiomes} />
+                <button 
+                    onClick={() => questFileRef.current?.click()}
+                    className="flex-1 bg-teal-700 hover:bg-teal-600 text-white text-xs py-2 px-4 rounded border-b-4 border-teal-900 active:border-b-0 active:translate-y-1 transition-all uppercase font-bold"
+                >
+                    {t('app.importQuests')}{customQuests.length > 0 && ` (${customQuests.length})`}
                 </button>
+                <input ref={questFileRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImportQuests} />
+            </div>
+
+            <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={creative}
+                    onChange={e => handleToggleCreative(e.target.checked)}
+                    className="w-4 h-4 rounded bg-slate-700 border-slate-500 text-purple-500 focus:ring-0"
+                />
+                <span className="text-xs text-slate-300">{t('app.creative')}</span>
+            </label>
+
+            <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={peaceful}
+                    onChange={e => handleTogglePeaceful(e.target.checked)}
+                    className="w-4 h-4 rounded bg-slate-700 border-slate-500 text-purple-500 focus:ring-0"
+                />
+                <span className="text-xs text-slate-300">{t('app.peaceful')}</span>
+            </label>
+
+            <div>
+              <label className="block text-xs uppercase text-slate-400 mb-1">{t('app.language')}</label>
+              <select
+                value={locale}
+                onChange={(e) => setLocale(e.target.value as Locale)}
+                className="w-full bg-slate-800 border border-slate-600 px-2 py-2 text-xs font-mono text-green-400 focus:outline-none focus:border-green-500 rounded"
+              >
+                {LOCALES.map(({ id, label }) => (
+                  <option key={id} value={id}>{label}</option>
+                ))}
+              </select>
             </div>
           </div>
         </div>
@@ -1,41 +1,75 @@
 import React from 'react';
-import { InventoryItem } from '../types';
+import { InventoryItem, ItemStack } from '../types';
+import { TOOL_ITEMS } from '../constants';
+import { itemName, t, useLocale } from '../services/i18n';
+import { countItem } from '../services/crafting';
+import ItemIcon from './ItemIcon';
 
 interface CommandBarProps {
   isPlacing: boolean;
+  placementCost: ItemStack[] | null; // null in creative mode
   onCancelPlacement: () => void;
+  isDemolishing: boolean;
+  onToggleDemolish: () => void;
   inventory: (InventoryItem | null)[];
+  selectedSlot: number;
+  onSelectSlot: (index: number) => void;
   onGather: () => void;
   onOpenInventory: () => void;
 }
 
-const CommandBar: React.FC<CommandBarProps> = ({ isPlacing, onCancelPlacement, inventory, onGather, onOpenInventory }) => {
+const CommandBar: React.FC<CommandBarProps> = ({ isPlacing, placementCost, onCancelPlacement, isDemolishing, onToggleDemolish, inventory, selectedSlot, onSelectSlot, onGather, onOpenInventory }) => {
+  useLocale();
   
   if (isPlacing) {
      return (
         <div className="absolute bottom-6 left-1/2 -translate-x-1/2 w-full max-w-2xl px-4 z-20">
             <div className="bg-slate-900/90 border-2 border-yellow-500 rounded p-4 shadow-lg text-center animate-pulse">
-                <p className="text-yellow-400 font-bold text-xs uppercase mb-2">PLACEMENT MODE</p>
-                <p className="text-white text-[10px] font-mono">Use ARROWS to move cursor. ENTER to place. ESC to cancel.</p>
+                <p className="text-yellow-400 font-bold text-xs uppercase mb-2">{t('placement.title')}</p>
+                <p className="text-white text-[10px] font-mono">{t('placement.help')}</p>
+                {placementCost === null ? (
+                    <p className="text-purple-400 text-[10px] mt-2">{t('placement.creative')}</p>
+                ) : placementCost.length > 0 && (
+                    <div className="flex flex-wrap justify-center items-center gap-x-3 mt-2 text-[10px] font-mono">
+                        <span className="text-slate-400">{t('placement.cost')}</span>
+                        {placementCost.map(stack => {
+                            const have = countItem(inventory, stack.item);
+                            return (
+                                <span key={stack.item} className={`flex items-center gap-1 ${have >= stack.count ? 'text-green-400' : 'text-red-400'}`}>
+                                    <ItemIcon itemKey={stack.item} className="w-4 h-4" />
+                                    {itemName(stack.item)} {have}/{stack.count}
+                                </span>
+                            );
+                        })}
+                    </div>
+                )}
                 <button 
                     onClick={onCancelPlacement}
                     className="mt-2 text-red-400 text-[10px] hover:text-red-300 underline"
                 >
-                    Cancel
+                    {t('placement.cancel')}
                 </button>
             </div>
         </div>
      )
   }
 
-  // Helper to generate a color hash from string for the item icon
-  const stringToColor = (str: string) => {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      hash = str.charCodeAt(i) + ((hash << 5) - hash);
-    }
-    const c = (hash & 0x00FFFFFF).toString(16).toUpperCase();
-    return '#' + "00000".substring(0, 6 - c.length) + c;
+  if (isDemolishing) {
+     return (
+        <div className="absolute bottom-6 left-1/2 -translate-x-1/2 w-full max-w-2xl px-4 z-20">
+            <div className="bg-slate-900/90 border-2 border-red-500 rounded p-4 shadow-lg text-center animate-pulse">
+                <p className="text-red-400 font-bold text-xs uppercase mb-2">{t('demolish.title')}</p>
+                <p className="text-white text-[10px] font-mono">{t('demolish.help')}</p>
+                <p className="text-slate-400 text-[10px] mt-2">{t('demolish.refund')}</p>
+                <button 
+                    onClick={onToggleDemolish}
+                    className="mt-2 text-red-400 text-[10px] hover:text-red-300 underline"
+                >
+                    {t('placement.cancel')}
+                </button>
+            </div>
+        </div>
+     )
   }
 
   // Only show the first 6 items in the hotbar
@@ -46,28 +80,29 @@ const CommandBar: React.FC<CommandBarProps> = ({ isPlacing, onCancelPlacement, i
         
         {/* Inventory Hotbar Slots */}
         <div className="bg-slate-900/90 backdrop-blur-sm border-2 border-slate-600 rounded-lg p-2 shadow-2xl flex gap-1 flex-1 justify-center relative">
-            <div className="absolute -top-3 left-2 text-[8px] bg-slate-700 px-1 rounded text-slate-300 uppercase font-bold">Hotbar</div>
+            <div className="absolute -top-3 left-2 text-[8px] bg-slate-700 px-1 rounded text-slate-300 uppercase font-bold">{t('hotbar.title')}</div>
             
             {hotbarSlots.map((slot, index) => (
                 <div 
                     key={index}
-                    onClick={onOpenInventory}
-                    className="w-12 h-12 bg-black/50 border border-slate-700 rounded relative group hover:border-white/50 cursor-pointer transition-colors"
-                    title="Click to open full inventory"
+                    onClick={() => onSelectSlot(index)}
+                    className={`w-12 h-12 bg-black/50 border rounded relative group hover:border-white/50 cursor-pointer transition-colors ${index === selectedSlot ? 'border-yellow-400' : 'border-slate-700'}`}
+                    title={slot ? itemName(slot.id) : t('hotbar.hold')}
                 >
                     {slot && (
                         <>
-                            <div 
-                                className="absolute inset-2 rounded-sm border border-white/20"
-                                style={{ backgroundColor: stringToColor(slot.id) }}
-                            >
-                                <div className="w-full h-full flex items-center justify-center text-[8px] font-bold text-white drop-shadow-md text-center break-all leading-tight">
-                                    {slot.id.substring(0, 2)}
-                                </div>
-                            </div>
+                            <ItemIcon itemKey={slot.id} className="absolute inset-1 w-10 h-10" />
                             <span className="absolute bottom-0 right-0 text-[10px] font-mono text-white bg-black/80 px-1 rounded-tl">
                                 {slot.count}
                             </span>
+                            {slot.data?.durability !== undefined && TOOL_ITEMS[slot.id] && (
+                                <div className="absolute bottom-0 left-0 right-0 h-1 bg-black/80">
+                                    <div
+                                        className="h-full bg-green-500"
+                                        style={{ width: `${(slot.data.durability / TOOL_ITEMS[slot.id].maxDurability) * 100}%` }}
+                                    />
+                                </div>
+                            )}
                         </>
                     )}
                     {!slot && <div className="absolute inset-0 flex items-center justify-center text-slate-700 text-[8px]">{index + 1}</div>}
@@ -78,17 +113,26 @@ const CommandBar: React.FC<CommandBarProps> = ({ isPlacing, onCancelPlacement, i
                 onClick={onOpenInventory}
                 className="ml-2 px-2 bg-slate-800 hover:bg-slate-700 border border-slate-600 rounded text-[10px] text-slate-400"
             >
-                ALL<br/>:::
+                {t('hotbar.all')}<br/>:::
             </button>
         </div>
 
+        {/* Demolish Button */}
+        <button 
+            onClick={onToggleDemolish}
+            className="h-12 w-12 bg-red-800 hover:bg-red-700 border-b-4 border-red-950 active:border-b-0 active:translate-y-1 rounded-full shadow-lg flex flex-col items-center justify-center transition-all"
+        >
+            <div className="text-lg mb-[-4px]">🔨</div>
+            <span className="text-[7px] font-bold uppercase text-white">{t('hotbar.demolish')}</span>
+        </button>
+
         {/* Gather Button */}
         <button 
             onClick={onGather}
             className="h-16 w-16 bg-blue-700 hover:bg-blue-600 border-b-4 border-blue-900 active:border-b-0 active:translate-y-1 rounded-full shadow-lg flex flex-col items-center justify-center transition-all group"
         >
             <div className="text-2xl mb-[-4px]">⛏️</div>
-            <span className="text-[8px] font-bold uppercase text-white">Gather</span>
+            <span className="text-[8px] font-bold uppercase text-white">{t('hotbar.gather')}</span>
         </button>
 
       </div>
@@ -0,0 +1,75 @@
+import React from 'react';
+import { InventoryItem, ObjectType, Recipe } from '../types';
+import { PLACEABLE_ITEMS } from '../constants';
+import { canCraft, countItem } from '../services/crafting';
+import { itemName, t, useLocale } from '../services/i18n';
+import ItemIcon from './ItemIcon';
+
+interface CraftingPanelProps {
+  recipes: Recipe[];
+  inventory: (InventoryItem | null)[];
+  nearbyStations: Set<ObjectType>; // Stations within reach of the player
+  onCraft: (recipe: Recipe) => void;
+}
+
+// A station is named after the item that places it
+const stationName = (station: ObjectType) => {
+  const key = Object.keys(PLACEABLE_ITEMS).find(item => PLACEABLE_ITEMS[item] === station);
+  return key ? itemName(key) : station;
+};
+
+const CraftingPanel: React.FC<CraftingPanelProps> = ({ recipes, inventory, nearbyStations, onCraft }) => {
+  useLocale();
+  // Craftable recipes first, keeping the registry order otherwise
+  const sorted = [...recipes].sort((a, b) =>
+    Number(canCraft(inventory, b, nearbyStations)) - Number(canCraft(inventory, a, nearbyStations))
+  );
+
+  return (
+    <div className="flex flex-col gap-2 overflow-y-auto max-h-[420px] pr-1">
+        {sorted.map(recipe => {
+            const craftable = canCraft(inventory, recipe, nearbyStations);
+            const stationMissing = recipe.station && !nearbyStations.has(recipe.station);
+
+            return (
+                <div
+                    key={recipe.id}
+                    className={`bg-slate-800 p-2 rounded border ${craftable ? 'border-green-700' : 'border-slate-700 opacity-70'}`}
+                >
+                    <div className="flex justify-between items-center">
+                        <div className="text-white font-bold text-xs flex items-center gap-1">
+                            <ItemIcon itemKey={recipe.output.item} className="w-6 h-6" />
+                            {itemName(recipe.output.item)}
+                            {recipe.output.count > 1 && <span className="text-slate-400"> ×{recipe.output.count}</span>}
+                        </div>
+                        <button
+                            onClick={() => onCraft(recipe)}
+                            disabled={!craftable}
+                            className="bg-green-800 hover:bg-green-700 disabled:bg-slate-700 disabled:text-slate-500 text-green-100 border border-green-600 disabled:border-slate-600 px-2 py-1 rounded text-[10px] font-bold uppercase transition-colors"
+                        >
+                            {t('crafting.craft')}
+                        </button>
+                    </div>
+                    <div className="mt-1 flex flex-wrap gap-x-3 text-[10px] font-mono">
+                        {recipe.inputs.map(input => {
+                            const have = countItem(inventory, input.item);
+                            return (
+                                <span key={input.item} className={have >= input.count ? 'text-green-400' : 'text-red-400'}>
+                                    {itemName(input.item)} {have}/{input.count}
+                                </span>
+                            );
+                        })}
+                    </div>
+                    {recipe.station && (
+                        <div className={`text-[10px] italic ${stationMissing ? 'text-red-400' : 'text-slate-400'}`}>
+                            {t('crafting.needsStation', { station: stationName(recipe.station) })}
+                        </div>
+                    )}
+                </div>
+            );
+        })}
+    </div>
+  );
+};
+
+export default CraftingPanel;
@@ -0,0 +1,70 @@
+import React, { useEffect } from 'react';
+import { CustomSprite, DialogueState } from '../types';
+import { t, useLocale } from '../services/i18n';
+
+interface DialogueBoxProps {
+  sprite: CustomSprite; // Its name is shown as the speaker
+  page: number;
+  state: DialogueState | null; // Marks what was picked on earlier visits
+  onNext: () => void;
+  onChoose: (choice: number) => void;
+  onClose: () => void;
+}
+
+const DialogueBox: React.FC<DialogueBoxProps> = ({ sprite, page, state, onNext, onChoose, onClose }) => {
+  useLocale();
+  const current = sprite.dialogue?.[page];
+  const choices = current?.choices ?? [];
+  const isLast = page >= (sprite.dialogue?.length ?? 0) - 1;
+
+  // Enter or Space turns the page, number keys pick a choice, Escape leaves
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+        if (e.key === 'Escape') onClose();
+        else if (choices.length === 0 && (e.key === 'Enter' || e.key === ' ')) onNext();
+        else if (e.key >= '1' && e.key <= String(choices.length)) onChoose(Number(e.key) - 1);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [choices.length, onNext, onChoose, onClose]);
+
+  if (!current) return null;
+
+  return (
+    <div className="absolute bottom-28 left-1/2 -translate-x-1/2 z-40 w-full max-w-xl px-4">
+        <div className="bg-slate-900/95 border-2 border-amber-500 rounded-lg p-4 shadow-xl">
+            <div className="flex justify-between items-center mb-2">
+                <span className="text-amber-400 text-xs font-bold uppercase">{sprite.name}</span>
+                <span className="text-slate-500 text-[10px] font-mono">
+                    {state?.read && `${t('dialogue.read')} • `}{page + 1}/{sprite.dialogue.length}
+                </span>
+            </div>
+            <p className="text-slate-200 text-sm whitespace-pre-line mb-3">{current.text}</p>
+
+            {choices.length > 0 ? (
+                <div className="flex flex-col gap-1">
+                    {choices.map((choice, i) => (
+                        <button
+                            key={i}
+                            onClick={() => onChoose(i)}
+                            className={`text-left text-xs px-3 py-1.5 rounded border transition-colors ${state?.choices[page] === i
+                                ? 'bg-amber-900/60 border-amber-600 text-amber-100'
+                                : 'bg-slate-800 border-slate-600 text-slate-200 hover:bg-slate-700'}`}
+                        >
+                            {i + 1}. {choice.label}
+                        </button>
+                    ))}
+                </div>
+            ) : (
+                <div className="flex justify-end">
+                    <button onClick={onNext} className="bg-amber-700 hover:bg-amber-600 text-white text-[10px] py-1 px-3 rounded uppercase font-bold">
+                        {t(isLast ? 'dialogue.close' : 'dialogue.next')}
+                    </button>
+                </div>
+            )}
+        </div>
+    </div>
+  );
+};
+
+export default DialogueBox;
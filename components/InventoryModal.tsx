@@ -1,25 +1,28 @@
 import React, { useState } from 'react';
-import { InventoryItem } from '../types';
+import { InventoryItem, ItemRarity } from '../types';
+import { getItem } from '../services/itemRegistry';
+import { itemDescription, itemName, t, useLocale } from '../services/i18n';
+import ItemIcon from './ItemIcon';
 
 interface InventoryModalProps {
   inventory: (InventoryItem | null)[];
   onClose: () => void;
   onDrop: (index: number) => void;
   onMove: (from: number, to: number) => void;
+  onEat: (index: number) => void;
+  sidePanel?: React.ReactNode; // Shown next to the grid (crafting)
 }
 
-const InventoryModal: React.FC<InventoryModalProps> = ({ inventory, onClose, onDrop, onMove }) => {
-  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+const RARITY_COLORS: Record<ItemRarity, string> = {
+  [ItemRarity.COMMON]: 'text-slate-300',
+  [ItemRarity.UNCOMMON]: 'text-green-400',
+  [ItemRarity.RARE]: 'text-blue-400',
+  [ItemRarity.LEGENDARY]: 'text-yellow-400',
+};
 
-  // Helper to generate a color hash from string for the item icon
-  const stringToColor = (str: string) => {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      hash = str.charCodeAt(i) + ((hash << 5) - hash);
-    }
-    const c = (hash & 0x00FFFFFF).toString(16).toUpperCase();
-    return '#' + "00000".substring(0, 6 - c.length) + c;
-  };
+const InventoryModal: React.FC<InventoryModalProps> = ({ inventory, onClose, onDrop, onMove, onEat, sidePanel }) => {
+  useLocale();
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
 
   const handleSlotClick = (index: number) => {
       // Logic for selecting / moving
@@ -43,19 +46,21 @@ const InventoryModal: React.FC<InventoryModalProps> = ({ inventory, onClose, onD
   };
 
   const selectedItem = selectedIndex !== null ? inventory[selectedIndex] : null;
+  const selectedDef = selectedItem ? getItem(selectedItem.id) : null;
 
   return (
     <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4 backdrop-blur-sm" onClick={onClose}>
       <div 
-        className="bg-slate-900 border-2 border-slate-600 rounded-lg w-full max-w-lg flex flex-col shadow-2xl overflow-hidden" 
+        className={`bg-slate-900 border-2 border-slate-600 rounded-lg w-full ${sidePanel ? 'max-w-4xl' : 'max-w-lg'} flex flex-col shadow-2xl overflow-hidden`} 
         onClick={e => e.stopPropagation()}
       >
         <div className="p-3 border-b border-slate-700 bg-slate-800 flex justify-between items-center">
-            <h3 className="text-white text-sm font-bold uppercase tracking-wider">Inventory (36 Slots)</h3>
+            <h3 className="text-white text-sm font-bold uppercase tracking-wider">{t('inventory.title', { size: inventory.length })}</h3>
             <button onClick={onClose} className="text-slate-400 hover:text-white text-xl leading-none">×</button>
         </div>
 
-        <div className="p-4 flex flex-col gap-4">
+        <div className="flex">
+        <div className="p-4 flex flex-col gap-4 flex-1 max-w-lg">
             {/* Grid */}
             <div className="grid grid-cols-6 gap-2">
                 {inventory.map((slot, index) => {
@@ -74,14 +79,7 @@ const InventoryModal: React.FC<InventoryModalProps> = ({ inventory, onClose, onD
                         >
                             {slot && (
                                 <>
-                                    <div 
-                                        className="absolute inset-1 rounded-sm border border-white/10 opacity-80"
-                                        style={{ backgroundColor: stringToColor(slot.id) }}
-                                    >
-                                        <div className="w-full h-full flex items-center justify-center text-[10px] font-bold text-white drop-shadow-md text-center break-all leading-tight px-1">
-                                            {slot.id.substring(0, 3)}
-                                        </div>
-                                    </div>
+                                    <ItemIcon itemKey={slot.id} className="absolute inset-1 w-[calc(100%-0.5rem)] h-[calc(100%-0.5rem)]" />
                                     <span className="absolute bottom-0 right-0 text-[10px] font-mono text-white bg-black/80 px-1 rounded-tl shadow-sm z-10">
                                         {slot.count}
                                     </span>
@@ -98,28 +96,60 @@ const InventoryModal: React.FC<InventoryModalProps> = ({ inventory, onClose, onD
                 {selectedItem ? (
                     <>
                         <div>
-                            <div className="text-white font-bold text-sm">{selectedItem.id}</div>
-                            <div className="text-slate-400 text-xs">Quantity: {selectedItem.count}</div>
-                            <div className="text-green-400 text-[10px] mt-1 italic animate-pulse">Select another slot to move</div>
+                            <div className={`font-bold text-sm ${RARITY_COLORS[selectedDef!.rarity]}`}>{itemName(selectedItem.id)}</div>
+                            <div className="text-slate-500 text-[10px] uppercase">
+                                {t(`category.${selectedDef!.category}`)} • {t(`rarity.${selectedDef!.rarity}`)}
+                            </div>
+                            {itemDescription(selectedItem.id) && (
+                                <div className="text-slate-300 text-xs italic">{itemDescription(selectedItem.id)}</div>
+                            )}
+                            <div className="text-slate-400 text-xs">{t('inventory.quantity', { count: selectedItem.count, max: selectedDef!.maxStack })}</div>
+                            {selectedItem.data?.durability !== undefined && (
+                                <div className="text-slate-400 text-xs">{t('inventory.durability', { value: selectedItem.data.durability })}</div>
+                            )}
+                            {selectedItem.data?.quality !== undefined && (
+                                <div className="text-slate-400 text-xs">{t('inventory.quality', { value: selectedItem.data.quality })}</div>
+                            )}
+                            {selectedDef!.food && (
+                                <div className="text-orange-300 text-xs">{t('inventory.food', { food: selectedDef!.food })}</div>
+                            )}
+                            <div className="text-green-400 text-[10px] mt-1 italic animate-pulse">{t('inventory.moveHint')}</div>
+                        </div>
+                        <div className="flex flex-col gap-2">
+                            {selectedDef!.food && (
+                                <button 
+                                    onClick={() => onEat(selectedIndex!)}
+                                    className="bg-orange-900/80 hover:bg-orange-700 text-orange-200 border border-orange-700 px-4 py-2 rounded text-xs font-bold uppercase transition-colors"
+                                >
+                                    {t('inventory.eat')}
+                                </button>
+                            )}
+                            <button 
+                                onClick={() => {
+                                    onDrop(selectedIndex!);
+                                    setSelectedIndex(null);
+                                }}
+                                className="bg-red-900/80 hover:bg-red-700 text-red-200 border border-red-700 px-4 py-2 rounded text-xs font-bold uppercase transition-colors"
+                            >
+                                {t('inventory.drop')}
+                            </button>
                         </div>
-                        <button 
-                            onClick={() => {
-                                onDrop(selectedIndex!);
-                                setSelectedIndex(null);
-                            }}
-                            className="bg-red-900/80 hover:bg-red-700 text-red-200 border border-red-700 px-4 py-2 rounded text-xs font-bold uppercase transition-colors"
-                        >
-                            Drop Item
-                        </button>
                     </>
                 ) : (
-                    <div className="text-slate-500 text-xs italic w-full text-center">Select an item to view or move</div>
+                    <div className="text-slate-500 text-xs italic w-full text-center">{t('inventory.empty')}</div>
                 )}
             </div>
         </div>
+        {sidePanel && (
+            <div className="p-4 border-l border-slate-700 flex-1 flex flex-col gap-2">
+                <h4 className="text-white text-xs font-bold uppercase tracking-wider">{t('inventory.crafting')}</h4>
+                {sidePanel}
+            </div>
+        )}
+        </div>
         
         <div className="p-2 bg-slate-900 text-center text-[10px] text-slate-500 border-t border-slate-800">
-            Click item to select &rarr; Click target to move/swap/stack
+            {t('inventory.help')}
         </div>
       </div>
     </div>
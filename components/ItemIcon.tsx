@@ -0,0 +1,49 @@
+import React from 'react';
+import { PixelArtMatrix } from '../types';
+import { getItem } from '../services/itemRegistry';
+import { itemName } from '../services/i18n';
+
+// Rendered icons by item key; the art never changes at runtime
+const iconUrls = new Map<string, string>();
+
+const renderIcon = (art: PixelArtMatrix): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = art.width;
+  canvas.height = art.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+
+  for (let i = 0; i < art.data.length; i++) {
+    const colorIndex = art.data[i];
+    if (colorIndex !== 0) {
+      ctx.fillStyle = art.palette[colorIndex];
+      ctx.fillRect(i % art.width, Math.floor(i / art.width), 1, 1);
+    }
+  }
+  return canvas.toDataURL();
+};
+
+interface ItemIconProps {
+  itemKey: string;
+  className?: string;
+}
+
+const ItemIcon: React.FC<ItemIconProps> = ({ itemKey, className }) => {
+  let url = iconUrls.get(itemKey);
+  if (url === undefined) {
+    url = renderIcon(getItem(itemKey).icon);
+    iconUrls.set(itemKey, url);
+  }
+
+  return (
+    <img
+      src={url}
+      alt={itemName(itemKey)}
+      className={className}
+      style={{ imageRendering: 'pixelated' }}
+      draggable={false}
+    />
+  );
+};
+
+export default ItemIcon;
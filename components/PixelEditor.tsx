@@ -1,16 +1,21 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { CustomSprite } from '../types';
-import { EDITOR_PALETTE } from '../constants';
+import { CustomSprite, DialogueChoice, DialoguePage, ItemCategory, ItemStack } from '../types';
+import { EDITOR_PALETTE, ITEM_DEFINITIONS } from '../constants';
 import { StorageService } from '../services/storage.ts';
+import { itemName, t, useLocale } from '../services/i18n';
+
+// Tools carry their own durability, so they can't be counted out as materials
+const BUILD_MATERIALS = ITEM_DEFINITIONS.filter(item => item.category !== ItemCategory.TOOL).map(item => item.key);
 
 interface PixelEditorProps {
   onClose: () => void;
 }
 
 const PixelEditor: React.FC<PixelEditorProps> = ({ onClose }) => {
+  useLocale();
   const [sprites, setSprites] = useState<CustomSprite[]>([]);
   const [currentId, setCurrentId] = useState<string | null>(null);
-  const [name, setName] = useState('My Sprite');
+  const [name, setName] = useState(() => t('editor.defaultName'));
   const [size, setSize] = useState<16 | 32>(16);
   const [gridData, setGridData] = useState<number[]>(new Array(16 * 16).fill(0));
   const [selectedColor, setSelectedColor] = useState<number>(1);
@@ -22,6 +27,8 @@ const PixelEditor: React.FC<PixelEditorProps> = ({ onClose }) => {
   const [portalSeed, setPortalSeed] = useState('');
   const [portalX, setPortalX] = useState(0);
   const [portalY, setPortalY] = useState(0);
+  const [cost, setCost] = useState<ItemStack[]>([]);
+  const [dialogue, setDialogue] = useState<DialoguePage[]>([]);
   
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const isDrawing = useRef(false);
@@ -119,6 +126,37 @@ const PixelEditor: React.FC<PixelEditorProps> = ({ onClose }) => {
     isDrawing.current = false;
   };
 
+  // One entry per item, so the inventory check sees the full amount
+  const mergeCost = (stacks: ItemStack[]): ItemStack[] | undefined => {
+    const totals = new Map<string, number>();
+    stacks.forEach(stack => totals.set(stack.item, (totals.get(stack.item) ?? 0) + stack.count));
+    const merged = Array.from(totals, ([item, count]) => ({ item, count })).filter(stack => stack.count > 0);
+    return merged.length > 0 ? merged : undefined;
+  };
+
+  const updateCost = (index: number, change: Partial<ItemStack>) => {
+    setCost(prev => prev.map((stack, i) => (i === index ? { ...stack, ...change } : stack)));
+  };
+
+  const updatePage = (index: number, change: Partial<DialoguePage>) => {
+    setDialogue(prev => prev.map((page, i) => (i === index ? { ...page, ...change } : page)));
+  };
+
+  // Choices that led to the removed page end the dialogue instead; later pages move up one
+  const removePage = (index: number) => {
+    setDialogue(prev => prev.filter((_, i) => i !== index).map(page => ({
+      ...page,
+      choices: page.choices?.map(choice => ({
+        ...choice,
+        goto: choice.goto === null || choice.goto === index ? null : choice.goto > index ? choice.goto - 1 : choice.goto,
+      })),
+    })));
+  };
+
+  const updateChoices = (index: number, update: (choices: DialogueChoice[]) => DialogueChoice[]) => {
+    setDialogue(prev => prev.map((page, i) => (i === index ? { ...page, choices: update(page.choices ?? []) } : page)));
+  };
+
   const handleSave = () => {
     const newSprite: CustomSprite = {
       id: currentId || crypto.randomUUID(),
@@ -129,13 +167,18 @@ const PixelEditor: React.FC<PixelEditorProps> = ({ onClose }) => {
       data: gridData,
       createdAt: Date.now(),
       collision,
-      portal: isPortal ? { targetSeed: portalSeed, targetX: portalX, targetY: portalY } : undefined
+      portal: isPortal ? { targetSeed: portalSeed, targetX: portalX, targetY: portalY } : undefined,
+      cost: mergeCost(cost),
+      // Pages without choices just lead on to the next one
+      dialogue: dialogue.length > 0
+        ? dialogue.map(page => (page.choices?.length ? page : { text: page.text }))
+        : undefined
     };
     
     StorageService.saveSprite(newSprite);
     setSprites(StorageService.getSprites());
     setCurrentId(newSprite.id);
-    alert('Sprite Saved!');
+    alert(t('editor.saved'));
   };
 
   const loadSprite = (sprite: CustomSprite) => {
@@ -144,6 +187,8 @@ const PixelEditor: React.FC<PixelEditorProps> = ({ onClose }) => {
     setSize((sprite.width === 16 || sprite.width === 32) ? sprite.width : 16);
     setGridData(sprite.data);
     setCollision(!!sprite.collision);
+    setCost(sprite.cost ?? []);
+    setDialogue(sprite.dialogue ?? []);
     if (sprite.portal) {
         setIsPortal(true);
         setPortalSeed(sprite.portal.targetSeed);
@@ -159,9 +204,11 @@ const PixelEditor: React.FC<PixelEditorProps> = ({ onClose }) => {
 
   const createNew = () => {
     setCurrentId(null);
-    setName('New Sprite');
+    setName(t('editor.untitled'));
     setGridData(new Array(size * size).fill(0));
     setCollision(false);
+    setCost([]);
+    setDialogue([]);
     setIsPortal(false);
     setPortalSeed('');
     setPortalX(0);
@@ -170,7 +217,7 @@ const PixelEditor: React.FC<PixelEditorProps> = ({ onClose }) => {
 
   const handleDelete = (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    if(confirm('Are you sure?')) {
+    if(confirm(t('editor.confirmDelete'))) {
         StorageService.deleteSprite(id);
         setSprites(StorageService.getSprites());
         if(currentId === id) createNew();
@@ -184,12 +231,12 @@ const PixelEditor: React.FC<PixelEditorProps> = ({ onClose }) => {
         {/* Sidebar: Library */}
         <div className="w-64 bg-slate-800 border-r border-slate-700 flex flex-col">
           <div className="p-4 border-b border-slate-700">
-            <h2 className="text-white text-xs font-bold uppercase tracking-wider mb-2">Library</h2>
+            <h2 className="text-white text-xs font-bold uppercase tracking-wider mb-2">{t('editor.library')}</h2>
             <button 
                 onClick={createNew}
                 className="w-full bg-blue-600 hover:bg-blue-500 text-white text-[10px] py-2 rounded font-bold uppercase transition-colors"
             >
-                + New Sprite
+                {t('editor.newSprite')}
             </button>
           </div>
           <div className="flex-1 overflow-y-auto p-2 space-y-2">
@@ -208,7 +255,7 @@ const PixelEditor: React.FC<PixelEditorProps> = ({ onClose }) => {
                     </button>
                 </div>
             ))}
-            {sprites.length === 0 && <p className="text-[10px] text-slate-500 text-center mt-4">No saved sprites</p>}
+            {sprites.length === 0 && <p className="text-[10px] text-slate-500 text-center mt-4">{t('editor.noSprites')}</p>}
           </div>
         </div>
 
@@ -246,19 +293,19 @@ const PixelEditor: React.FC<PixelEditorProps> = ({ onClose }) => {
                     onClick={() => setTool('pencil')}
                     className={`px-4 py-2 rounded text-xs font-bold uppercase ${tool === 'pencil' ? 'bg-green-600 text-white' : 'bg-slate-700 text-slate-300'}`}
                 >
-                    Pencil
+                    {t('editor.pencil')}
                 </button>
                 <button 
                     onClick={() => setTool('eraser')}
                     className={`px-4 py-2 rounded text-xs font-bold uppercase ${tool === 'eraser' ? 'bg-red-600 text-white' : 'bg-slate-700 text-slate-300'}`}
                 >
-                    Eraser
+                    {t('editor.eraser')}
                 </button>
                 <button 
                     onClick={() => setGridData(new Array(size * size).fill(0))}
                     className="px-4 py-2 rounded text-xs font-bold uppercase bg-slate-700 text-slate-300 hover:bg-slate-600"
                 >
-                    Clear All
+                    {t('editor.clear')}
                 </button>
             </div>
         </div>
@@ -266,7 +313,7 @@ const PixelEditor: React.FC<PixelEditorProps> = ({ onClose }) => {
         {/* Right Bar: Palette & Actions */}
         <div className="w-56 bg-slate-800 border-l border-slate-700 flex flex-col overflow-y-auto">
             <div className="p-4 border-b border-slate-700">
-                <h3 className="text-white text-[10px] uppercase font-bold mb-2">Palette</h3>
+                <h3 className="text-white text-[10px] uppercase font-bold mb-2">{t('editor.palette')}</h3>
                 <div className="grid grid-cols-4 gap-1">
                     {Object.entries(EDITOR_PALETTE).map(([idxStr, color]) => {
                         const idx = Number(idxStr);
@@ -277,7 +324,7 @@ const PixelEditor: React.FC<PixelEditorProps> = ({ onClose }) => {
                                 onClick={() => setSelectedColor(idx)}
                                 className={`w-8 h-8 rounded-sm border-2 ${selectedColor === idx ? 'border-white' : 'border-transparent'}`}
                                 style={{ backgroundColor: color }}
-                                title={`Color ${idx}`}
+                                title={t('editor.color', { index: idx })}
                             />
                         );
                     })}
@@ -285,7 +332,7 @@ const PixelEditor: React.FC<PixelEditorProps> = ({ onClose }) => {
             </div>
 
             <div className="p-4 border-b border-slate-700 flex-1">
-                <h3 className="text-white text-[10px] uppercase font-bold mb-2">Properties</h3>
+                <h3 className="text-white text-[10px] uppercase font-bold mb-2">{t('editor.properties')}</h3>
                 
                 {/* Collision Toggle */}
                 <div className="mb-4">
@@ -296,7 +343,7 @@ const PixelEditor: React.FC<PixelEditorProps> = ({ onClose }) => {
                             onChange={e => setCollision(e.target.checked)}
                             className="w-4 h-4 rounded bg-slate-700 border-slate-500 text-green-500 focus:ring-0"
                         />
-                        <span className="text-xs text-slate-300">Solid Object (Collision)</span>
+                        <span className="text-xs text-slate-300">{t('editor.collision')}</span>
                     </label>
                 </div>
 
@@ -309,7 +356,7 @@ const PixelEditor: React.FC<PixelEditorProps> = ({ onClose }) => {
                             onChange={e => setIsPortal(e.target.checked)}
                             className="w-4 h-4 rounded bg-slate-700 border-slate-500 text-purple-500 focus:ring-0"
                         />
-                        <span className="text-xs text-slate-300">Is Portal (Teleport)</span>
+                        <span className="text-xs text-slate-300">{t('editor.portal')}</span>
                     </label>
                 </div>
 
@@ -317,18 +364,18 @@ const PixelEditor: React.FC<PixelEditorProps> = ({ onClose }) => {
                 {isPortal && (
                     <div className="bg-slate-900/50 p-2 rounded border border-slate-700 space-y-2">
                         <div>
-                            <label className="block text-[9px] text-slate-500 uppercase mb-1">Target Seed</label>
+                            <label className="block text-[9px] text-slate-500 uppercase mb-1">{t('editor.targetSeed')}</label>
                             <input 
                                 type="text"
                                 value={portalSeed}
                                 onChange={e => setPortalSeed(e.target.value)}
                                 className="w-full bg-slate-800 border border-slate-600 text-white text-xs px-1 py-1 rounded"
-                                placeholder="Seed..."
+                                placeholder={t('editor.seedPlaceholder')}
                             />
                         </div>
                         <div className="flex gap-2">
                             <div>
-                                <label className="block text-[9px] text-slate-500 uppercase mb-1">Target X</label>
+                                <label className="block text-[9px] text-slate-500 uppercase mb-1">{t('editor.targetX')}</label>
                                 <input 
                                     type="number"
                                     value={portalX}
@@ -337,7 +384,7 @@ const PixelEditor: React.FC<PixelEditorProps> = ({ onClose }) => {
                                 />
                             </div>
                             <div>
-                                <label className="block text-[9px] text-slate-500 uppercase mb-1">Target Y</label>
+                                <label className="block text-[9px] text-slate-500 uppercase mb-1">{t('editor.targetY')}</label>
                                 <input 
                                     type="number"
                                     value={portalY}
@@ -348,6 +395,109 @@ const PixelEditor: React.FC<PixelEditorProps> = ({ onClose }) => {
                         </div>
                     </div>
                 )}
+
+                {/* Build Cost */}
+                <div className="mt-4">
+                    <h3 className="text-white text-[10px] uppercase font-bold mb-2">{t('editor.buildCost')}</h3>
+                    {cost.length === 0 && <p className="text-[9px] text-slate-500 italic mb-2">{t('editor.free')}</p>}
+                    {cost.map((stack, index) => (
+                        <div key={index} className="flex gap-1 mb-1">
+                            <select
+                                value={stack.item}
+                                onChange={e => updateCost(index, { item: e.target.value })}
+                                className="flex-1 min-w-0 bg-slate-800 border border-slate-600 text-white text-[10px] px-1 py-1 rounded"
+                            >
+                                {BUILD_MATERIALS.map(key => (
+                                    <option key={key} value={key}>{itemName(key)}</option>
+                                ))}
+                            </select>
+                            <input
+                                type="number"
+                                min={1}
+                                value={stack.count}
+                                onChange={e => updateCost(index, { count: Math.max(1, Number(e.target.value)) })}
+                                className="w-12 bg-slate-800 border border-slate-600 text-white text-[10px] px-1 py-1 rounded"
+                            />
+                            <button
+                                onClick={() => setCost(prev => prev.filter((_, i) => i !== index))}
+                                className="text-red-500 hover:text-red-400 font-bold px-1"
+                            >
+                                ×
+                            </button>
+                        </div>
+                    ))}
+                    <button
+                        onClick={() => setCost(prev => [...prev, { item: BUILD_MATERIALS[0], count: 1 }])}
+                        className="w-full bg-slate-700 hover:bg-slate-600 text-slate-300 text-[10px] py-1 rounded font-bold uppercase"
+                    >
+                        {t('editor.addCost')}
+                    </button>
+                </div>
+
+                {/* Dialogue */}
+                <div className="mt-4">
+                    <h3 className="text-white text-[10px] uppercase font-bold mb-2">{t('editor.dialogue')}</h3>
+                    {dialogue.length === 0 && <p className="text-[9px] text-slate-500 italic mb-2">{t('editor.noDialogue')}</p>}
+                    {dialogue.map((page, index) => (
+                        <div key={index} className="bg-slate-900/50 p-2 rounded border border-slate-700 mb-2 space-y-1">
+                            <div className="flex justify-between items-center">
+                                <span className="text-[9px] text-slate-500 uppercase">{t('editor.page', { number: index + 1 })}</span>
+                                <button onClick={() => removePage(index)} className="text-red-500 hover:text-red-400 font-bold px-1">×</button>
+                            </div>
+                            <textarea
+                                value={page.text}
+                                onChange={e => updatePage(index, { text: e.target.value })}
+                                rows={3}
+                                placeholder={t('editor.pageText')}
+                                className="w-full bg-slate-800 border border-slate-600 text-white text-[10px] px-1 py-1 rounded resize-none"
+                            />
+                            {(page.choices ?? []).map((choice, choiceIndex) => (
+                                <div key={choiceIndex} className="flex gap-1">
+                                    <input
+                                        value={choice.label}
+                                        onChange={e => updateChoices(index, choices => choices.map((c, i) => (i === choiceIndex ? { ...c, label: e.target.value } : c)))}
+                                        placeholder={t('editor.choiceLabel')}
+                                        className="flex-1 min-w-0 bg-slate-800 border border-slate-600 text-white text-[10px] px-1 py-1 rounded"
+                                    />
+                                    <select
+                                        value={choice.goto ?? ''}
+                                        onChange={e => {
+                                            const goto = e.target.value === '' ? null : Number(e.target.value);
+                                            updateChoices(index, choices => choices.map((c, i) => (i === choiceIndex ? { ...c, goto } : c)));
+                                        }}
+                                        className="w-16 bg-slate-800 border border-slate-600 text-white text-[10px] px-1 py-1 rounded"
+                                    >
+                                        <option value="">{t('editor.end')}</option>
+                                        {dialogue.map((_, target) => (
+                                            <option key={target} value={target}>{t('editor.page', { number: target + 1 })}</option>
+                                        ))}
+                                    </select>
+                                    <button
+                                        onClick={() => updateChoices(index, choices => choices.filter((_, i) => i !== choiceIndex))}
+                                        className="text-red-500 hover:text-red-400 font-bold px-1"
+                                    >
+                                        ×
+                                    </button>
+                                </div>
+                            ))}
+                            <button
+                                onClick={() => updateChoices(index, choices => [
+                                    ...choices,
+                                    { label: '', goto: index + 1 < dialogue.length ? index + 1 : null },
+                                ])}
+                                className="w-full bg-slate-700 hover:bg-slate-600 text-slate-300 text-[9px] py-1 rounded font-bold uppercase"
+                            >
+                                {t('editor.addChoice')}
+                            </button>
+                        </div>
+                    ))}
+                    <button
+                        onClick={() => setDialogue(prev => [...prev, { text: '' }])}
+                        className="w-full bg-slate-700 hover:bg-slate-600 text-slate-300 text-[10px] py-1 rounded font-bold uppercase"
+                    >
+                        {t('editor.addPage')}
+                    </button>
+                </div>
             </div>
 
             <div className="p-4 flex flex-col gap-2">
@@ -355,13 +505,13 @@ const PixelEditor: React.FC<PixelEditorProps> = ({ onClose }) => {
                     onClick={handleSave}
                     className="w-full bg-green-600 hover:bg-green-500 text-white py-3 rounded font-bold uppercase text-xs"
                 >
-                    Save Sprite
+                    {t('editor.save')}
                 </button>
                 <button 
                     onClick={onClose}
                     className="w-full bg-slate-700 hover:bg-slate-600 text-white py-3 rounded font-bold uppercase text-xs"
                 >
-                    Close
+                    {t('editor.close')}
                 </button>
             </div>
         </div>
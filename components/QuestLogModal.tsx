@@ -0,0 +1,106 @@
+import React from 'react';
+import { BiomeId, ObjectiveType, QuestDefinition, QuestObjective } from '../types';
+import { QuestStatus, isQuestReady, objectiveGoal } from '../services/quests';
+import { itemName, t, useLocale } from '../services/i18n';
+import ItemIcon from './ItemIcon';
+
+interface QuestLogModalProps {
+  quests: QuestStatus[];
+  biomeLabel: (id: BiomeId) => string; // Localized name of a built-in or custom biome
+  onClaim: (id: string) => void;
+  onClose: () => void;
+}
+
+export const describeObjective = (objective: QuestObjective, biomeLabel: (id: BiomeId) => string): string => {
+  switch (objective.type) {
+    case ObjectiveType.COLLECT: return t('quests.collect', { count: objective.count, item: itemName(objective.item) });
+    case ObjectiveType.REACH_BIOME: return t('quests.reachBiome', { biome: biomeLabel(objective.biome) });
+    case ObjectiveType.WALK: return t('quests.walk', { distance: objective.distance });
+    case ObjectiveType.VISIT:
+      if (objective.name) return t('quests.visitNamed', { name: objective.name, x: objective.x, y: objective.y });
+      return t(objective.village ? 'quests.visitVillage' : 'quests.visit', { x: objective.x, y: objective.y });
+    case ObjectiveType.USE_PORTAL: return t('quests.usePortal');
+  }
+};
+
+// Quests without a title of their own are named after their first objective
+export const questTitle = (quest: QuestDefinition, biomeLabel: (id: BiomeId) => string): string =>
+  quest.title ?? describeObjective(quest.objectives[0], biomeLabel);
+
+const QuestLogModal: React.FC<QuestLogModalProps> = ({ quests, biomeLabel, onClaim, onClose }) => {
+  useLocale();
+  // Ready to claim first, then open quests, finished ones last
+  const rank = (quest: QuestStatus) => (quest.completed ? 2 : isQuestReady(quest) ? 0 : 1);
+  const sorted = [...quests].sort((a, b) => rank(a) - rank(b));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="bg-slate-900 border-2 border-slate-600 rounded-lg w-full max-w-lg flex flex-col shadow-2xl overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-3 border-b border-slate-700 bg-slate-800 flex justify-between items-center">
+            <h3 className="text-white text-sm font-bold uppercase tracking-wider">{t('quests.title')}</h3>
+            <button onClick={onClose} className="text-slate-400 hover:text-white text-xl leading-none">×</button>
+        </div>
+
+        <div className="p-3 flex flex-col gap-2 overflow-y-auto max-h-[480px]">
+            {sorted.map(quest => {
+                const ready = isQuestReady(quest);
+                const active = quest.definition.objectives.findIndex((objective, i) => quest.progress[i] < objectiveGoal(objective));
+
+                return (
+                    <div
+                        key={quest.definition.id}
+                        className={`bg-slate-800 p-2 rounded border ${ready ? 'border-green-700' : 'border-slate-700'} ${quest.completed ? 'opacity-50' : ''}`}
+                    >
+                        <div className="flex justify-between items-center">
+                            <div className="text-white font-bold text-xs">
+                                {questTitle(quest.definition, biomeLabel)}
+                                {quest.completed && <span className="text-green-400"> ({t('quests.completed')})</span>}
+                            </div>
+                            {ready && (
+                                <button
+                                    onClick={() => onClaim(quest.definition.id)}
+                                    className="bg-green-800 hover:bg-green-700 text-green-100 border border-green-600 px-2 py-1 rounded text-[10px] font-bold uppercase transition-colors"
+                                >
+                                    {t('quests.claim')}
+                                </button>
+                            )}
+                        </div>
+                        {!quest.completed && (
+                            <ul className="mt-1 text-[10px] font-mono space-y-0.5">
+                                {quest.definition.objectives.map((objective, i) => {
+                                    const goal = objectiveGoal(objective);
+                                    const done = quest.progress[i] >= goal;
+                                    const color = done ? 'text-green-400' : i === active ? 'text-slate-200' : 'text-slate-500';
+                                    return (
+                                        <li key={i} className={color}>
+                                            {done ? '✓' : '•'} {describeObjective(objective, biomeLabel)}
+                                            {goal > 1 && !done && ` (${Math.floor(quest.progress[i])}/${goal})`}
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        )}
+                        {quest.definition.rewards.length > 0 && (
+                            <div className="mt-1 flex flex-wrap items-center gap-x-3 text-[10px] text-yellow-400">
+                                <span className="text-slate-400">{t('quests.rewards')}</span>
+                                {quest.definition.rewards.map(reward => (
+                                    <span key={reward.item} className="flex items-center gap-1">
+                                        <ItemIcon itemKey={reward.item} className="w-4 h-4" />
+                                        {itemName(reward.item)} ×{reward.count}
+                                    </span>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuestLogModal;
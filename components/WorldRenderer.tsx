@@ -1,15 +1,40 @@
 import React, { useRef, useEffect, useState } from 'react';
 import { WorldGenerator } from '../services/worldEngine';
+import { ChunkStreamer } from '../services/chunkStreamer';
 import { StorageService } from '../services/storage';
 import CommandBar from './CommandBar';
 import InventoryModal from './InventoryModal';
-import { OBJECT_ART, TERRAIN_ART, PLAYER_SPRITES, TERRAIN_RESOURCES } from '../constants';
-import { ObjectType, PixelArtMatrix, TileType, Direction, CustomSprite, InventoryItem, ExplorationBounds } from '../types';
+import CraftingPanel from './CraftingPanel';
+import QuestLogModal, { questTitle } from './QuestLogModal';
+import DialogueBox from './DialogueBox';
+import { OBJECT_ART, DIRECTION_OFFSETS, TERRAIN_TILESETS, PLAYER_SPRITES, RECIPES, RESPAWN_VITALS, MAX_VITAL, VILLAGER_SPRITES } from '../constants';
+import { moveItem } from '../services/crafting';
+import { getItem, migrateInventory, resolveItemKey } from '../services/itemRegistry';
+import { biomeName, itemName, t, useLocale } from '../services/i18n';
+import { autotileMasks } from '../services/autotile';
+import { dayNumber, formatClock, isNight, skyTint } from '../services/environment';
+import { createVitals, isDead } from '../services/survival';
+import { ControlMode, Simulation } from '../services/simulation';
+import { worldQuests } from '../services/quests';
+import { nextPage } from '../services/dialogue';
+import { GameSession } from '../services/session';
+import {
+  ActionContext, ActionResult, attack, craftRecipe, demolish, drop, eat, gather, interact, nearbyStations, placeHeld, placeSprite,
+} from '../services/actions';
+import { SpriteKind } from '../services/ecs';
+import { createStarterInventory } from '../services/tools';
+import { GENERATOR_VERSIONS, LATEST_GENERATOR_VERSION, LEGACY_GENERATOR_VERSION } from '../services/generatorVersions';
+import { ObjectType, PixelArtMatrix, TileType, Direction, CustomSprite, InventoryItem, BiomeDefinition, WorldTile, Recipe, BiomeId, Weather, QuestDefinition } from '../types';
 
 interface WorldRendererProps {
   seed: string;
+  customBiomes: BiomeDefinition[]; // Used for worlds without a save; saved worlds keep their own
+  customQuests: QuestDefinition[]; // Imported from JSON; offered alongside the built-in and generated ones
+  generatorVersion: number; // Used for worlds without a save; saved worlds keep their own
   initialPos?: { x: number, y: number } | null; // For portal teleportation override
   placingSprite: CustomSprite | null;
+  creative: boolean; // Sandbox: placing sprites costs nothing
+  peaceful: boolean; // No hostile creatures and no fighting
   onPlaceComplete: () => void;
   onTeleport: (seed: string, x: number, y: number) => void;
 }
@@ -36,127 +61,187 @@ const preRenderTile = (art: PixelArtMatrix): HTMLCanvasElement => {
   return canvas;
 };
 
+// Falling rain, drifting snow or blowing sand over the whole view. Particles
+// are placed from their index and the clock alone, so nothing is stored.
+const drawWeather = (ctx: CanvasRenderingContext2D, weather: Weather, width: number, height: number, time: number) => {
+  if (weather === Weather.CLEAR) return;
+
+  if (weather === Weather.SANDSTORM) {
+    ctx.fillStyle = 'rgba(194, 154, 92, 0.35)';
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  const count = weather === Weather.SNOW ? 120 : 160;
+  for (let i = 0; i < count; i++) {
+    // Spread the particles out with two unrelated multipliers
+    const baseX = (i * 7919) % width;
+    const baseY = (i * 104729) % height;
+    if (weather === Weather.RAIN) {
+      const x = (baseX + time * 0.15) % width;
+      const y = (baseY + time * 0.9) % height;
+      ctx.strokeStyle = 'rgba(160, 190, 255, 0.6)';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(x, y);
+      ctx.lineTo(x - 3, y - 12);
+      ctx.stroke();
+    } else if (weather === Weather.SNOW) {
+      const x = (baseX + Math.sin(time / 800 + i) * 12 + width) % width;
+      const y = (baseY + time * 0.06) % height;
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+      ctx.fillRect(x, y, 3, 3);
+    } else {
+      const x = (baseX + time * 0.8) % width;
+      const y = (baseY + Math.sin(time / 500 + i) * 6 + height) % height;
+      ctx.fillStyle = 'rgba(120, 90, 50, 0.6)';
+      ctx.fillRect(x, y, 8, 2);
+    }
+  }
+};
+
 const TILE_SIZE = 16;
 const SCALE = 3;
 const FINAL_TILE_SIZE = TILE_SIZE * SCALE;
 const INVENTORY_SIZE = 36;
-const MAX_STACK = 32;
+const HOTBAR_SIZE = 6;
 
-const WorldRenderer: React.FC<WorldRendererProps> = ({ seed, initialPos, placingSprite, onPlaceComplete, onTeleport }) => {
+const WorldRenderer: React.FC<WorldRendererProps> = ({ seed, customBiomes, customQuests, generatorVersion, initialPos, placingSprite, creative, peaceful, onPlaceComplete, onTeleport }) => {
+  useLocale();
   const canvasRef = useRef<HTMLCanvasElement>(null);
   
+  // A saved world is always rebuilt with the generator version that made it
+  const worldVersion = () => {
+    const savedState = StorageService.loadGameState();
+    return savedState && savedState.seed === seed
+      ? (savedState.generatorVersion ?? LEGACY_GENERATOR_VERSION)
+      : generatorVersion;
+  };
+
+  // ...and with the custom biomes it was saved with: imported biomes only reach new worlds
+  const worldBiomes = () => {
+    const savedState = StorageService.loadGameState();
+    return savedState && savedState.seed === seed && savedState.biomes ? savedState.biomes : customBiomes;
+  };
+
+  const buildWorld = () => new WorldGenerator(seed, worldBiomes(), worldVersion());
+
   // Game State
-  const [world, setWorld] = useState<WorldGenerator>(new WorldGenerator(seed));
+  // A new seed or new settings replace the world during render rather than in
+  // an effect, so the load effect below never sees the previous seed's world
+  const [world, setWorld] = useState<WorldGenerator>(buildWorld);
+  const [upgradeDismissed, setUpgradeDismissed] = useState(false);
+  const [worldSource, setWorldSource] = useState({ seed, customBiomes, generatorVersion });
+  if (worldSource.seed !== seed || worldSource.customBiomes !== customBiomes || worldSource.generatorVersion !== generatorVersion) {
+    setWorldSource({ seed, customBiomes, generatorVersion });
+    setWorld(buildWorld());
+    setUpgradeDismissed(false);
+  }
   // Inventory State (Array of 36 slots)
-  const [inventory, setInventory] = useState<(InventoryItem | null)[]>(new Array(INVENTORY_SIZE).fill(null));
+  const [inventory, setInventory] = useState<(InventoryItem | null)[]>(() => createStarterInventory(INVENTORY_SIZE));
+  const [selectedSlot, setSelectedSlot] = useState(0); // Hotbar slot the player is holding
   const [showInventory, setShowInventory] = useState(false);
+  const [showQuests, setShowQuests] = useState(false);
+  const [dialogue, setDialogue] = useState<{ x: number; y: number; sprite: CustomSprite; page: number } | null>(null); // Open dialogue box
   
   // UI State
   const [uiStats, setUiStats] = useState({ 
-      x: 0, y: 0, dist: 0, spawnRadius: 0, biome: 'Unknown', exploredArea: 0 
+      x: 0, y: 0, dist: 0, spawnRadius: 0, biome: '', exploredArea: 0,
+      day: 1, clock: '', night: false, weather: Weather.CLEAR, vitals: createVitals()
   });
   const [nearbyResources, setNearbyResources] = useState<string[]>([]);
+  const [resourceNode, setResourceNode] = useState<{ remaining: number; capacity: number } | null>(null);
   const [feedbackMsg, setFeedbackMsg] = useState<string | null>(null);
+  const [demolishing, setDemolishing] = useState(false); // Demolish mode: cursor picks a placed object to remove
+  const [dead, setDead] = useState(false); // Health ran out; waiting for the player to respawn
   
   // Cache
-  const terrainCache = useRef<Record<string, HTMLCanvasElement>>({});
+  const terrainCache = useRef<Record<string, HTMLCanvasElement>>({}); // `${terrain}:${variant}`, `${terrain}:e${mask}`, `${terrain}:c${mask}`
   const objectCache = useRef<Record<string, HTMLCanvasElement>>({});
   const playerCache = useRef<Record<string, HTMLCanvasElement>>({});
+  const villagerCache = useRef<Record<string, HTMLCanvasElement>>({});
+  const animalCache = useRef<Map<string, HTMLCanvasElement>>(new Map()); // By item key
   const customSpriteCache = useRef<Map<string, HTMLCanvasElement>>(new Map());
+  const streamerRef = useRef<ChunkStreamer | null>(null);
   
   // Inputs & Refs
   const keysPressed = useRef<Record<string, boolean>>({});
-  const posRef = useRef({ x: 0, y: 0 }); 
-  const totalDistanceRef = useRef(0);
-  const explorationBoundsRef = useRef<ExplorationBounds>({ minX: 0, maxX: 0, minY: 0, maxY: 0 });
-
-  const cursorRef = useRef({ x: 0, y: 0 }); 
-  const currentTileRef = useRef<TileType>(TileType.WATER); // Track current tile for resource logic
+  // Player, wildlife and villagers; this component only feeds it input and draws it
+  const simRef = useRef(new Simulation());
+  const currentTileRef = useRef<WorldTile | null>(null); // Track current tile for resource logic
   
-  const directionRef = useRef<Direction>(Direction.DOWN);
-  const isMovingRef = useRef<boolean>(false);
   const loadedRef = useRef(false);
+  // Clock, seeded randomness and the per-world logs; replaced with the world
+  const sessionRef = useRef(new GameSession(seed, []));
+  const portalUsedRef = useRef(false); // Went through a portal; not yet counted for quests
 
   // --- Load Game State ---
   useEffect(() => {
-    // If initialPos is provided (via Teleport), it overrides save state
+    const savedState = StorageService.loadGameState();
+    const saved = savedState && savedState.seed === seed ? savedState : null;
+
+    // If initialPos is provided (via Teleport), it overrides the saved position
     if (initialPos) {
-        posRef.current = { x: initialPos.x, y: initialPos.y };
-        setWorld(new WorldGenerator(seed));
-        // Reset distance or keep? Usually new world means new exploration, but maybe keep total stats.
-        // For now, let's keep totalDistance if same seed, reset if diff? 
-        // Actually, let's just use what's passed or reset if new world.
-        
-        // We still check save state for inventory, but override pos
-        const savedState = StorageService.loadGameState();
-        if (savedState && savedState.seed === seed) {
-             world.deserializePlacedObjects(savedState.mapObjects);
-             setInventory(savedState.inventory);
-        } else {
-             setInventory(new Array(INVENTORY_SIZE).fill(null));
+        simRef.current.teleport(initialPos.x, initialPos.y);
+        simRef.current.clearCreatures();
+        simRef.current.bounds = { minX: initialPos.x, maxX: initialPos.x, minY: initialPos.y, maxY: initialPos.y };
+    } else {
+        simRef.current = new Simulation();
+        if (saved) {
+            simRef.current.teleport(saved.player.x, saved.player.y);
+            simRef.current.facing.direction = saved.player.direction;
+            simRef.current.distance = saved.stats.totalDistance;
+            simRef.current.bounds = saved.stats.bounds ?? { minX: saved.player.x, maxX: saved.player.x, minY: saved.player.y, maxY: saved.player.y };
         }
-        explorationBoundsRef.current = { minX: initialPos.x, maxX: initialPos.x, minY: initialPos.y, maxY: initialPos.y };
-        loadedRef.current = true;
-        return;
     }
 
-    const savedState = StorageService.loadGameState();
-    
-    if (savedState && savedState.seed === seed) {
-        posRef.current = { x: savedState.player.x, y: savedState.player.y };
-        directionRef.current = savedState.player.direction;
-        totalDistanceRef.current = savedState.stats.totalDistance;
-        
-        // Load exploration bounds or default to current pos if missing
-        if (savedState.stats.bounds) {
-            explorationBoundsRef.current = savedState.stats.bounds;
-        } else {
-            explorationBoundsRef.current = { 
-                minX: posRef.current.x, maxX: posRef.current.x, 
-                minY: posRef.current.y, maxY: posRef.current.y 
-            };
-        }
-
-        world.deserializePlacedObjects(savedState.mapObjects);
-        if (savedState.inventory) {
-            // Ensure inventory size matches constant
-            const loadedInv = savedState.inventory;
-            if (loadedInv.length < INVENTORY_SIZE) {
-                const diff = INVENTORY_SIZE - loadedInv.length;
-                setInventory([...loadedInv, ...new Array(diff).fill(null)]);
-            } else {
-                setInventory(loadedInv);
-            }
-        }
+    if (saved) {
+        world.deserializePlacedObjects(saved.mapObjects);
+        world.deserializeModifications(saved.worldDelta ?? []);
         console.log("Game state loaded.");
-    } else {
-        posRef.current = { x: 0, y: 0 };
-        totalDistanceRef.current = 0;
-        explorationBoundsRef.current = { minX: 0, maxX: 0, minY: 0, maxY: 0 };
-        setInventory(new Array(INVENTORY_SIZE).fill(null));
     }
+    sessionRef.current = new GameSession(seed, worldQuests(world, customQuests), saved);
+    simRef.current.vitals = saved?.player.vitals ?? createVitals();
+    // Older saves may have fewer slots
+    const loadedInv = saved?.inventory ? migrateInventory(saved.inventory) : createStarterInventory(INVENTORY_SIZE);
+    setInventory([...loadedInv, ...new Array(Math.max(0, INVENTORY_SIZE - loadedInv.length)).fill(null)]);
+
+    // The trip counts in the destination world's quest log
+    if (portalUsedRef.current) {
+        sessionRef.current.quests.recordPortal();
+        portalUsedRef.current = false;
+    }
+    setDead(isDead(simRef.current.vitals));
     loadedRef.current = true;
   }, [seed, initialPos, world]);
 
+  const saveGame = (version: number = world.version, savedInventory = inventory) => {
+      StorageService.saveGameState({
+          player: {
+              x: simRef.current.position.x,
+              y: simRef.current.position.y,
+              direction: simRef.current.facing.direction,
+              vitals: simRef.current.vitals
+          },
+          stats: { 
+              totalDistance: simRef.current.distance,
+              bounds: simRef.current.bounds
+          },
+          seed: seed,
+          generatorVersion: version,
+          biomes: world.biomes.custom(),
+          mapObjects: world.serializePlacedObjects(),
+          inventory: savedInventory,
+          worldDelta: world.serializeModifications(),
+          ...sessionRef.current.serialize(),
+          lastSavedAt: Date.now()
+      });
+  };
+
   // --- Auto-Save ---
   useEffect(() => {
     const saveInterval = setInterval(() => {
         if (!loadedRef.current) return;
-        StorageService.saveGameState({
-            player: {
-                x: posRef.current.x,
-                y: posRef.current.y,
-                direction: directionRef.current
-            },
-            stats: { 
-                totalDistance: totalDistanceRef.current,
-                bounds: explorationBoundsRef.current
-            },
-            seed: seed,
-            mapObjects: world.serializePlacedObjects(),
-            inventory: inventory, // Save inventory
-            lastSavedAt: Date.now()
-        });
+        saveGame();
     }, 2000);
     return () => clearInterval(saveInterval);
   }, [seed, world, inventory]);
@@ -164,31 +249,42 @@ const WorldRenderer: React.FC<WorldRendererProps> = ({ seed, initialPos, placing
   // --- Stats & Resource Updater ---
   useEffect(() => {
     const uiInterval = setInterval(() => {
-        const x = Math.round(posRef.current.x);
-        const y = Math.round(posRef.current.y);
+        const session = sessionRef.current;
+        const x = Math.round(simRef.current.position.x);
+        const y = Math.round(simRef.current.position.y);
+
+        // Harvested trees grow back on the game clock
+        world.regrow(session.gameTime);
         
         // Get tile data specifically for UI
         const tile = world.getTile(x, y);
-        currentTileRef.current = tile.terrain;
+        currentTileRef.current = tile;
 
         // Calculate Area
-        const width = explorationBoundsRef.current.maxX - explorationBoundsRef.current.minX;
-        const height = explorationBoundsRef.current.maxY - explorationBoundsRef.current.minY;
+        const width = simRef.current.bounds.maxX - simRef.current.bounds.minX;
+        const height = simRef.current.bounds.maxY - simRef.current.bounds.minY;
         const area = Math.round(width * height);
         
         // Calculate Spawn Radius
-        const spawnRadius = Math.round(Math.hypot(posRef.current.x, posRef.current.y));
+        const spawnRadius = Math.round(Math.hypot(simRef.current.position.x, simRef.current.position.y));
+
+        const now = session.gameTime;
 
         setUiStats({
             x, y,
-            dist: Math.round(totalDistanceRef.current),
+            dist: Math.round(simRef.current.distance),
             spawnRadius,
             biome: tile.biome,
-            exploredArea: area
+            exploredArea: area,
+            day: dayNumber(now),
+            clock: formatClock(now),
+            night: isNight(now),
+            weather: simRef.current.weather,
+            vitals: simRef.current.vitals
         });
 
         // Determine Resources
-        const resData = TERRAIN_RESOURCES[tile.terrain];
+        const resData = world.biomes.getResources(tile.biome, tile.terrain);
         if (resData) {
             const allRes = [
                 ...resData.animais,
@@ -196,110 +292,134 @@ const WorldRenderer: React.FC<WorldRendererProps> = ({ seed, initialPos, placing
                 ...resData.vegetacao,
                 ...resData.pedras_raras
             ];
-            setNearbyResources(allRes.slice(0, 5)); // Show top 5
+            setNearbyResources(allRes.slice(0, 5).map(resolveItemKey)); // Show top 5
+            setResourceNode({
+                remaining: session.nodes.remaining(x, y, tile.terrain, now),
+                capacity: session.nodes.capacity(x, y, tile.terrain),
+            });
         } else {
             setNearbyResources([]);
+            setResourceNode(null);
         }
 
     }, 500);
     return () => clearInterval(uiInterval);
   }, [world]);
-  
-  // --- Inventory Actions ---
-  const handleDropItem = (index: number) => {
-      setInventory(prev => {
-          const newInv = [...prev];
-          const item = newInv[index];
-          if (item) {
-              newInv[index] = null;
-              showFeedback(`Dropped ${item.id}`);
-          }
-          return newInv;
-      });
+
+  // --- Quests ---
+  const biomeLabel = (id: BiomeId) => biomeName(id, world.biomes.get(id)?.name ?? id);
+
+  // Checked whenever the HUD refreshes or the inventory changes
+  useEffect(() => {
+    if (!loadedRef.current || !uiStats.biome) return;
+    const ready = sessionRef.current.quests.update({
+        x: uiStats.x,
+        y: uiStats.y,
+        biome: uiStats.biome as BiomeId,
+        distance: simRef.current.distance,
+        inventory,
+    });
+    ready.forEach(quest => showFeedback(t('feedback.questReady', { quest: questTitle(quest.definition, biomeLabel) })));
+  }, [uiStats, inventory]);
+
+  useEffect(() => {
+    if (loadedRef.current) sessionRef.current.setQuests(worldQuests(world, customQuests));
+  }, [customQuests]);
+
+  const handleClaimQuest = (id: string) => {
+      const quest = sessionRef.current.quests.all().find(q => q.definition.id === id);
+      const claimed = sessionRef.current.quests.claim(id, inventory);
+      if (!quest || !claimed) {
+          showFeedback(t('feedback.cantClaim'));
+          return;
+      }
+      setInventory(claimed);
+      saveGame(world.version, claimed);
+      showFeedback(t('feedback.questClaimed', { quest: questTitle(quest.definition, biomeLabel) }));
   };
 
+  // --- Inventory Actions ---
   const handleMoveItem = (fromIndex: number, toIndex: number) => {
-      setInventory(prev => {
-          const newInv = [...prev];
-          const source = newInv[fromIndex];
-          const target = newInv[toIndex];
-
-          if (!source) return prev;
-          if (fromIndex === toIndex) return prev;
-
-          // Target empty? Move.
-          if (!target) {
-              newInv[toIndex] = source;
-              newInv[fromIndex] = null;
-              return newInv;
-          }
+      setInventory(prev => moveItem(prev, fromIndex, toIndex));
+  };
 
-          // Same Item? Stack.
-          if (source.id === target.id) {
-              const total = source.count + target.count;
-              if (total <= MAX_STACK) {
-                  newInv[toIndex] = { ...target, count: total };
-                  newInv[fromIndex] = null;
-              } else {
-                  newInv[toIndex] = { ...target, count: MAX_STACK };
-                  newInv[fromIndex] = { ...source, count: total - MAX_STACK };
-              }
-              return newInv;
-          }
+  // --- Player Actions ---
+  // Gathering, building, taming and fighting happen in services/actions; this only applies the results
+  const actionContext = (): ActionContext => ({
+      world,
+      sim: simRef.current,
+      inventory,
+      selectedSlot,
+      vitals: simRef.current.vitals,
+      now: sessionRef.current.gameTime,
+      tile: currentTileRef.current,
+      weather: simRef.current.weather,
+      nodes: sessionRef.current.nodes,
+      random: sessionRef.current.random,
+      dialogues: sessionRef.current.dialogues,
+  });
 
-          // Different Item? Swap.
-          newInv[toIndex] = source;
-          newInv[fromIndex] = target;
+  const applyAction = (result: ActionResult) => {
+      if (result.inventory) setInventory(result.inventory);
+      if (result.vitals) simRef.current.vitals = result.vitals;
+      if (result.feedback) showFeedback(result.feedback);
+  };
 
-          return newInv;
-      });
+  const handleGather = () => applyAction(gather(actionContext()));
+
+  const handlePlaceHeld = () => applyAction(placeHeld(actionContext()));
+
+  const handlePlaceSprite = (sprite: CustomSprite) => {
+      const result = placeSprite(actionContext(), sprite, creative);
+      applyAction(result);
+      if (!result.inventory) return;
+      saveGame(world.version, result.inventory);
+      onPlaceComplete();
   };
 
-  // --- Gathering Logic ---
-  const handleGather = () => {
-      const terrain = currentTileRef.current;
-      const resData = TERRAIN_RESOURCES[terrain];
-      
-      if (!resData) {
-          showFeedback("Nothing to gather here.");
-          return;
-      }
+  const handleDemolish = () => {
+      const result = demolish(actionContext());
+      applyAction(result);
+      if (result.inventory) saveGame(world.version, result.inventory);
+  };
 
-      const possibleItems = [
-          ...resData.minerais,
-          ...resData.vegetacao,
-          ...(Math.random() > 0.8 ? resData.animais : []), 
-          ...(Math.random() > 0.95 ? resData.pedras_raras : []) 
-      ];
+  const handleInteract = () => {
+      const result = interact(actionContext());
+      if (result.dialogue) setDialogue({ ...result.dialogue, page: 0 });
+      applyAction(result);
+  };
 
-      if (possibleItems.length === 0) {
-          showFeedback("Empty terrain.");
-          return;
-      }
+  const handleAttack = () => applyAction(attack(actionContext(), peaceful));
 
-      const foundItemName = possibleItems[Math.floor(Math.random() * possibleItems.length)];
-      
-      setInventory(prev => {
-          const newInv = [...prev];
-          const existingIdx = newInv.findIndex(slot => slot && slot.id === foundItemName && slot.count < MAX_STACK);
-          
-          if (existingIdx >= 0) {
-              const item = newInv[existingIdx]!;
-              newInv[existingIdx] = { ...item, count: item.count + 1 };
-              showFeedback(`+1 ${foundItemName}`);
-              return newInv;
-          }
+  const handleCraft = (recipe: Recipe) => applyAction(craftRecipe(actionContext(), recipe));
 
-          const emptyIdx = newInv.findIndex(slot => slot === null);
-          if (emptyIdx >= 0) {
-              newInv[emptyIdx] = { id: foundItemName, count: 1 };
-              showFeedback(`+1 ${foundItemName}`);
-              return newInv;
-          }
+  const handleEat = (index: number) => applyAction(eat(actionContext(), index));
 
-          showFeedback("Inventory Full!");
-          return prev;
-      });
+  const handleDropItem = (index: number) => applyAction(drop(actionContext(), index));
+
+  // --- Dialogue ---
+  // Turns the page, following the picked choice if the page has any
+  const advanceDialogue = (choice?: number) => {
+      if (!dialogue) return;
+      const { x, y, sprite, page } = dialogue;
+      if (choice !== undefined) sessionRef.current.dialogues.choose(x, y, page, choice);
+      const next = nextPage(sprite.dialogue, page, choice);
+      if (next === null) {
+          sessionRef.current.dialogues.markRead(x, y);
+          setDialogue(null);
+          return;
+      }
+      setDialogue({ ...dialogue, page: next });
+  };
+
+  // --- Survival ---
+  // Back at the world's spawn point; the inventory is kept
+  const handleRespawn = () => {
+      simRef.current.teleport(0, 0);
+      simRef.current.vitals = { ...RESPAWN_VITALS };
+      simRef.current.clearCreatures();
+      setDead(false);
+      saveGame();
   };
 
   const showFeedback = (msg: string) => {
@@ -310,7 +430,7 @@ const WorldRenderer: React.FC<WorldRendererProps> = ({ seed, initialPos, placing
   // --- Placement & Asset Pre-loading logic ---
   useEffect(() => {
     if (placingSprite) {
-        cursorRef.current = { x: Math.round(posRef.current.x), y: Math.round(posRef.current.y) };
+        simRef.current.cursor = { x: Math.round(simRef.current.position.x), y: Math.round(simRef.current.position.y) };
         if (!customSpriteCache.current.has(placingSprite.id)) {
             customSpriteCache.current.set(placingSprite.id, preRenderTile(placingSprite));
         }
@@ -318,52 +438,104 @@ const WorldRenderer: React.FC<WorldRendererProps> = ({ seed, initialPos, placing
   }, [placingSprite]);
 
   useEffect(() => {
-    setWorld(new WorldGenerator(seed));
+    if (placingSprite) setDemolishing(false);
+  }, [placingSprite]);
+
+  useEffect(() => {
+    if (demolishing) simRef.current.cursor = { x: Math.round(simRef.current.position.x), y: Math.round(simRef.current.position.y) };
+  }, [demolishing]);
+
+  useEffect(() => {
     customSpriteCache.current.clear();
-  }, [seed]);
+    simRef.current.clearCreatures();
+  }, [world]);
+
+  // Explicit opt-in: placed objects keep their coordinates, but the terrain under them may change
+  const handleUpgradeGenerator = () => {
+      saveGame(LATEST_GENERATOR_VERSION);
+      setWorld(buildWorld());
+      showFeedback(t('feedback.worldUpgraded', { version: LATEST_GENERATOR_VERSION }));
+  };
+
+  // Structure templates can refer to sprites from the library
+  useEffect(() => {
+    world.setSpriteLibrary(StorageService.getSprites());
+  }, [world]);
+
+  // --- Background chunk generation ---
+  useEffect(() => {
+    const streamer = new ChunkStreamer(world);
+    streamerRef.current = streamer;
+    return () => {
+      streamer.dispose();
+      if (streamerRef.current === streamer) streamerRef.current = null;
+    };
+  }, [world]);
 
   useEffect(() => {
-    Object.entries(TERRAIN_ART).forEach(([key, art]) => { terrainCache.current[key] = preRenderTile(art); });
+    Object.entries(TERRAIN_TILESETS).forEach(([key, tileset]) => {
+        tileset.variants.forEach((art, i) => { terrainCache.current[`${key}:${i}`] = preRenderTile(art); });
+        tileset.edges?.forEach((art, mask) => { terrainCache.current[`${key}:e${mask}`] = preRenderTile(art); });
+        tileset.corners?.forEach((art, mask) => { terrainCache.current[`${key}:c${mask}`] = preRenderTile(art); });
+    });
     Object.entries(OBJECT_ART).forEach(([key, art]) => { objectCache.current[key] = preRenderTile(art); });
     Object.entries(PLAYER_SPRITES).forEach(([key, art]) => { playerCache.current[key] = preRenderTile(art as PixelArtMatrix); });
+    Object.entries(VILLAGER_SPRITES).forEach(([key, art]) => { villagerCache.current[key] = preRenderTile(art); });
   }, []);
 
   // --- Input Handling ---
   useEffect(() => {
+    // Letters are stored lowercase so holding Shift (run) doesn't turn 'w' into 'W'
+    const keyName = (e: KeyboardEvent) => (e.key.length === 1 ? e.key.toLowerCase() : e.key);
     const handleKeyDown = (e: KeyboardEvent) => { 
-        keysPressed.current[e.key] = true; 
+        keysPressed.current[keyName(e)] = true; 
         
+        // The dialogue box reads its own keys
+        if (dead || dialogue) return;
         if (placingSprite) {
-            if (e.key === 'Enter') {
-                world.placeObject(cursorRef.current.x, cursorRef.current.y, placingSprite);
-                StorageService.saveGameState({
-                    player: { x: posRef.current.x, y: posRef.current.y, direction: directionRef.current },
-                    stats: { totalDistance: totalDistanceRef.current, bounds: explorationBoundsRef.current },
-                    seed: seed,
-                    mapObjects: world.serializePlacedObjects(),
-                    inventory: inventory,
-                    lastSavedAt: Date.now()
-                });
-                onPlaceComplete();
-            }
+            if (e.key === 'Enter') handlePlaceSprite(placingSprite);
             if (e.key === 'Escape') onPlaceComplete(); 
+        } else if (demolishing) {
+            if (e.key === 'Enter') handleDemolish();
+            if (e.key === 'Escape' || e.key.toLowerCase() === 'x') setDemolishing(false);
         } else {
              if (e.key.toLowerCase() === 'e') {
                  handleGather();
              }
+             if (e.key.toLowerCase() === 'f') {
+                 handlePlaceHeld();
+             }
+             if (e.key.toLowerCase() === 'x') {
+                 setDemolishing(true);
+             }
+             if (e.key.toLowerCase() === 'q') {
+                 handleEat(selectedSlot);
+             }
+             if (e.key.toLowerCase() === 'r') {
+                 handleInteract();
+             }
+             if (e.key === ' ') {
+                 handleAttack();
+             }
+             if (e.key >= '1' && e.key <= String(HOTBAR_SIZE)) {
+                 setSelectedSlot(Number(e.key) - 1);
+             }
              if (e.key.toLowerCase() === 'i') {
                  setShowInventory(prev => !prev);
              }
+             if (e.key.toLowerCase() === 'l') {
+                 setShowQuests(prev => !prev);
+             }
         }
     };
-    const handleKeyUp = (e: KeyboardEvent) => { keysPressed.current[e.key] = false; };
+    const handleKeyUp = (e: KeyboardEvent) => { keysPressed.current[keyName(e)] = false; };
     window.addEventListener('keydown', handleKeyDown);
     window.addEventListener('keyup', handleKeyUp);
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [placingSprite, world, onPlaceComplete, seed, inventory]); 
+  }, [placingSprite, demolishing, dead, dialogue, creative, peaceful, world, onPlaceComplete, seed, inventory, selectedSlot]); 
 
   // --- Game Loop ---
   useEffect(() => {
@@ -372,116 +544,60 @@ const WorldRenderer: React.FC<WorldRendererProps> = ({ seed, initialPos, placing
     const ctx = canvas?.getContext('2d');
     if (ctx) ctx.imageSmoothingEnabled = false;
 
-    let lastMoveTime = 0;
-    const moveDelay = 100;
+    let lastFrameTime: number | null = null;
 
     const loop = (timestamp: number) => {
       if (!canvas || !ctx) return;
 
-      if (placingSprite) {
-          // Cursor Movement
-          if (timestamp - lastMoveTime > moveDelay) {
-              if (keysPressed.current['ArrowUp'] || keysPressed.current['w']) { cursorRef.current.y -= 1; lastMoveTime = timestamp; }
-              if (keysPressed.current['ArrowDown'] || keysPressed.current['s']) { cursorRef.current.y += 1; lastMoveTime = timestamp; }
-              if (keysPressed.current['ArrowLeft'] || keysPressed.current['a']) { cursorRef.current.x -= 1; lastMoveTime = timestamp; }
-              if (keysPressed.current['ArrowRight'] || keysPressed.current['d']) { cursorRef.current.x += 1; lastMoveTime = timestamp; }
-          }
-          isMovingRef.current = false; 
-      } else {
-          // Player Movement
-          if (!showInventory) {
-              const speed = 0.15; 
-              let dx = 0;
-              let dy = 0;
-              if (keysPressed.current['ArrowUp'] || keysPressed.current['w']) dy -= speed;
-              if (keysPressed.current['ArrowDown'] || keysPressed.current['s']) dy += speed;
-              if (keysPressed.current['ArrowLeft'] || keysPressed.current['a']) dx -= speed;
-              if (keysPressed.current['ArrowRight'] || keysPressed.current['d']) dx += speed;
-
-              // --- Collision & Portal Logic ---
-              if (dx !== 0 || dy !== 0) {
-                  // Predict next position
-                  const nextX = posRef.current.x + dx;
-                  const nextY = posRef.current.y + dy;
-                  
-                  // Check the tile we are moving INTO (Center point of player)
-                  const targetTileX = Math.round(nextX);
-                  const targetTileY = Math.round(nextY);
-                  
-                  const targetTile = world.getTile(targetTileX, targetTileY);
-                  let hasCollision = false;
-
-                  // 1. Check Standard Object Collision
-                  if (targetTile.object && targetTile.object !== ObjectType.NONE) {
-                       const objDef = OBJECT_ART[targetTile.object];
-                       if (objDef && objDef.collision) {
-                           hasCollision = true;
-                       }
-                  }
-
-                  // 2. Check Custom Sprite Collision & Portal
-                  if (targetTile.customSprite) {
-                      if (targetTile.customSprite.collision) {
-                          hasCollision = true;
-                      }
-                      
-                      // Check for Portal Trigger
-                      if (targetTile.customSprite.portal) {
-                          // Simple "bump" trigger or "walk on" trigger
-                          // If collision is true, we bump it. If false, we walk on it.
-                          // Let's trigger teleport.
-                          const p = targetTile.customSprite.portal;
-                          // Debounce or just trigger?
-                          // We should probably stop movement and trigger
-                          onTeleport(p.targetSeed, p.targetX, p.targetY);
-                          return; // Stop loop for this frame to prevent jitter
-                      }
-                  }
-
-                  if (!hasCollision) {
-                      posRef.current.x = nextX;
-                      posRef.current.y = nextY;
-                  } else {
-                      // Simple collision response: slide? Or Stop.
-                      // Stop for now.
-                      // Try sliding? (Move X only, then Y only)
-                      // Keep it simple: Stop.
-                  }
-              }
-
-              // Update Exploration Bounds
-              const cx = posRef.current.x;
-              const cy = posRef.current.y;
-              if (cx < explorationBoundsRef.current.minX) explorationBoundsRef.current.minX = cx;
-              if (cx > explorationBoundsRef.current.maxX) explorationBoundsRef.current.maxX = cx;
-              if (cy < explorationBoundsRef.current.minY) explorationBoundsRef.current.minY = cy;
-              if (cy > explorationBoundsRef.current.maxY) explorationBoundsRef.current.maxY = cy;
-
-              if (Math.hypot(dx, dy) > 0 && !isMovingRef.current) {
-                  // Just started moving
-              }
-              if ((dx !== 0 || dy !== 0)) {
-                  totalDistanceRef.current += Math.hypot(dx, dy);
-              }
-              isMovingRef.current = dx !== 0 || dy !== 0;
+      // Game clock (capped so a stalled frame doesn't skip ahead)
+      const frameMs = lastFrameTime !== null ? Math.min(timestamp - lastFrameTime, 250) : 0;
+      const session = sessionRef.current;
+      session.gameTime += frameMs;
+      lastFrameTime = timestamp;
+
+      // Input drives the cursor while placing or demolishing, otherwise the player
+      const sim = simRef.current;
+      const keys = keysPressed.current;
+      sim.input = {
+          up: !!(keys['ArrowUp'] || keys['w']),
+          down: !!(keys['ArrowDown'] || keys['s']),
+          left: !!(keys['ArrowLeft'] || keys['a']),
+          right: !!(keys['ArrowRight'] || keys['d']),
+          run: !!keys['Shift'],
+      };
+      const control: ControlMode = placingSprite || demolishing ? 'cursor' : (showInventory || showQuests || dialogue || dead ? 'none' : 'player');
+      sim.step(frameMs, {
+          getTile: (x, y) => world.getTile(x, y),
+          peekTile: (x, y) => world.peekTile(x, y),
+          animalsAt: tile => (world.biomes.getResources(tile.biome, tile.terrain)?.animais ?? []).map(resolveItemKey),
+          now: session.gameTime,
+          random: session.random.get('wildlife'),
+          control,
+          night: isNight(session.gameTime),
+          peaceful,
+          daytimeHostiles: biome => world.biomes.getDaytimeHostiles(biome),
+          weather: session.weather,
+          weatherOdds: biome => world.biomes.getWeatherOdds(biome),
+          weatherRandom: session.random.get('weather'),
+      });
 
-              if (dy < 0) directionRef.current = Direction.UP;
-              else if (dy > 0) directionRef.current = Direction.DOWN;
-              else if (dx < 0) directionRef.current = Direction.LEFT;
-              else if (dx > 0) directionRef.current = Direction.RIGHT;
-          } else {
-              isMovingRef.current = false;
-          }
+      if (sim.portal) {
+          portalUsedRef.current = true;
+          session.saveQuestProgress();
+          onTeleport(sim.portal.targetSeed, sim.portal.targetX, sim.portal.targetY);
+          return; // Stop loop for this frame to prevent jitter
       }
 
+      if (!dead && isDead(sim.vitals)) setDead(true);
+
       // Render
       ctx.fillStyle = '#111';
       ctx.fillRect(0, 0, canvas.width, canvas.height);
 
       const visibleTilesX = canvas.width / FINAL_TILE_SIZE;
       const visibleTilesY = canvas.height / FINAL_TILE_SIZE;
-      const viewportLeftX = posRef.current.x - (visibleTilesX / 2);
-      const viewportTopY = posRef.current.y - (visibleTilesY / 2);
+      const viewportLeftX = simRef.current.position.x - (visibleTilesX / 2);
+      const viewportTopY = simRef.current.position.y - (visibleTilesY / 2);
       const startTileX = Math.floor(viewportLeftX);
       const startTileY = Math.floor(viewportTopY);
       const offsetX = (viewportLeftX - startTileX) * FINAL_TILE_SIZE;
@@ -489,19 +605,50 @@ const WorldRenderer: React.FC<WorldRendererProps> = ({ seed, initialPos, placing
       const cols = Math.ceil(visibleTilesX) + 2;
       const rows = Math.ceil(visibleTilesY) + 2;
 
+      // Stretched towards where the player is heading
+      const heading = sim.entities.get(sim.player, 'velocity');
+      streamerRef.current?.prefetch(sim.position.x, sim.position.y, cols + 2, rows + 2, heading.dx, heading.dy);
+
+      // Terrain of every drawn tile plus a one-tile ring, for autotile neighbor lookups
+      const gridW = cols + 3;
+      const gridH = rows + 3;
+      const terrainGrid: (TileType | null)[] = new Array(gridW * gridH);
+      for (let gy = 0; gy < gridH; gy++) {
+        for (let gx = 0; gx < gridW; gx++) {
+          terrainGrid[gy * gridW + gx] = world.peekTerrain(startTileX + gx - 2, startTileY + gy - 2);
+        }
+      }
+
       for (let y = -1; y < rows; y++) {
         for (let x = -1; x < cols; x++) {
           const worldX = startTileX + x;
           const worldY = startTileY + y;
-          const tile = world.getTile(worldX, worldY);
+          const tile = world.peekTile(worldX, worldY);
           
           const screenX = Math.floor((x * FINAL_TILE_SIZE) - offsetX);
           const screenY = Math.floor((y * FINAL_TILE_SIZE) - offsetY);
 
-          // Terrain
-          const terrainImg = terrainCache.current[tile.terrain];
+          // Chunk still being generated by the worker
+          if (!tile) {
+            ctx.fillStyle = (worldX + worldY) % 2 === 0 ? '#1e293b' : '#172033';
+            ctx.fillRect(screenX, screenY, FINAL_TILE_SIZE, FINAL_TILE_SIZE);
+            continue;
+          }
+
+          // Terrain: a variant of the base tile, then autotile borders over it
+          const tileset = TERRAIN_TILESETS[tile.terrain];
+          const terrainImg = terrainCache.current[`${tile.terrain}:${tile.variant % tileset.variants.length}`];
           if (terrainImg) ctx.drawImage(terrainImg, screenX, screenY, FINAL_TILE_SIZE, FINAL_TILE_SIZE);
 
+          if (tileset.edges || tileset.corners) {
+            const { edges, corners } = autotileMasks(tile.terrain, tileset,
+              (dx, dy) => terrainGrid[(y + 2 + dy) * gridW + (x + 2 + dx)]);
+            const edgeImg = edges ? terrainCache.current[`${tile.terrain}:e${edges}`] : undefined;
+            const cornerImg = corners ? terrainCache.current[`${tile.terrain}:c${corners}`] : undefined;
+            if (edgeImg) ctx.drawImage(edgeImg, screenX, screenY, FINAL_TILE_SIZE, FINAL_TILE_SIZE);
+            if (cornerImg) ctx.drawImage(cornerImg, screenX, screenY, FINAL_TILE_SIZE, FINAL_TILE_SIZE);
+          }
+
           // Objects
           if (tile.customSprite) {
              let cImg = customSpriteCache.current.get(tile.customSprite.id);
@@ -522,6 +669,14 @@ const WorldRenderer: React.FC<WorldRendererProps> = ({ seed, initialPos, placing
                 ctx.drawImage(cImg, screenX + (FINAL_TILE_SIZE/2) - (cWidth/2), screenY + FINAL_TILE_SIZE - cHeight, cWidth, cHeight);
                 
                 ctx.shadowBlur = 0; // Reset
+
+                // Something to read that hasn't been read yet
+                if (tile.customSprite.dialogue?.length && !session.dialogues.get(tile.x, tile.y)?.read) {
+                    ctx.fillStyle = '#f7e26b';
+                    ctx.font = 'bold 16px monospace';
+                    ctx.textAlign = 'center';
+                    ctx.fillText('!', screenX + FINAL_TILE_SIZE / 2, screenY + FINAL_TILE_SIZE - cHeight - 4);
+                }
              }
           } 
           else if (tile.object && tile.object !== ObjectType.NONE) {
@@ -537,8 +692,8 @@ const WorldRenderer: React.FC<WorldRendererProps> = ({ seed, initialPos, placing
 
       // Cursor
       if (placingSprite) {
-         const cursorScreenX = ((cursorRef.current.x - startTileX) * FINAL_TILE_SIZE) - offsetX;
-         const cursorScreenY = ((cursorRef.current.y - startTileY) * FINAL_TILE_SIZE) - offsetY;
+         const cursorScreenX = ((simRef.current.cursor.x - startTileX) * FINAL_TILE_SIZE) - offsetX;
+         const cursorScreenY = ((simRef.current.cursor.y - startTileY) * FINAL_TILE_SIZE) - offsetY;
          if (cursorScreenX > -FINAL_TILE_SIZE && cursorScreenX < canvas.width && cursorScreenY > -FINAL_TILE_SIZE && cursorScreenY < canvas.height) {
             ctx.strokeStyle = '#ffff00';
             ctx.lineWidth = 2;
@@ -553,32 +708,87 @@ const WorldRenderer: React.FC<WorldRendererProps> = ({ seed, initialPos, placing
                 ctx.restore();
             }
          }
+      } else if (demolishing) {
+         const cursorScreenX = ((simRef.current.cursor.x - startTileX) * FINAL_TILE_SIZE) - offsetX;
+         const cursorScreenY = ((simRef.current.cursor.y - startTileY) * FINAL_TILE_SIZE) - offsetY;
+         if (cursorScreenX > -FINAL_TILE_SIZE && cursorScreenX < canvas.width && cursorScreenY > -FINAL_TILE_SIZE && cursorScreenY < canvas.height) {
+            // Tint the tile when there is something removable under the cursor
+            if (world.getPlacedObject(simRef.current.cursor.x, simRef.current.cursor.y)) {
+                ctx.fillStyle = 'rgba(239, 68, 68, 0.35)';
+                ctx.fillRect(cursorScreenX, cursorScreenY, FINAL_TILE_SIZE, FINAL_TILE_SIZE);
+            }
+            ctx.strokeStyle = '#ef4444';
+            ctx.lineWidth = 2;
+            ctx.strokeRect(cursorScreenX, cursorScreenY, FINAL_TILE_SIZE, FINAL_TILE_SIZE);
+         }
       }
 
-      // Player
-      const playerScreenX = (canvas.width / 2) - (FINAL_TILE_SIZE / 2);
-      const playerScreenY = (canvas.height / 2) - (FINAL_TILE_SIZE / 2);
-      const frameSpeed = 150; 
-      const frameIndex = isMovingRef.current ? Math.floor(Date.now() / frameSpeed) % 2 : 0;
-      let spriteKey = '';
-      let flip = false;
-      switch(directionRef.current) {
-        case Direction.UP: spriteKey = `UP_${frameIndex}`; break;
-        case Direction.DOWN: spriteKey = `DOWN_${frameIndex}`; break;
-        case Direction.RIGHT: spriteKey = `SIDE_${frameIndex}`; break;
-        case Direction.LEFT: spriteKey = `SIDE_${frameIndex}`; flip = true; break;
+      // Player, animals and villagers, centered on their position
+      sim.renderables.forEach(entity => {
+          const entityScreenX = (entity.x - viewportLeftX) * FINAL_TILE_SIZE - FINAL_TILE_SIZE / 2;
+          const entityScreenY = (entity.y - viewportTopY) * FINAL_TILE_SIZE - FINAL_TILE_SIZE / 2;
+          if (entityScreenX < -FINAL_TILE_SIZE || entityScreenX > canvas.width || entityScreenY < -FINAL_TILE_SIZE || entityScreenY > canvas.height) return;
+
+          let img: HTMLCanvasElement | undefined;
+          if (entity.sprite.kind === SpriteKind.ICON) {
+              img = animalCache.current.get(entity.sprite.key);
+              if (!img) {
+                  img = preRenderTile(getItem(entity.sprite.key).icon);
+                  animalCache.current.set(entity.sprite.key, img);
+              }
+          } else {
+              const pose = entity.direction === Direction.UP ? 'UP' : entity.direction === Direction.DOWN ? 'DOWN' : 'SIDE';
+              const frames = entity.sprite.kind === SpriteKind.PLAYER ? playerCache.current : villagerCache.current;
+              img = frames[`${pose}_${entity.frame}`];
+          }
+          if (!img) return;
+
+          // Side-facing art looks right; flip it when heading left
+          if (entity.direction === Direction.LEFT) {
+              ctx.save();
+              ctx.translate(entityScreenX + FINAL_TILE_SIZE, entityScreenY);
+              ctx.scale(-1, 1);
+              ctx.drawImage(img, 0, 0, FINAL_TILE_SIZE, FINAL_TILE_SIZE);
+              ctx.restore();
+          } else {
+              ctx.drawImage(img, entityScreenX, entityScreenY, FINAL_TILE_SIZE, FINAL_TILE_SIZE);
+          }
+
+          if (entity.tamed) {
+              ctx.fillStyle = '#f472b6';
+              ctx.beginPath();
+              ctx.arc(entityScreenX + FINAL_TILE_SIZE / 2, entityScreenY - 4, 4, 0, Math.PI * 2);
+              ctx.fill();
+          }
+      });
+
+      // The player's swing, briefly
+      const swingAge = session.gameTime - sim.lastAttackAt;
+      if (swingAge < 120) {
+          const [faceX, faceY] = DIRECTION_OFFSETS[sim.facing.direction];
+          ctx.strokeStyle = `rgba(255, 255, 255, ${1 - swingAge / 120})`;
+          ctx.lineWidth = 3;
+          ctx.beginPath();
+          ctx.arc(canvas.width / 2, canvas.height / 2, FINAL_TILE_SIZE, Math.atan2(faceY, faceX) - 0.8, Math.atan2(faceY, faceX) + 0.8);
+          ctx.stroke();
       }
-      const playerImg = playerCache.current[spriteKey];
-      if (playerImg) {
-        if (flip) {
-          ctx.save();
-          ctx.translate(playerScreenX + FINAL_TILE_SIZE/2, playerScreenY + FINAL_TILE_SIZE/2);
-          ctx.scale(-1, 1);
-          ctx.drawImage(playerImg, -FINAL_TILE_SIZE/2, -FINAL_TILE_SIZE/2, FINAL_TILE_SIZE, FINAL_TILE_SIZE);
-          ctx.restore();
-        } else {
-          ctx.drawImage(playerImg, playerScreenX, playerScreenY, FINAL_TILE_SIZE, FINAL_TILE_SIZE);
-        }
+
+      // Damage numbers
+      ctx.font = 'bold 16px monospace';
+      ctx.textAlign = 'center';
+      sim.labels.forEach(label => {
+          ctx.fillStyle = label.color;
+          ctx.globalAlpha = label.alpha;
+          ctx.fillText(label.text, (label.x - viewportLeftX) * FINAL_TILE_SIZE, (label.y - viewportTopY) * FINAL_TILE_SIZE - FINAL_TILE_SIZE / 2);
+      });
+      ctx.globalAlpha = 1;
+
+      // Weather, then the light of the time of day over everything
+      drawWeather(ctx, sim.weather, canvas.width, canvas.height, session.gameTime);
+      const tint = skyTint(session.gameTime);
+      if (tint) {
+          ctx.fillStyle = tint;
+          ctx.fillRect(0, 0, canvas.width, canvas.height);
       }
 
       animationFrameId = requestAnimationFrame(loop);
@@ -586,7 +796,7 @@ const WorldRenderer: React.FC<WorldRendererProps> = ({ seed, initialPos, placing
 
     animationFrameId = requestAnimationFrame(loop);
     return () => cancelAnimationFrame(animationFrameId);
-  }, [world, placingSprite, showInventory, onTeleport]); 
+  }, [world, placingSprite, demolishing, showInventory, showQuests, dialogue, dead, peaceful, onTeleport]); 
 
   // Resize
   useEffect(() => {
@@ -609,49 +819,113 @@ const WorldRenderer: React.FC<WorldRendererProps> = ({ seed, initialPos, placing
     />
     
     {/* Feedback Toast */}
+    {world.version < LATEST_GENERATOR_VERSION && !upgradeDismissed && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-30 bg-slate-900/95 border-2 border-amber-500 rounded-lg p-3 shadow-xl max-w-sm text-center">
+            <p className="text-amber-400 font-bold text-xs uppercase mb-1">{t('upgrade.title')}</p>
+            <p className="text-slate-300 text-[10px] mb-2">
+                {t('upgrade.body', { version: GENERATOR_VERSIONS.find(p => p.version === world.version)?.label ?? `v${world.version}` })}
+            </p>
+            <div className="flex gap-2 justify-center">
+                <button onClick={handleUpgradeGenerator} className="bg-amber-700 hover:bg-amber-600 text-white text-[10px] py-1 px-3 rounded uppercase font-bold">
+                    {t('upgrade.accept', { version: LATEST_GENERATOR_VERSION })}
+                </button>
+                <button onClick={() => setUpgradeDismissed(true)} className="bg-slate-700 hover:bg-slate-600 text-white text-[10px] py-1 px-3 rounded uppercase font-bold">
+                    {t('upgrade.keep', { version: world.version })}
+                </button>
+            </div>
+        </div>
+    )}
+
     {feedbackMsg && (
         <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-20 text-yellow-400 font-bold text-sm bg-black/80 px-4 py-2 rounded animate-bounce z-50">
             {feedbackMsg}
         </div>
     )}
     
+    {dead && (
+        <div className="absolute inset-0 z-40 bg-red-950/70 flex items-center justify-center">
+            <div className="bg-slate-900/95 border-2 border-red-600 rounded-lg p-6 shadow-xl max-w-sm text-center">
+                <p className="text-red-500 font-bold text-lg uppercase mb-2">{t('death.title')}</p>
+                <p className="text-slate-300 text-[10px] mb-4">{t('death.body')}</p>
+                <button onClick={handleRespawn} className="bg-red-700 hover:bg-red-600 text-white text-xs py-2 px-4 rounded border-b-4 border-red-900 active:border-b-0 active:translate-y-1 transition-all uppercase font-bold">
+                    {t('death.respawn')}
+                </button>
+            </div>
+        </div>
+    )}
+    
     {/* HUD: Stats & Resources */}
     <div className="absolute top-4 right-4 z-10 max-w-[200px] w-full flex flex-col gap-2">
+        <div className="bg-slate-900/90 backdrop-blur-sm border-2 border-slate-600 rounded-lg p-3 shadow-xl space-y-1">
+            {([
+                ['hud.health', uiStats.vitals.health, 'bg-red-500'],
+                ['hud.hunger', uiStats.vitals.hunger, 'bg-orange-400'],
+                ['hud.stamina', uiStats.vitals.stamina, 'bg-green-500'],
+            ] as const).map(([label, value, color]) => (
+                <div key={label} className="text-[9px] font-mono text-slate-300">
+                    <div className="flex justify-between">
+                        <span className="uppercase">{t(label)}</span><span>{Math.ceil(value)}/{MAX_VITAL}</span>
+                    </div>
+                    <div className="h-1.5 bg-black/60 rounded overflow-hidden">
+                        <div className={`h-full ${color}`} style={{ width: `${(value / MAX_VITAL) * 100}%` }} />
+                    </div>
+                </div>
+            ))}
+        </div>
         <div className="bg-slate-900/90 backdrop-blur-sm border-2 border-slate-600 rounded-lg p-3 shadow-xl">
-            <h3 className="text-yellow-400 text-[10px] font-bold uppercase mb-2 border-b border-slate-700 pb-1">Explorer Data</h3>
+            <h3 className="text-yellow-400 text-[10px] font-bold uppercase mb-2 border-b border-slate-700 pb-1">{t('hud.explorer')}</h3>
             <div className="space-y-1 font-mono text-[10px]">
                 <div className="flex justify-between text-slate-300">
-                    <span>POS:</span><span className="text-green-400">{uiStats.x}, {uiStats.y}</span>
+                    <span>{t('hud.position')}</span><span className="text-green-400">{uiStats.x}, {uiStats.y}</span>
                 </div>
                  <div className="flex justify-between text-slate-300">
-                    <span>BIOME:</span><span className="text-orange-400">{uiStats.biome}</span>
+                    <span>{t('hud.biome')}</span>
+                    <span className="text-orange-400">
+                        {uiStats.biome ? biomeName(uiStats.biome, world.biomes.get(uiStats.biome as BiomeId)?.name ?? uiStats.biome) : t('hud.unknown')}
+                    </span>
+                </div>
+                <div className="flex justify-between text-slate-300">
+                    <span>{t('hud.spawnRadius')}</span><span className="text-purple-400">{uiStats.spawnRadius}m</span>
                 </div>
                 <div className="flex justify-between text-slate-300">
-                    <span>SPAWN R:</span><span className="text-purple-400">{uiStats.spawnRadius}m</span>
+                    <span>{t('hud.travel')}</span><span className="text-blue-400">{uiStats.dist}m</span>
                 </div>
                 <div className="flex justify-between text-slate-300">
-                    <span>TRAVEL:</span><span className="text-blue-400">{uiStats.dist}m</span>
+                    <span>{t('hud.area')}</span><span className="text-yellow-400">{uiStats.exploredArea}m²</span>
                 </div>
                 <div className="flex justify-between text-slate-300">
-                    <span>AREA:</span><span className="text-yellow-400">{uiStats.exploredArea}m²</span>
+                    <span>{t('hud.time')}</span>
+                    <span className={uiStats.night ? 'text-indigo-300' : 'text-orange-300'}>
+                        {t('hud.clock', { day: uiStats.day, time: uiStats.clock })}
+                    </span>
+                </div>
+                <div className="flex justify-between text-slate-300">
+                    <span>{t('hud.weather')}</span><span className="text-sky-300">{t(`weather.${uiStats.weather as Weather}`)}</span>
                 </div>
             </div>
         </div>
         
         {/* Available Resources List */}
         <div className="bg-slate-900/90 backdrop-blur-sm border-2 border-slate-600 rounded-lg p-3 shadow-xl">
-             <h3 className="text-blue-300 text-[10px] font-bold uppercase mb-2 border-b border-slate-700 pb-1">Available Here</h3>
+             <h3 className="text-blue-300 text-[10px] font-bold uppercase mb-2 border-b border-slate-700 pb-1 flex justify-between">
+                 <span>{t('hud.available')}</span>
+                 {resourceNode && (
+                     <span className={resourceNode.remaining > 0 ? 'text-green-400' : 'text-red-400'}>
+                         {resourceNode.remaining}/{resourceNode.capacity}
+                     </span>
+                 )}
+             </h3>
              {nearbyResources.length > 0 ? (
                  <ul className="text-[9px] text-slate-400 space-y-1">
                      {nearbyResources.map((res, i) => (
                          <li key={i} className="flex items-center gap-1">
                              <span className="w-1 h-1 bg-slate-500 rounded-full"></span>
-                             {res}
+                             {itemName(res)}
                          </li>
                      ))}
                  </ul>
              ) : (
-                 <p className="text-[9px] text-slate-600 italic">No resources nearby</p>
+                 <p className="text-[9px] text-slate-600 italic">{t('hud.noResources')}</p>
              )}
         </div>
     </div>
@@ -663,20 +937,54 @@ const WorldRenderer: React.FC<WorldRendererProps> = ({ seed, initialPos, placing
             onClose={() => setShowInventory(false)}
             onDrop={handleDropItem}
             onMove={handleMoveItem}
+            onEat={handleEat}
+            sidePanel={
+                <CraftingPanel
+                    recipes={RECIPES}
+                    inventory={inventory}
+                    nearbyStations={nearbyStations(actionContext())}
+                    onCraft={handleCraft}
+                />
+            }
+        />
+    )}
+
+    {dialogue && (
+        <DialogueBox
+            sprite={dialogue.sprite}
+            page={dialogue.page}
+            state={sessionRef.current.dialogues.get(dialogue.x, dialogue.y)}
+            onNext={() => advanceDialogue()}
+            onChoose={choice => advanceDialogue(choice)}
+            onClose={() => setDialogue(null)}
+        />
+    )}
+
+    {showQuests && (
+        <QuestLogModal
+            quests={sessionRef.current.quests.all()}
+            biomeLabel={biomeLabel}
+            onClaim={handleClaimQuest}
+            onClose={() => setShowQuests(false)}
         />
     )}
 
     {/* Inventory Bar */}
     <CommandBar 
         isPlacing={!!placingSprite}
+        placementCost={placingSprite && !creative ? placingSprite.cost ?? [] : null}
         onCancelPlacement={onPlaceComplete}
+        isDemolishing={demolishing}
+        onToggleDemolish={() => setDemolishing(prev => !prev)}
         inventory={inventory}
+        selectedSlot={selectedSlot}
+        onSelectSlot={setSelectedSlot}
         onGather={handleGather}
         onOpenInventory={() => setShowInventory(true)}
     />
     
     <div className="absolute bottom-4 right-4 bg-black/70 text-white p-2 rounded font-mono text-xs pointer-events-none border border-white/20">
-       WASD to Move • 'E' Gather • 'I' Inventory
+       {t('hud.help')}
     </div>
     </>
   );
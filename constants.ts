@@ -1,68 +1,62 @@
-import { ObjectType, PixelArtMatrix, TileType } from './types';
+import { BiomeDefinition, BiomeId, Direction, ItemCategory, ItemDefinition, ItemRarity, ItemStack, ObjectType, ObjectiveType, Palette, PixelArtMatrix, PlayerVitals, QuestDefinition, Recipe, StructureTemplate, TerrainResourceData, TerrainTileset, TileType, ToolType, Weather, WeatherChance } from './types';
 
 // --- Resources Data ---
-export interface TerrainResourceData {
-    animais: string[];
-    minerais: string[];
-    pedras_raras: string[];
-    vegetacao: string[];
-}
 
 export const TERRAIN_RESOURCES: Partial<Record<TileType, TerrainResourceData>> = {
   [TileType.DEEP_WATER]: {
-    animais: ["Lula Gigante", "Peixe-Diabo", "Baleia", "Tubarão", "Água-viva"],
-    minerais: ["Petróleo", "Calcário", "Nódulos de Manganês"],
-    pedras_raras: ["Pérola Negra", "Prismarinho", "Safira"],
-    vegetacao: ["Algas (Kelp)", "Coral de Tubo", "Coral de Cérebro", "Coral de Bolha"]
+    animais: ['giant_squid', 'anglerfish', 'whale', 'shark', 'jellyfish'],
+    minerais: ['crude_oil', 'limestone', 'manganese_nodules'],
+    pedras_raras: ['black_pearl', 'prismarine', 'sapphire'],
+    vegetacao: ['kelp', 'tube_coral', 'brain_coral', 'bubble_coral']
   },
   [TileType.WATER]: {
-    animais: ["Salmão", "Tartaruga", "Lontra", "Crocodilo"],
-    minerais: ["Argila", "Areia", "Silte"],
-    pedras_raras: ["Pérola de Água Doce", "Lápis-lazúli"],
-    vegetacao: ["Erva Marinha", "Vitória-régia", "Pepino do Mar"]
+    animais: ['salmon', 'turtle', 'otter', 'crocodile'],
+    minerais: ['clay', 'sand', 'silt'],
+    pedras_raras: ['freshwater_pearl', 'lapis_lazuli'],
+    vegetacao: ['seagrass', 'water_lily', 'sea_cucumber']
   },
   [TileType.SAND]: {
-    animais: ["Camelo", "Escorpião", "Cascavel", "Raposa-do-deserto", "Abutre"],
-    minerais: ["Arenito", "Salitre", "Silício", "Vidro"],
-    pedras_raras: ["Topázio", "Rosa do Deserto", "Jaspe", "Pedra do Sol"],
-    vegetacao: ["Cacto", "Arbusto Morto", "Acácia"]
+    animais: ['camel', 'scorpion', 'rattlesnake', 'fennec_fox', 'vulture'],
+    minerais: ['sandstone', 'saltpeter', 'silicon', 'glass'],
+    pedras_raras: ['topaz', 'desert_rose', 'jasper', 'sunstone'],
+    vegetacao: ['cactus', 'dead_bush', 'acacia']
   },
   [TileType.GRASS]: {
-    animais: ["Cavalo", "Vaca", "Coelho", "Ovelha", "Bisão"],
-    minerais: ["Terra", "Turfa", "Franco", "Carvão"],
-    pedras_raras: ["Ágata", "Ametista", "Citrino"],
-    vegetacao: ["Grama", "Dente-de-leão", "Papoula", "Trigo", "Cenoura", "Batata", "Abóbora", "Melancia"]
+    animais: ['horse', 'cow', 'rabbit', 'sheep', 'bison'],
+    minerais: ['soil', 'peat', 'loam', 'coal'],
+    pedras_raras: ['agate', 'amethyst', 'citrine'],
+    vegetacao: ['grass', 'dandelion', 'poppy', 'wheat', 'carrot', 'potato', 'pumpkin', 'watermelon']
   },
   [TileType.FOREST]: {
-    animais: ["Cervo", "Lobo", "Urso", "Esquilo", "Coruja"],
-    minerais: ["Carvão Vegetal", "Minério de Ferro", "Fungos"],
-    pedras_raras: ["Esmeralda", "Âmbar", "Jade", "Ágata Musgo"],
-    vegetacao: ["Carvalho", "Bétula", "Cerejeira", "Mangue", "Bambu", "Cacau", "Frutas Vermelhas"]
+    animais: ['deer', 'wolf', 'bear', 'squirrel', 'owl'],
+    minerais: ['charcoal', 'iron_ore', 'fungi'],
+    pedras_raras: ['emerald', 'amber', 'jade', 'moss_agate'],
+    vegetacao: ['oak', 'birch', 'cherry', 'mangrove', 'bamboo', 'cocoa', 'berries']
   },
   [TileType.MOUNTAIN]: {
-    animais: ["Cabra da Montanha", "Águia", "Puma", "Lhama", "Iaque"],
-    minerais: ["Granito", "Minério de Cobre", "Minério de Ferro", "Obsidiana"],
-    pedras_raras: ["Rubi", "Pepita de Ouro", "Granada", "Malaquita"],
-    vegetacao: ["Pinheiro", "Líquen Brilhante", "Flor de Esporo", "Bagas Brilhantes"]
+    animais: ['mountain_goat', 'eagle', 'puma', 'llama', 'yak'],
+    minerais: ['granite', 'copper_ore', 'iron_ore', 'obsidian'],
+    pedras_raras: ['ruby', 'gold_nugget', 'garnet', 'malachite'],
+    vegetacao: ['pine', 'glowing_lichen', 'spore_flower', 'glow_berries']
   },
   [TileType.SNOW]: {
-    animais: ["Urso Polar", "Pinguim", "Raposa-do-ártico", "Morsa", "Leopardo-das-neves"],
-    minerais: ["Gelo", "Gelo Compactado", "Minério de Prata", "Tungstênio"],
-    pedras_raras: ["Diamante", "Opala", "Pedra da Lua", "Celestita"],
-    vegetacao: ["Pinheiro", "Frutas Vermelhas"]
+    animais: ['polar_bear', 'penguin', 'arctic_fox', 'walrus', 'snow_leopard'],
+    minerais: ['ice', 'packed_ice', 'silver_ore', 'tungsten'],
+    pedras_raras: ['diamond', 'opal', 'moonstone', 'celestite'],
+    vegetacao: ['pine', 'berries']
   },
   // Mapping missing types to closest logic
   [TileType.DIRT]: {
-      animais: ["Toupeira", "Minhoca"],
-      minerais: ["Terra", "Argila", "Pedregulho"],
-      pedras_raras: ["Geodo"],
-      vegetacao: ["Raízes", "Cogumelo"]
+      animais: ['mole', 'earthworm'],
+      minerais: ['soil', 'clay', 'gravel'],
+      pedras_raras: ['geode'],
+      vegetacao: ['roots', 'mushroom']
   },
   [TileType.STONE]: {
-      animais: ["Morcego", "Aranha"],
-      minerais: ["Pedra", "Carvão", "Ferro"],
-      pedras_raras: ["Quartzo"],
-      vegetacao: ["Líquen"]
+      animais: ['bat', 'spider'],
+      minerais: ['stone', 'coal', 'iron'],
+      pedras_raras: ['quartz'],
+      vegetacao: ['lichen']
   }
 };
 
@@ -110,6 +104,7 @@ const PALETTE_DEEP_WATER = {
   2: '#1b2632', // Deep Base
   3: '#285cc4', // Highlight
   4: '#124e89', // Mid
+  5: '#5b8fb9', // Shore foam
 };
 
 const PALETTE_DIRT = {
@@ -133,6 +128,22 @@ const PALETTE_SNOW = {
   3: '#ffffff', // Highlight
 };
 
+const PALETTE_ROAD = {
+  0: 'transparent',
+  1: '#5e4534', // Ruts
+  2: '#8a6a4f', // Packed dirt
+  3: '#a88866', // Dust
+  4: '#9d9d9d', // Pebbles
+};
+
+const PALETTE_BRIDGE = {
+  0: 'transparent',
+  1: '#2f1a18', // Gaps
+  2: '#743f39', // Planks
+  3: '#9e5a45', // Plank highlight
+  4: '#285cc4', // Water below
+};
+
 const PALETTE_OAK = {
   0: 'transparent',
   1: '#3f2832', 2: '#183f1e', 3: '#3e8948', 4: '#743f39', 5: '#9e2835',
@@ -160,6 +171,32 @@ const PALETTE_HOUSE = {
   1: '#2f1a18', 2: '#5e3129', 3: '#8c4b3e', 4: '#b56d5b', 5: '#9e2835', 6: '#d95763', 7: '#ac3232',
 };
 
+const PALETTE_CAVE = {
+  0: 'transparent',
+  1: '#140c1c', // Darkness inside
+  2: '#262b44', // Shadowed rock
+  3: '#3a4466', // Rock
+  4: '#5a6988', // Highlight
+};
+
+const PALETTE_WORKBENCH = {
+  0: 'transparent',
+  1: '#2f1a18', // Outline
+  2: '#743f39', // Wood
+  3: '#9e5a45', // Worktop
+  4: '#9d9d9d', // Tools
+};
+
+const PALETTE_FURNACE = {
+  0: 'transparent',
+  1: '#262b44', // Outline
+  2: '#5a6988', // Stone
+  3: '#8b9bb4', // Highlight
+  4: '#eb8931', // Fire
+  5: '#f7e26b', // Embers
+  6: '#140c1c', // Firebox
+};
+
 const PALETTE_PLAYER = {
   0: 'transparent',
   1: '#140c1c', 2: '#deeed6', 3: '#442434', 4: '#30346d', 5: '#d27d2c', 6: '#8595a1',
@@ -266,9 +303,405 @@ export const TERRAIN_ART: Record<TileType, PixelArtMatrix> = {
   [TileType.SNOW]: {
     width: 16, height: 16, palette: PALETTE_SNOW,
     data: new Array(256).fill(2).map((v, i) => Math.random() > 0.95 ? 1 : (Math.random() > 0.9 ? 3 : 2))
+  },
+  [TileType.ROAD]: {
+    width: 16, height: 16, palette: PALETTE_ROAD,
+    data: new Array(256).fill(2).map((v, i) => {
+        const x = i % 16;
+        if (x === 4 || x === 11) return Math.random() > 0.3 ? 1 : 2; // Wheel ruts
+        const r = Math.random();
+        return r > 0.95 ? 4 : (r > 0.8 ? 3 : 2);
+    })
+  },
+  [TileType.BRIDGE]: {
+    width: 16, height: 16, palette: PALETTE_BRIDGE,
+    data: new Array(256).fill(2).map((v, i) => {
+        const x = i % 16;
+        const y = Math.floor(i / 16);
+        if (x === 0 || x === 15) return 4; // Water showing at the sides
+        if (x === 1 || x === 14) return 1; // Rails
+        if (y % 4 === 3) return 1; // Gaps between planks
+        return y % 4 === 0 ? 3 : 2;
+    })
   }
 };
 
+// --- Terrain Tilesets ---
+
+const flipArt = (art: PixelArtMatrix, flipX: boolean, flipY: boolean): PixelArtMatrix => ({
+  ...art,
+  data: art.data.map((v, i) => {
+    const x = i % art.width;
+    const y = Math.floor(i / art.width);
+    return art.data[(flipY ? art.height - 1 - y : y) * art.width + (flipX ? art.width - 1 - x : x)];
+  })
+});
+
+// Four looks from one drawing, for textures without an "up"
+const mirroredVariants = (art: PixelArtMatrix): PixelArtMatrix[] => [
+  art, flipArt(art, true, false), flipArt(art, false, true), flipArt(art, true, true),
+];
+
+// Autotile overlays in a single palette color: ragged bands `depth` pixels
+// deep along bordering sides, and small quarter discs in bordering corners.
+// The raggedness repeats every 4 pixels so bands line up across tiles.
+const borderPieces = (palette: Palette, color: number, depth: number): Pick<TerrainTileset, 'edges' | 'corners'> => {
+  const ragged = (n: number) => depth + ((n * 5 + 3) % 4 === 0 ? 1 : 0);
+  const inCorner = (dx: number, dy: number) => dx * dx + dy * dy < (depth + 1) * (depth + 1);
+  const piece = (inside: (x: number, y: number) => boolean): PixelArtMatrix => ({
+    width: 16, height: 16, palette,
+    data: new Array(256).fill(0).map((v, i) => inside(i % 16, Math.floor(i / 16)) ? color : 0)
+  });
+
+  return {
+    edges: Array.from({ length: 16 }, (v, mask) => piece((x, y) =>
+      ((mask & 1) > 0 && y < ragged(x))
+      || ((mask & 2) > 0 && 15 - x < ragged(y))
+      || ((mask & 4) > 0 && 15 - y < ragged(x))
+      || ((mask & 8) > 0 && x < ragged(y))
+    )),
+    corners: Array.from({ length: 16 }, (v, mask) => piece((x, y) =>
+      ((mask & 1) > 0 && inCorner(15 - x, y))
+      || ((mask & 2) > 0 && inCorner(15 - x, 15 - y))
+      || ((mask & 4) > 0 && inCorner(x, 15 - y))
+      || ((mask & 8) > 0 && inCorner(x, y))
+    )),
+  };
+};
+
+// TERRAIN_ART is the base drawing of each terrain; the tileset holds every
+// piece the renderer picks from
+export const TERRAIN_TILESETS: Record<TileType, TerrainTileset> = {
+  [TileType.DEEP_WATER]: {
+    variants: mirroredVariants(TERRAIN_ART[TileType.DEEP_WATER]),
+    ...borderPieces(PALETTE_DEEP_WATER, 5, 1), // Shoreline
+    joins: [TileType.WATER, TileType.BRIDGE],
+  },
+  [TileType.WATER]: {
+    variants: mirroredVariants(TERRAIN_ART[TileType.WATER]),
+    ...borderPieces(PALETTE_WATER, 4, 1), // Shoreline
+    joins: [TileType.DEEP_WATER, TileType.BRIDGE],
+  },
+  [TileType.SAND]: { variants: mirroredVariants(TERRAIN_ART[TileType.SAND]) },
+  [TileType.GRASS]: { variants: mirroredVariants(TERRAIN_ART[TileType.GRASS]) },
+  [TileType.FOREST]: {
+    variants: mirroredVariants(TERRAIN_ART[TileType.FOREST]),
+    ...borderPieces(PALETTE_FOREST, 4, 1), // Shaded forest edge
+  },
+  [TileType.DIRT]: { variants: mirroredVariants(TERRAIN_ART[TileType.DIRT]) },
+  [TileType.STONE]: { variants: mirroredVariants(TERRAIN_ART[TileType.STONE]) },
+  // Peaks point up, so only mirror sideways
+  [TileType.MOUNTAIN]: {
+    variants: [TERRAIN_ART[TileType.MOUNTAIN], flipArt(TERRAIN_ART[TileType.MOUNTAIN], true, false)],
+  },
+  [TileType.SNOW]: {
+    variants: mirroredVariants(TERRAIN_ART[TileType.SNOW]),
+    ...borderPieces(PALETTE_SNOW, 1, 2), // Drift line
+    joins: [TileType.MOUNTAIN],
+  },
+  [TileType.ROAD]: { variants: mirroredVariants(TERRAIN_ART[TileType.ROAD]) },
+  [TileType.BRIDGE]: {
+    variants: [TERRAIN_ART[TileType.BRIDGE], flipArt(TERRAIN_ART[TileType.BRIDGE], false, true)],
+  },
+};
+
+// --- Resource Nodes ---
+// Every tile holds 1..maxYield gatherable units (rolled from the seed), and one
+// unit grows back every regrowSeconds of game time
+export interface ResourceNodeRule {
+  maxYield: number;
+  regrowSeconds: number;
+}
+
+export const DEFAULT_RESOURCE_NODE: ResourceNodeRule = { maxYield: 3, regrowSeconds: 300 };
+
+export const RESOURCE_NODE_RULES: Partial<Record<TileType, ResourceNodeRule>> = {
+  [TileType.DEEP_WATER]: { maxYield: 2, regrowSeconds: 600 },
+  [TileType.WATER]: { maxYield: 3, regrowSeconds: 240 },
+  [TileType.SAND]: { maxYield: 4, regrowSeconds: 300 },
+  [TileType.GRASS]: { maxYield: 5, regrowSeconds: 120 },
+  [TileType.FOREST]: { maxYield: 6, regrowSeconds: 180 },
+  [TileType.DIRT]: { maxYield: 4, regrowSeconds: 300 },
+  [TileType.STONE]: { maxYield: 3, regrowSeconds: 900 },
+  [TileType.MOUNTAIN]: { maxYield: 3, regrowSeconds: 1200 },
+  [TileType.SNOW]: { maxYield: 2, regrowSeconds: 600 },
+};
+
+// --- Time of Day & Weather ---
+// A full day passes in DAY_LENGTH_SECONDS of play. New worlds start in the
+// morning so the first minutes aren't spent in the dark.
+export const DAY_LENGTH_SECONDS = 1200;
+export const START_HOUR = 8;
+export const NIGHT_START_HOUR = 20;
+export const NIGHT_END_HOUR = 6;
+
+// Tint drawn over the map through the day, interpolated between keyframes
+export interface SkyKeyframe {
+  hour: number;
+  color: [number, number, number];
+  alpha: number;
+}
+
+export const SKY_KEYFRAMES: SkyKeyframe[] = [
+  { hour: 0, color: [8, 12, 40], alpha: 0.6 },
+  { hour: 5, color: [8, 12, 40], alpha: 0.55 },
+  { hour: 6.5, color: [255, 140, 60], alpha: 0.2 }, // Dawn
+  { hour: 8, color: [255, 140, 60], alpha: 0 }, // Clear daylight; colors match the dawn/dusk they fade to
+  { hour: 17, color: [255, 110, 50], alpha: 0 },
+  { hour: 18.5, color: [255, 110, 50], alpha: 0.25 }, // Dusk
+  { hour: 20, color: [8, 12, 40], alpha: 0.55 },
+  { hour: 24, color: [8, 12, 40], alpha: 0.6 },
+];
+
+// Odds for biomes that don't list their own weather
+export const DEFAULT_WEATHER: WeatherChance[] = [{ weather: Weather.RAIN, chance: 0.3 }];
+
+// How long (game seconds) a biome's weather lasts before it is rolled again
+export const WEATHER_MIN_SECONDS = 120;
+export const WEATHER_MAX_SECONDS = 420;
+
+// Multipliers on gathering odds: animals take shelter, fish bite in the rain
+export interface WeatherEffect {
+  animalChance: number;
+  fishChance: number;
+}
+
+export const WEATHER_EFFECTS: Record<Weather, WeatherEffect> = {
+  [Weather.CLEAR]: { animalChance: 1, fishChance: 1 },
+  [Weather.RAIN]: { animalChance: 0.5, fishChance: 1.5 },
+  [Weather.SNOW]: { animalChance: 0.5, fishChance: 0.75 },
+  [Weather.SANDSTORM]: { animalChance: 0.25, fishChance: 1 },
+};
+
+// Most land animals hide after dark
+export const NIGHT_ANIMAL_CHANCE = 0.5;
+
+// --- Survival ---
+// Every vital runs from 0 to MAX_VITAL. Rates are per second of game time.
+export const MAX_VITAL = 100;
+export const HUNGER_PER_SECOND = 0.1; // Full to starving in about 17 minutes
+export const STARVING_DAMAGE_PER_SECOND = 0.5;
+export const WELL_FED_HUNGER = 60; // Health only heals above this
+export const HEALTH_REGEN_PER_SECOND = 0.25;
+export const STAMINA_REGEN_PER_SECOND = 10;
+export const RUN_STAMINA_PER_SECOND = 18;
+export const SWIM_STAMINA_PER_SECOND = 3;
+export const DROWNING_DAMAGE_PER_SECOND = 4; // Swimming with no stamina left
+export const RUN_SPEED_MULTIPLIER = 1.8;
+// One-off costs of a gathering action
+export const GATHER_STAMINA = 3;
+export const GATHER_HUNGER = 0.5;
+// What the player comes back with after dying
+export const RESPAWN_VITALS: PlayerVitals = { health: MAX_VITAL, hunger: 60, stamina: MAX_VITAL };
+
+// --- Wildlife ---
+// Animals come from the gatherable animais of the terrain they spawn on and are
+// drawn with their item icon. Distances are in tiles, speeds in tiles per second.
+export const MAX_ENTITIES = 12;
+export const ENTITY_SPAWN_INTERVAL_MS = 1500;
+export const ENTITY_SPAWN_MIN_DISTANCE = 10; // Out of the player's immediate view
+export const ENTITY_SPAWN_MAX_DISTANCE = 18;
+export const ENTITY_DESPAWN_DISTANCE = 30; // Well off-screen
+export const VILLAGER_SPAWN_CHANCE = 0.5; // Per spawn on a road
+export const FLEE_DISTANCE = 4;
+export const FOLLOW_DISTANCE = 1.5;
+export const INTERACT_RANGE = 1.5;
+export const HUNT_STAMINA = 8;
+export const ANIMAL_HEALTH = 10;
+
+export interface CreatureTraits {
+  speed: number;
+  timid: boolean; // Flees when the player comes close
+  tameWith?: string[]; // Item keys it can be tamed with
+}
+
+export const DEFAULT_CREATURE: CreatureTraits = { speed: 1.5, timid: true };
+export const VILLAGER_TRAITS: CreatureTraits = { speed: 1.2, timid: false };
+
+export const CREATURE_TRAITS: Record<string, Partial<CreatureTraits>> = {
+  horse: { speed: 2.5, tameWith: ['carrot', 'wheat'] },
+  cow: { speed: 1, tameWith: ['wheat'] },
+  sheep: { speed: 1.2, tameWith: ['wheat'] },
+  llama: { tameWith: ['wheat'] },
+  yak: { speed: 1, tameWith: ['wheat'] },
+  camel: { tameWith: ['date_palm'] },
+  rabbit: { speed: 2.5, tameWith: ['carrot'] },
+  fennec_fox: { speed: 2.5, tameWith: ['berries'] },
+  arctic_fox: { speed: 2.5, tameWith: ['berries'] },
+  wolf: { speed: 2, timid: false },
+  bear: { timid: false },
+  brown_bear: { timid: false },
+  polar_bear: { timid: false },
+  jaguar: { speed: 2.2, timid: false },
+  puma: { speed: 2.2, timid: false },
+  snow_leopard: { speed: 2.2, timid: false },
+  crocodile: { speed: 1, timid: false },
+  shark: { speed: 2.5, timid: false },
+};
+
+// --- Combat ---
+// Hostile creatures attack the player at night, and by day too in biomes that
+// list them in hostileByDay. Peaceful mode turns all of it off.
+export interface HostileDefinition {
+  terrain: TileType; // Where it spawns
+  health: number;
+  damage: number; // Per bite on the player
+  speed: number;
+  loot: ItemStack[];
+}
+
+export const HOSTILE_CREATURES: Record<string, HostileDefinition> = {
+  wolf: { terrain: TileType.FOREST, health: 30, damage: 10, speed: 2.6, loot: [{ item: 'wolf', count: 1 }, { item: 'berries', count: 1 }] },
+  scorpion: { terrain: TileType.SAND, health: 15, damage: 6, speed: 1.8, loot: [{ item: 'scorpion', count: 1 }] },
+  spider: { terrain: TileType.STONE, health: 12, damage: 5, speed: 2.2, loot: [{ item: 'spider', count: 1 }, { item: 'coal', count: 1 }] },
+};
+
+export const HOSTILE_SPAWN_CHANCE = 0.35; // Per spawn on a hostile's terrain while it is out
+export const HOSTILE_CHASE_DISTANCE = 8;
+export const HOSTILE_ATTACK_RANGE = 0.9;
+export const HOSTILE_ATTACK_COOLDOWN_MS = 1200;
+export const UNARMED_DAMAGE = 2;
+export const ATTACK_REACH = 1.2; // Hitbox center, in tiles ahead of the player
+export const ATTACK_HITBOX = 0.8; // Half-width of the square hitbox
+export const ATTACK_STAMINA = 4;
+export const ATTACK_COOLDOWN_MS = 350;
+export const KNOCKBACK_SPEED = 8;
+export const KNOCKBACK_MS = 150;
+export const DAMAGE_LABEL_MS = 800; // How long a damage number floats
+
+// --- Tools ---
+export interface ToolDefinition {
+  tool: ToolType;
+  maxDurability: number; // Uses before it breaks
+  damage?: number; // Per melee hit; UNARMED_DAMAGE when absent
+}
+
+export const TOOL_ITEMS: Record<string, ToolDefinition> = {
+  pickaxe: { tool: ToolType.PICKAXE, maxDurability: 60, damage: 4 },
+  axe: { tool: ToolType.AXE, maxDurability: 50, damage: 5 },
+  fishing_rod: { tool: ToolType.FISHING_ROD, maxDurability: 40 },
+  wooden_sword: { tool: ToolType.SWORD, maxDurability: 40, damage: 7 },
+  iron_sword: { tool: ToolType.SWORD, maxDurability: 120, damage: 12 },
+};
+
+// What an axe gets from a tree
+export const WOOD_ITEM = 'wood';
+
+// Procedural objects a tool can take apart. Each gather takes a unit from the
+// tile's resource node; emptying it removes the object, which grows back after
+// regrowSeconds of game time (never, when absent).
+export interface HarvestRule {
+  tool: ToolType;
+  item: string;
+  regrowSeconds?: number;
+}
+
+export const HARVESTABLE_OBJECTS: Partial<Record<ObjectType, HarvestRule>> = {
+  [ObjectType.TREE_OAK]: { tool: ToolType.AXE, item: WOOD_ITEM, regrowSeconds: 900 },
+  [ObjectType.ROCK_SMALL]: { tool: ToolType.PICKAXE, item: 'stone' },
+};
+
+// Tools a new game starts with
+export const STARTER_TOOLS = ['pickaxe', 'axe', 'fishing_rod'];
+
+// Items that become a world object when placed
+export const PLACEABLE_ITEMS: Record<string, ObjectType> = {
+  workbench: ObjectType.WORKBENCH,
+  furnace: ObjectType.FURNACE,
+  house_small: ObjectType.HOUSE_SMALL,
+};
+
+// How close (in tiles) a crafting station has to be
+export const STATION_RANGE = 3;
+
+export const RECIPES: Recipe[] = [
+  { id: 'planks', inputs: [{ item: WOOD_ITEM, count: 1 }], output: { item: 'plank', count: 2 } },
+  { id: 'workbench', inputs: [{ item: 'plank', count: 4 }], output: { item: 'workbench', count: 1 } },
+  { id: 'furnace', inputs: [{ item: 'stone', count: 8 }], output: { item: 'furnace', count: 1 } },
+  {
+    id: 'iron_bar', station: ObjectType.FURNACE,
+    inputs: [{ item: 'iron_ore', count: 2 }, { item: 'coal', count: 1 }],
+    output: { item: 'iron_bar', count: 1 },
+  },
+  {
+    id: 'iron_bar_charcoal', station: ObjectType.FURNACE,
+    inputs: [{ item: 'iron_ore', count: 2 }, { item: 'charcoal', count: 2 }],
+    output: { item: 'iron_bar', count: 1 },
+  },
+  {
+    id: 'pickaxe', station: ObjectType.WORKBENCH,
+    inputs: [{ item: 'iron_bar', count: 2 }, { item: 'plank', count: 2 }],
+    output: { item: 'pickaxe', count: 1 },
+  },
+  {
+    id: 'axe', station: ObjectType.WORKBENCH,
+    inputs: [{ item: 'iron_bar', count: 1 }, { item: 'plank', count: 2 }],
+    output: { item: 'axe', count: 1 },
+  },
+  {
+    id: 'wooden_sword', station: ObjectType.WORKBENCH,
+    inputs: [{ item: 'plank', count: 3 }],
+    output: { item: 'wooden_sword', count: 1 },
+  },
+  {
+    id: 'iron_sword', station: ObjectType.WORKBENCH,
+    inputs: [{ item: 'iron_bar', count: 2 }, { item: 'plank', count: 1 }],
+    output: { item: 'iron_sword', count: 1 },
+  },
+  {
+    id: 'fishing_rod', station: ObjectType.WORKBENCH,
+    inputs: [{ item: 'bamboo', count: 2 }, { item: 'plank', count: 1 }],
+    output: { item: 'fishing_rod', count: 1 },
+  },
+  {
+    id: 'house_small', station: ObjectType.WORKBENCH,
+    inputs: [{ item: 'plank', count: 12 }, { item: 'stone', count: 6 }],
+    output: { item: 'house_small', count: 1 },
+  },
+];
+
+// --- Quests ---
+export const QUEST_VISIT_RADIUS = 3; // How close (in tiles) counts as being at a quest location
+export const SETTLEMENT_SEARCH_REGIONS = 4; // How many structure regions out generated quests look for a village
+
+// Quests every world starts with
+export const QUEST_DEFINITIONS: QuestDefinition[] = [
+  { id: 'first_steps', objectives: [{ type: ObjectiveType.WALK, distance: 200 }], rewards: [{ item: 'berries', count: 5 }] },
+  { id: 'lumberjack', objectives: [{ type: ObjectiveType.COLLECT, item: WOOD_ITEM, count: 10 }], rewards: [{ item: 'iron_bar', count: 2 }] },
+  { id: 'portal_traveler', objectives: [{ type: ObjectiveType.USE_PORTAL }], rewards: [{ item: 'diamond', count: 1 }] },
+];
+
+// Where generated fetch quests send the player for rare stones
+export const QUEST_FETCH_TERRAINS = [TileType.MOUNTAIN, TileType.FOREST, TileType.SAND, TileType.SNOW];
+
+// What generated quests pay out, picked per quest
+export const QUEST_REWARDS: ItemStack[][] = [
+  [{ item: 'iron_bar', count: 3 }],
+  [{ item: 'plank', count: 12 }, { item: 'stone', count: 8 }],
+  [{ item: 'iron_sword', count: 1 }],
+  [{ item: 'carrot', count: 6 }, { item: 'berries', count: 6 }],
+  [{ item: 'workbench', count: 1 }, { item: 'furnace', count: 1 }],
+];
+
+// The tile step one pace in each direction takes
+export const DIRECTION_OFFSETS: Record<Direction, [number, number]> = {
+  [Direction.UP]: [0, -1],
+  [Direction.DOWN]: [0, 1],
+  [Direction.LEFT]: [-1, 0],
+  [Direction.RIGHT]: [1, 0],
+};
+
+// Player walking speed on open ground, in tiles per second
+export const PLAYER_SPEED = 9;
+// Placement/demolish cursor: one tile per step while a direction is held
+export const CURSOR_REPEAT_MS = 100;
+
+// Movement speed multiplier while standing on a terrain (1 when absent)
+export const TERRAIN_SPEED: Partial<Record<TileType, number>> = {
+  [TileType.ROAD]: 1.6,
+  [TileType.BRIDGE]: 1.6,
+};
+
 // --- Object Art (16x16 or 32x32) ---
 
 export const OBJECT_ART: Record<ObjectType, PixelArtMatrix> = {
@@ -409,9 +842,551 @@ export const OBJECT_ART: Record<ObjectType, PixelArtMatrix> = {
       0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,
       0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,
     ]
+  },
+  [ObjectType.CAVE_ENTRANCE]: {
+    width: 16,
+    height: 16,
+    palette: PALETTE_CAVE,
+    collision: false,
+    data: [
+      0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,
+      0,0,0,0,0,3,3,4,4,3,3,0,0,0,0,0,
+      0,0,0,3,3,4,4,3,3,4,4,3,3,0,0,0,
+      0,0,3,4,3,3,2,2,2,2,3,3,4,3,0,0,
+      0,3,4,3,2,2,1,1,1,1,2,2,3,4,3,0,
+      0,3,3,2,1,1,1,1,1,1,1,1,2,3,3,0,
+      3,4,3,2,1,1,1,1,1,1,1,1,2,3,4,3,
+      3,3,2,1,1,1,1,1,1,1,1,1,1,2,3,3,
+      3,4,2,1,1,1,1,1,1,1,1,1,1,2,4,3,
+      3,3,2,1,1,1,1,1,1,1,1,1,1,2,3,3,
+      4,3,2,1,1,1,1,1,1,1,1,1,1,2,3,4,
+      3,3,2,1,1,1,1,1,1,1,1,1,1,2,3,3,
+      3,4,2,1,1,1,1,1,1,1,1,1,1,2,4,3,
+      3,3,2,2,1,1,1,1,1,1,1,1,2,2,3,3,
+      2,2,2,2,2,2,2,2,2,2,2,2,2,2,2,2,
+      0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,
+    ]
+  },
+  [ObjectType.WORKBENCH]: {
+    width: 16,
+    height: 16,
+    palette: PALETTE_WORKBENCH,
+    collision: true,
+    data: [
+      0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,
+      0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,
+      0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,
+      0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,
+      0,0,0,0,0,0,0,0,0,4,4,0,0,0,0,0,
+      0,0,0,0,0,0,0,0,4,4,4,4,0,0,0,0,
+      0,0,1,1,1,1,1,1,1,1,1,1,1,1,0,0,
+      0,0,1,3,3,3,3,3,3,3,3,3,3,1,0,0,
+      0,0,1,2,2,2,2,2,2,2,2,2,2,1,0,0,
+      0,0,1,1,1,1,1,1,1,1,1,1,1,1,0,0,
+      0,0,1,2,1,0,0,0,0,0,0,1,2,1,0,0,
+      0,0,1,2,1,0,0,0,0,0,0,1,2,1,0,0,
+      0,0,1,2,1,0,0,0,0,0,0,1,2,1,0,0,
+      0,0,1,2,1,0,0,0,0,0,0,1,2,1,0,0,
+      0,0,1,1,1,0,0,0,0,0,0,1,1,1,0,0,
+      0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,
+    ]
+  },
+  [ObjectType.FURNACE]: {
+    width: 16,
+    height: 16,
+    palette: PALETTE_FURNACE,
+    collision: true,
+    data: [
+      0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,
+      0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,
+      0,0,0,0,0,1,1,1,1,1,1,0,0,0,0,0,
+      0,0,0,0,1,3,3,3,3,3,3,1,0,0,0,0,
+      0,0,0,1,3,2,2,2,2,2,2,3,1,0,0,0,
+      0,0,1,3,2,2,2,2,2,2,2,2,3,1,0,0,
+      0,0,1,2,2,2,2,2,2,2,2,2,2,1,0,0,
+      0,0,1,2,2,6,6,6,6,6,6,2,2,1,0,0,
+      0,0,1,2,6,6,6,6,6,6,6,6,2,1,0,0,
+      0,0,1,2,6,6,4,5,5,4,6,6,2,1,0,0,
+      0,0,1,2,6,4,5,5,5,5,5,6,2,1,0,0,
+      0,0,1,2,4,5,5,5,5,5,5,4,2,1,0,0,
+      0,0,1,2,2,2,2,2,2,2,2,2,2,1,0,0,
+      0,0,1,3,2,2,2,2,2,2,2,2,3,1,0,0,
+      0,0,1,1,1,1,1,1,1,1,1,1,1,1,0,0,
+      0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,
+    ]
   }
 };
 
+// --- Items ---
+
+type ItemIconShape = 'fish' | 'critter' | 'ore' | 'gem' | 'leaf' | 'log' | 'plank' | 'bar' | 'pickaxe' | 'axe' | 'rod' | 'sword';
+
+// 16x16 icon templates: o outline, s/b/h shade/base/highlight of the item
+// color, w wood, m metal, l fishing line
+const ITEM_ICON_SHAPES: Record<ItemIconShape, string[]> = {
+  fish: [
+    '................',
+    '................',
+    '................',
+    '................',
+    '......oooo......',
+    '....oohhhhoo..oo',
+    '...ohhbbbbbbooho',
+    '..ohbobbbbbbbbho',
+    '..obbbbbbbbbbbso',
+    '...osbbbbbbsooso',
+    '....oossssoo..oo',
+    '......oooo......',
+    '................',
+    '................',
+    '................',
+    '................',
+  ],
+  critter: [
+    '................',
+    '................',
+    '................',
+    '...........oo...',
+    '..........ohbo..',
+    '..........obbbo.',
+    '..oooooooobbbo..',
+    '.ohhhhhhhhbbo...',
+    '.obbbbbbbbbbo...',
+    '.obbbbbbbbbso...',
+    '..osssssssso....',
+    '..obo.....obo...',
+    '..obo.....obo...',
+    '..ooo.....ooo...',
+    '................',
+    '................',
+  ],
+  ore: [
+    '................',
+    '................',
+    '................',
+    '................',
+    '......oooo......',
+    '....oohhhhoo....',
+    '...ohhbbbbbbo...',
+    '..ohbbbbsbbbbo..',
+    '..obbsbbbbbbbo..',
+    '.obbbbbbbbsbbbo.',
+    '.obsbbbbbbbbbso.',
+    '.osssssbbbsssso.',
+    '..oossssssssoo..',
+    '....oooooooo....',
+    '................',
+    '................',
+  ],
+  gem: [
+    '................',
+    '................',
+    '................',
+    '.....oooooo.....',
+    '....ohhbbhho....',
+    '...ohhbbbbhbo...',
+    '..oooooooooooo..',
+    '..ohbbbbbbbbso..',
+    '...ohbbbbbbso...',
+    '....obbbbbso....',
+    '.....obbbso.....',
+    '......obso......',
+    '.......oo.......',
+    '................',
+    '................',
+    '................',
+  ],
+  leaf: [
+    '................',
+    '................',
+    '...........oo...',
+    '.........oohbo..',
+    '.......oohbbbo..',
+    '.....oohbbbbso..',
+    '....ohbbbbbbso..',
+    '...ohbbbbbsbso..',
+    '...obbbbbsbbso..',
+    '..obbbbsbbbso...',
+    '..obbbsbbbso....',
+    '..obbsbbsoo.....',
+    '..obsssoo.......',
+    '.ooooo..........',
+    'oo..............',
+    '................',
+  ],
+  log: [
+    '................',
+    '................',
+    '................',
+    '................',
+    '................',
+    '...ooooooooooo..',
+    '..ohhhhhhhhhoho.',
+    '..obbbbbbbbbohho',
+    '..osbbbsbbbbohso',
+    '..obbbbbbbsbosso',
+    '..osssssssssoso.',
+    '...ooooooooooo..',
+    '................',
+    '................',
+    '................',
+    '................',
+  ],
+  plank: [
+    '................',
+    '................',
+    '................',
+    '................',
+    '................',
+    '................',
+    '.oooooooooooooo.',
+    '.ohhhhhhhhhhhho.',
+    '.obbbsbbbbbbbbo.',
+    '.obbbbbbbbbsbbo.',
+    '.osssssssssssso.',
+    '.oooooooooooooo.',
+    '................',
+    '................',
+    '................',
+    '................',
+  ],
+  bar: [
+    '................',
+    '................',
+    '................',
+    '................',
+    '................',
+    '................',
+    '....oooooooo....',
+    '...ohhhhhhhho...',
+    '..ohbbbbbbbbbo..',
+    '.obbbbbbbbbbbbo.',
+    '.osssssssssssso.',
+    '.oooooooooooooo.',
+    '................',
+    '................',
+    '................',
+    '................',
+  ],
+  pickaxe: [
+    '................',
+    '................',
+    '...oooooooooo...',
+    '..ommmmmmmmmmo..',
+    '.omo...owo...omo',
+    '.oo....owo....oo',
+    '.......owo......',
+    '.......owo......',
+    '.......owo......',
+    '.......owo......',
+    '.......owo......',
+    '.......owo......',
+    '.......owo......',
+    '.......owo......',
+    '.......ooo......',
+    '................',
+  ],
+  axe: [
+    '................',
+    '....ooo.........',
+    '....owooooo.....',
+    '....owommmmo....',
+    '....owommmmmo...',
+    '....owommmmmmo..',
+    '....owommmmmo...',
+    '....owoooooo....',
+    '....owo.........',
+    '....owo.........',
+    '....owo.........',
+    '....owo.........',
+    '....owo.........',
+    '....owo.........',
+    '....ooo.........',
+    '................',
+  ],
+  rod: [
+    '................',
+    '.............oo.',
+    '............owo.',
+    '...........owo.l',
+    '..........owo..l',
+    '.........owo...l',
+    '........owo....l',
+    '.......owo.....l',
+    '......owo......l',
+    '.....owo.......l',
+    '....owo.......ol',
+    '...owo........oo',
+    '..owo...........',
+    '.ooo............',
+    '................',
+    '................',
+  ],
+  sword: [
+    '................',
+    '.............oo.',
+    '............ohho',
+    '...........ohbbo',
+    '..........ohbbo.',
+    '.........ohbbo..',
+    '........ohbbo...',
+    '.......ohbbo....',
+    '..oo..ohbbo.....',
+    '..omoohbbo......',
+    '...ommbbo.......',
+    '....ommo........',
+    '...owoomo.......',
+    '..owo..oo.......',
+    '.ooo............',
+    '................',
+  ],
+};
+
+const ICON_CODES: Record<string, number> = { '.': 0, o: 1, s: 2, b: 3, h: 4, w: 5, m: 6, l: 7 };
+
+// Moves a #rrggbb color towards white (amount > 0) or black (amount < 0)
+const shadeColor = (hex: string, amount: number): string => {
+  const value = parseInt(hex.slice(1), 16);
+  const target = amount > 0 ? 255 : 0;
+  return '#' + [16, 8, 0].map(shift => {
+    const channel = (value >> shift) & 0xff;
+    return Math.round(channel + (target - channel) * Math.abs(amount)).toString(16).padStart(2, '0');
+  }).join('');
+};
+
+const itemIcon = (shape: ItemIconShape, color: string): PixelArtMatrix => ({
+  width: 16,
+  height: 16,
+  palette: {
+    0: 'transparent',
+    1: '#140c1c',
+    2: shadeColor(color, -0.35),
+    3: color,
+    4: shadeColor(color, 0.35),
+    5: '#854c30',
+    6: '#8595a1',
+    7: '#deeed6',
+  },
+  data: ITEM_ICON_SHAPES[shape].join('').split('').map(c => ICON_CODES[c]),
+});
+
+// For items a custom biome names that aren't in the registry
+export const UNKNOWN_ITEM_ICON = itemIcon('ore', '#9d9d9d');
+
+const CATEGORY_STACK: Record<ItemCategory, number> = {
+  [ItemCategory.ANIMAL]: 16,
+  [ItemCategory.MINERAL]: 32,
+  [ItemCategory.RARE_STONE]: 16,
+  [ItemCategory.VEGETATION]: 32,
+  [ItemCategory.MATERIAL]: 32,
+  [ItemCategory.TOOL]: 1,
+  [ItemCategory.PLACEABLE]: 4,
+};
+
+const CATEGORY_SHAPE: Partial<Record<ItemCategory, ItemIconShape>> = {
+  [ItemCategory.ANIMAL]: 'critter',
+  [ItemCategory.MINERAL]: 'ore',
+  [ItemCategory.RARE_STONE]: 'gem',
+  [ItemCategory.VEGETATION]: 'leaf',
+  [ItemCategory.MATERIAL]: 'bar',
+};
+
+// Hunger each edible animal or plant restores
+const FOOD_VALUES: Record<string, number> = {
+  // Catch and game
+  giant_squid: 40, anglerfish: 25, whale: 60, shark: 35, salmon: 25, turtle: 25, crocodile: 35,
+  camel: 35, rattlesnake: 15, horse: 40, cow: 45, rabbit: 20, sheep: 35, bison: 50, deer: 35,
+  squirrel: 10, mountain_goat: 30, llama: 35, yak: 45, walrus: 45, moose: 50, desert_toad: 8,
+  // Plants
+  kelp: 6, seagrass: 4, sea_cucumber: 10, cactus: 6, wheat: 8, carrot: 12, potato: 14, pumpkin: 20,
+  watermelon: 18, cherry: 10, cocoa: 8, berries: 10, glow_berries: 12, mushroom: 10, roots: 6,
+  date_palm: 14, acai: 10, blueberry: 10,
+};
+
+const item = (
+  key: string, category: ItemCategory, rarity: ItemRarity, color: string, shape: ItemIconShape = CATEGORY_SHAPE[category]
+): ItemDefinition => ({
+  key, category, rarity, maxStack: CATEGORY_STACK[category], icon: itemIcon(shape, color), food: FOOD_VALUES[key],
+});
+
+// Placed items become world objects, so they look like one
+const placeable = (key: string, rarity: ItemRarity, object: ObjectType): ItemDefinition => ({
+  key, category: ItemCategory.PLACEABLE, rarity, maxStack: CATEGORY_STACK[ItemCategory.PLACEABLE], icon: OBJECT_ART[object],
+});
+
+// Keys are what saves store: add new items freely, but never rename a key.
+// Names and descriptions live in the locale catalogs.
+export const ITEM_DEFINITIONS: ItemDefinition[] = [
+  // Animals
+  item('giant_squid', ItemCategory.ANIMAL, ItemRarity.RARE, '#b55088', 'fish'),
+  item('anglerfish', ItemCategory.ANIMAL, ItemRarity.UNCOMMON, '#30346d', 'fish'),
+  item('whale', ItemCategory.ANIMAL, ItemRarity.RARE, '#2f484e', 'fish'),
+  item('shark', ItemCategory.ANIMAL, ItemRarity.UNCOMMON, '#8595a1', 'fish'),
+  item('jellyfish', ItemCategory.ANIMAL, ItemRarity.COMMON, '#e06f8b', 'fish'),
+  item('salmon', ItemCategory.ANIMAL, ItemRarity.COMMON, '#f6757a', 'fish'),
+  item('turtle', ItemCategory.ANIMAL, ItemRarity.UNCOMMON, '#44891a', 'fish'),
+  item('otter', ItemCategory.ANIMAL, ItemRarity.UNCOMMON, '#6b4226', 'fish'),
+  item('crocodile', ItemCategory.ANIMAL, ItemRarity.UNCOMMON, '#2d6e32', 'fish'),
+  item('camel', ItemCategory.ANIMAL, ItemRarity.COMMON, '#c28569'),
+  item('scorpion', ItemCategory.ANIMAL, ItemRarity.COMMON, '#a46422'),
+  item('rattlesnake', ItemCategory.ANIMAL, ItemRarity.UNCOMMON, '#d2aa99'),
+  item('fennec_fox', ItemCategory.ANIMAL, ItemRarity.UNCOMMON, '#e8b796'),
+  item('vulture', ItemCategory.ANIMAL, ItemRarity.COMMON, '#4e4a4e'),
+  item('horse', ItemCategory.ANIMAL, ItemRarity.COMMON, '#854c30'),
+  item('cow', ItemCategory.ANIMAL, ItemRarity.COMMON, '#deeed6'),
+  item('rabbit', ItemCategory.ANIMAL, ItemRarity.COMMON, '#d2aa99'),
+  item('sheep', ItemCategory.ANIMAL, ItemRarity.COMMON, '#ffffff'),
+  item('bison', ItemCategory.ANIMAL, ItemRarity.UNCOMMON, '#493c2b'),
+  item('deer', ItemCategory.ANIMAL, ItemRarity.COMMON, '#a46422'),
+  item('wolf', ItemCategory.ANIMAL, ItemRarity.UNCOMMON, '#8595a1'),
+  item('bear', ItemCategory.ANIMAL, ItemRarity.UNCOMMON, '#6b4226'),
+  item('squirrel', ItemCategory.ANIMAL, ItemRarity.COMMON, '#eb8931'),
+  item('owl', ItemCategory.ANIMAL, ItemRarity.COMMON, '#c28569'),
+  item('mountain_goat', ItemCategory.ANIMAL, ItemRarity.COMMON, '#deeed6'),
+  item('eagle', ItemCategory.ANIMAL, ItemRarity.UNCOMMON, '#493c2b'),
+  item('puma', ItemCategory.ANIMAL, ItemRarity.UNCOMMON, '#e8b796'),
+  item('llama', ItemCategory.ANIMAL, ItemRarity.COMMON, '#f7e26b'),
+  item('yak', ItemCategory.ANIMAL, ItemRarity.COMMON, '#342a34'),
+  item('polar_bear', ItemCategory.ANIMAL, ItemRarity.RARE, '#ffffff'),
+  item('penguin', ItemCategory.ANIMAL, ItemRarity.COMMON, '#1b2632'),
+  item('arctic_fox', ItemCategory.ANIMAL, ItemRarity.UNCOMMON, '#deeed6'),
+  item('walrus', ItemCategory.ANIMAL, ItemRarity.UNCOMMON, '#c28569'),
+  item('snow_leopard', ItemCategory.ANIMAL, ItemRarity.RARE, '#b2dcef'),
+  item('mole', ItemCategory.ANIMAL, ItemRarity.COMMON, '#342a34'),
+  item('earthworm', ItemCategory.ANIMAL, ItemRarity.COMMON, '#e06f8b'),
+  item('bat', ItemCategory.ANIMAL, ItemRarity.COMMON, '#442434'),
+  item('spider', ItemCategory.ANIMAL, ItemRarity.COMMON, '#140c1c'),
+  item('desert_toad', ItemCategory.ANIMAL, ItemRarity.UNCOMMON, '#a3ce27'),
+  item('heron', ItemCategory.ANIMAL, ItemRarity.COMMON, '#deeed6'),
+  item('jaguar', ItemCategory.ANIMAL, ItemRarity.RARE, '#eb8931'),
+  item('macaw', ItemCategory.ANIMAL, ItemRarity.UNCOMMON, '#be2633'),
+  item('monkey', ItemCategory.ANIMAL, ItemRarity.COMMON, '#854c30'),
+  item('toucan', ItemCategory.ANIMAL, ItemRarity.UNCOMMON, '#f7e26b'),
+  item('sloth', ItemCategory.ANIMAL, ItemRarity.COMMON, '#a46422'),
+  item('moose', ItemCategory.ANIMAL, ItemRarity.UNCOMMON, '#493c2b'),
+  item('lynx', ItemCategory.ANIMAL, ItemRarity.UNCOMMON, '#d2aa99'),
+  item('brown_bear', ItemCategory.ANIMAL, ItemRarity.UNCOMMON, '#6b4226'),
+
+  // Minerals
+  item('crude_oil', ItemCategory.MINERAL, ItemRarity.UNCOMMON, '#140c1c'),
+  item('limestone', ItemCategory.MINERAL, ItemRarity.COMMON, '#d2d2b4'),
+  item('manganese_nodules', ItemCategory.MINERAL, ItemRarity.UNCOMMON, '#342a34'),
+  item('clay', ItemCategory.MINERAL, ItemRarity.COMMON, '#c28569'),
+  item('sand', ItemCategory.MINERAL, ItemRarity.COMMON, '#f7e26b'),
+  item('silt', ItemCategory.MINERAL, ItemRarity.COMMON, '#a48d6a'),
+  item('sandstone', ItemCategory.MINERAL, ItemRarity.COMMON, '#e8b796'),
+  item('saltpeter', ItemCategory.MINERAL, ItemRarity.UNCOMMON, '#deeed6'),
+  item('silicon', ItemCategory.MINERAL, ItemRarity.UNCOMMON, '#4e4a4e'),
+  item('glass', ItemCategory.MINERAL, ItemRarity.UNCOMMON, '#b2dcef'),
+  item('soil', ItemCategory.MINERAL, ItemRarity.COMMON, '#6b4226'),
+  item('peat', ItemCategory.MINERAL, ItemRarity.COMMON, '#493c2b'),
+  item('loam', ItemCategory.MINERAL, ItemRarity.COMMON, '#854c30'),
+  item('coal', ItemCategory.MINERAL, ItemRarity.COMMON, '#26242b'),
+  item('charcoal', ItemCategory.MINERAL, ItemRarity.COMMON, '#342a34'),
+  item('iron_ore', ItemCategory.MINERAL, ItemRarity.COMMON, '#c28569'),
+  item('fungi', ItemCategory.MINERAL, ItemRarity.COMMON, '#d2aa99'),
+  item('granite', ItemCategory.MINERAL, ItemRarity.COMMON, '#8595a1'),
+  item('copper_ore', ItemCategory.MINERAL, ItemRarity.UNCOMMON, '#eb8931'),
+  item('obsidian', ItemCategory.MINERAL, ItemRarity.RARE, '#30346d'),
+  item('ice', ItemCategory.MINERAL, ItemRarity.COMMON, '#b2dcef'),
+  item('packed_ice', ItemCategory.MINERAL, ItemRarity.COMMON, '#6dc2ca'),
+  item('silver_ore', ItemCategory.MINERAL, ItemRarity.UNCOMMON, '#deeed6'),
+  item('tungsten', ItemCategory.MINERAL, ItemRarity.RARE, '#5a6988'),
+  item('gravel', ItemCategory.MINERAL, ItemRarity.COMMON, '#9d9d9d'),
+  item('stone', ItemCategory.MINERAL, ItemRarity.COMMON, '#9d9d9d'),
+  item('iron', ItemCategory.MINERAL, ItemRarity.UNCOMMON, '#8595a1'),
+  item('salt', ItemCategory.MINERAL, ItemRarity.COMMON, '#ffffff'),
+  item('resin', ItemCategory.MINERAL, ItemRarity.COMMON, '#f7b733'),
+
+  // Rare stones
+  item('black_pearl', ItemCategory.RARE_STONE, ItemRarity.LEGENDARY, '#342a34'),
+  item('prismarine', ItemCategory.RARE_STONE, ItemRarity.RARE, '#6dc2ca'),
+  item('sapphire', ItemCategory.RARE_STONE, ItemRarity.RARE, '#005784'),
+  item('freshwater_pearl', ItemCategory.RARE_STONE, ItemRarity.UNCOMMON, '#deeed6'),
+  item('lapis_lazuli', ItemCategory.RARE_STONE, ItemRarity.UNCOMMON, '#30346d'),
+  item('topaz', ItemCategory.RARE_STONE, ItemRarity.RARE, '#eb8931'),
+  item('desert_rose', ItemCategory.RARE_STONE, ItemRarity.UNCOMMON, '#e8b796'),
+  item('jasper', ItemCategory.RARE_STONE, ItemRarity.UNCOMMON, '#be2633'),
+  item('sunstone', ItemCategory.RARE_STONE, ItemRarity.RARE, '#f7e26b'),
+  item('agate', ItemCategory.RARE_STONE, ItemRarity.UNCOMMON, '#b55088'),
+  item('amethyst', ItemCategory.RARE_STONE, ItemRarity.RARE, '#68386c'),
+  item('citrine', ItemCategory.RARE_STONE, ItemRarity.UNCOMMON, '#dad45e'),
+  item('emerald', ItemCategory.RARE_STONE, ItemRarity.RARE, '#44891a'),
+  item('amber', ItemCategory.RARE_STONE, ItemRarity.UNCOMMON, '#eb8931'),
+  item('jade', ItemCategory.RARE_STONE, ItemRarity.RARE, '#6daa2c'),
+  item('moss_agate', ItemCategory.RARE_STONE, ItemRarity.UNCOMMON, '#a3ce27'),
+  item('ruby', ItemCategory.RARE_STONE, ItemRarity.RARE, '#be2633'),
+  item('gold_nugget', ItemCategory.RARE_STONE, ItemRarity.RARE, '#f7e26b'),
+  item('garnet', ItemCategory.RARE_STONE, ItemRarity.UNCOMMON, '#68386c'),
+  item('malachite', ItemCategory.RARE_STONE, ItemRarity.UNCOMMON, '#2d6e32'),
+  item('diamond', ItemCategory.RARE_STONE, ItemRarity.LEGENDARY, '#b2dcef'),
+  item('opal', ItemCategory.RARE_STONE, ItemRarity.RARE, '#deeed6'),
+  item('moonstone', ItemCategory.RARE_STONE, ItemRarity.RARE, '#8b9bb4'),
+  item('celestite', ItemCategory.RARE_STONE, ItemRarity.RARE, '#31a2f2'),
+  item('geode', ItemCategory.RARE_STONE, ItemRarity.UNCOMMON, '#9d9d9d'),
+  item('quartz', ItemCategory.RARE_STONE, ItemRarity.UNCOMMON, '#ffffff'),
+  item('turquoise', ItemCategory.RARE_STONE, ItemRarity.RARE, '#31a2f2'),
+
+  // Vegetation
+  item('kelp', ItemCategory.VEGETATION, ItemRarity.COMMON, '#2d6e32'),
+  item('tube_coral', ItemCategory.VEGETATION, ItemRarity.UNCOMMON, '#31a2f2'),
+  item('brain_coral', ItemCategory.VEGETATION, ItemRarity.UNCOMMON, '#e06f8b'),
+  item('bubble_coral', ItemCategory.VEGETATION, ItemRarity.UNCOMMON, '#b55088'),
+  item('seagrass', ItemCategory.VEGETATION, ItemRarity.COMMON, '#44891a'),
+  item('water_lily', ItemCategory.VEGETATION, ItemRarity.UNCOMMON, '#6daa2c'),
+  item('sea_cucumber', ItemCategory.VEGETATION, ItemRarity.COMMON, '#854c30'),
+  item('cactus', ItemCategory.VEGETATION, ItemRarity.COMMON, '#44891a'),
+  item('dead_bush', ItemCategory.VEGETATION, ItemRarity.COMMON, '#a46422'),
+  item('acacia', ItemCategory.VEGETATION, ItemRarity.COMMON, '#a3ce27'),
+  item('grass', ItemCategory.VEGETATION, ItemRarity.COMMON, '#6daa2c'),
+  item('dandelion', ItemCategory.VEGETATION, ItemRarity.COMMON, '#f7e26b'),
+  item('poppy', ItemCategory.VEGETATION, ItemRarity.COMMON, '#be2633'),
+  item('wheat', ItemCategory.VEGETATION, ItemRarity.COMMON, '#dad45e'),
+  item('carrot', ItemCategory.VEGETATION, ItemRarity.COMMON, '#eb8931'),
+  item('potato', ItemCategory.VEGETATION, ItemRarity.COMMON, '#c28569'),
+  item('pumpkin', ItemCategory.VEGETATION, ItemRarity.COMMON, '#eb8931'),
+  item('watermelon', ItemCategory.VEGETATION, ItemRarity.COMMON, '#44891a'),
+  item('oak', ItemCategory.VEGETATION, ItemRarity.COMMON, '#3e8948'),
+  item('birch', ItemCategory.VEGETATION, ItemRarity.COMMON, '#a3ce27'),
+  item('cherry', ItemCategory.VEGETATION, ItemRarity.UNCOMMON, '#f6757a'),
+  item('mangrove', ItemCategory.VEGETATION, ItemRarity.COMMON, '#2d6e32'),
+  item('bamboo', ItemCategory.VEGETATION, ItemRarity.COMMON, '#a3ce27'),
+  item('cocoa', ItemCategory.VEGETATION, ItemRarity.UNCOMMON, '#854c30'),
+  item('berries', ItemCategory.VEGETATION, ItemRarity.COMMON, '#be2633'),
+  item('pine', ItemCategory.VEGETATION, ItemRarity.COMMON, '#2d6e32'),
+  item('glowing_lichen', ItemCategory.VEGETATION, ItemRarity.UNCOMMON, '#6dc2ca'),
+  item('spore_flower', ItemCategory.VEGETATION, ItemRarity.UNCOMMON, '#b55088'),
+  item('glow_berries', ItemCategory.VEGETATION, ItemRarity.UNCOMMON, '#f7e26b'),
+  item('roots', ItemCategory.VEGETATION, ItemRarity.COMMON, '#854c30'),
+  item('mushroom', ItemCategory.VEGETATION, ItemRarity.COMMON, '#be2633'),
+  item('lichen', ItemCategory.VEGETATION, ItemRarity.COMMON, '#8b9bb4'),
+  item('date_palm', ItemCategory.VEGETATION, ItemRarity.UNCOMMON, '#a46422'),
+  item('papyrus', ItemCategory.VEGETATION, ItemRarity.COMMON, '#a3ce27'),
+  item('reed', ItemCategory.VEGETATION, ItemRarity.COMMON, '#6daa2c'),
+  item('mahogany', ItemCategory.VEGETATION, ItemRarity.UNCOMMON, '#743f39'),
+  item('bromeliad', ItemCategory.VEGETATION, ItemRarity.COMMON, '#e06f8b'),
+  item('acai', ItemCategory.VEGETATION, ItemRarity.COMMON, '#68386c'),
+  item('fir', ItemCategory.VEGETATION, ItemRarity.COMMON, '#2f484e'),
+  item('blueberry', ItemCategory.VEGETATION, ItemRarity.COMMON, '#30346d'),
+
+  // Materials
+  item('wood', ItemCategory.MATERIAL, ItemRarity.COMMON, '#854c30', 'log'),
+  item('plank', ItemCategory.MATERIAL, ItemRarity.COMMON, '#c28569', 'plank'),
+  item('iron_bar', ItemCategory.MATERIAL, ItemRarity.COMMON, '#8595a1'),
+
+  // Tools
+  item('pickaxe', ItemCategory.TOOL, ItemRarity.COMMON, '#8595a1', 'pickaxe'),
+  item('axe', ItemCategory.TOOL, ItemRarity.COMMON, '#8595a1', 'axe'),
+  item('fishing_rod', ItemCategory.TOOL, ItemRarity.COMMON, '#854c30', 'rod'),
+  item('wooden_sword', ItemCategory.TOOL, ItemRarity.COMMON, '#c28569', 'sword'),
+  item('iron_sword', ItemCategory.TOOL, ItemRarity.UNCOMMON, '#b2dcef', 'sword'),
+
+  // Placeables
+  placeable('workbench', ItemRarity.COMMON, ObjectType.WORKBENCH),
+  placeable('furnace', ItemRarity.COMMON, ObjectType.FURNACE),
+  placeable('house_small', ItemRarity.UNCOMMON, ObjectType.HOUSE_SMALL),
+];
+
 export const PLAYER_SPRITES: Record<string, PixelArtMatrix> = {
   DOWN_0: {
     width: 16, height: 16, palette: PALETTE_PLAYER,
@@ -539,4 +1514,237 @@ export const PLAYER_SPRITES: Record<string, PixelArtMatrix> = {
       0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,0,
     ]
   }
-};
\ No newline at end of file
+};
+
+// Villagers reuse the player's frames in their own clothes
+const PALETTE_VILLAGER = { ...PALETTE_PLAYER, 3: '#6b4226', 4: '#346524' };
+
+export const VILLAGER_SPRITES: Record<string, PixelArtMatrix> = Object.fromEntries(
+  Object.entries(PLAYER_SPRITES).map(([key, art]) => [key, { ...art, palette: PALETTE_VILLAGER }])
+);
+
+// --- Biomes ---
+// Built-in biome ids. Custom biomes loaded from JSON add their own.
+export const BIOME = {
+  DESERT: 'DESERT' as BiomeId,
+  SAVANNA: 'SAVANNA' as BiomeId,
+  GRASSLAND: 'GRASSLAND' as BiomeId,
+  RAINFOREST: 'RAINFOREST' as BiomeId,
+  TAIGA: 'TAIGA' as BiomeId,
+  TUNDRA: 'TUNDRA' as BiomeId,
+};
+
+// Rocks break up every biome's high ground
+const HIGHLAND_ROCKS = { object: ObjectType.ROCK_SMALL, chance: 0.05, terrains: [TileType.MOUNTAIN, TileType.STONE] };
+
+// Whittaker-style climate layout: temperature bands at 0.35 / 0.5 / 0.65,
+// moisture bands at 0.4 / 0.6. Base elevations: <0.3 deep, <0.4 water,
+// <0.45 coast, land above, >0.8 high ground.
+export const BIOME_DEFINITIONS: BiomeDefinition[] = [
+  {
+    id: BIOME.DESERT,
+    name: 'Desert',
+    climate: [{ minTemperature: 0.65, maxMoisture: 0.4 }],
+    terrain: [
+      { below: 0.3, terrain: TileType.WATER },
+      { below: 0.4, terrain: TileType.SAND }, // Coast
+      { below: 0.8, terrain: TileType.SAND },
+      { below: 0.88, terrain: TileType.STONE },
+      { terrain: TileType.MOUNTAIN },
+    ],
+    objects: [
+      { object: ObjectType.ROCK_SMALL, chance: 0.02, terrains: [TileType.SAND] },
+      HIGHLAND_ROCKS,
+    ],
+    resources: {
+      // Oases
+      [TileType.WATER]: {
+        animais: ['camel', 'desert_toad', 'heron'],
+        minerais: ['clay', 'salt'],
+        pedras_raras: ['turquoise'],
+        vegetacao: ['date_palm', 'papyrus', 'reed']
+      },
+    },
+    weather: [{ weather: Weather.SANDSTORM, chance: 0.3 }, { weather: Weather.RAIN, chance: 0.05 }],
+    hostileByDay: ['scorpion'],
+  },
+  {
+    id: BIOME.SAVANNA,
+    name: 'Savanna',
+    climate: [
+      { minTemperature: 0.5, maxTemperature: 0.65, maxMoisture: 0.4 },
+      { minTemperature: 0.65, minMoisture: 0.4, maxMoisture: 0.6 },
+    ],
+    terrain: [
+      { below: 0.35, terrain: TileType.WATER },
+      { below: 0.45, terrain: TileType.SAND },
+      { below: 0.82, terrain: TileType.GRASS },
+      { below: 0.9, terrain: TileType.STONE },
+      { terrain: TileType.MOUNTAIN },
+    ],
+    objects: [
+      { object: ObjectType.ROCK_SMALL, chance: 0.02, terrains: [TileType.SAND] },
+      HIGHLAND_ROCKS,
+    ],
+    weather: [{ weather: Weather.RAIN, chance: 0.25 }, { weather: Weather.SANDSTORM, chance: 0.05 }],
+  },
+  {
+    id: BIOME.GRASSLAND,
+    name: 'Grassland',
+    climate: [
+      { minTemperature: 0.35, maxTemperature: 0.5, maxMoisture: 0.4 },
+      { minTemperature: 0.5, maxTemperature: 0.65, minMoisture: 0.4, maxMoisture: 0.6 },
+    ],
+    terrain: [
+      { below: 0.35, terrain: TileType.WATER },
+      { below: 0.4, terrain: TileType.SAND },
+      { below: 0.8, terrain: TileType.GRASS },
+      { below: 0.88, terrain: TileType.DIRT },
+      { terrain: TileType.MOUNTAIN },
+    ],
+    objects: [
+      { object: ObjectType.TREE_OAK, chance: 0.02, terrains: [TileType.GRASS] },
+      { object: ObjectType.FLOWER_BLUE, chance: 0.08, terrains: [TileType.GRASS] },
+      HIGHLAND_ROCKS,
+    ],
+  },
+  {
+    id: BIOME.RAINFOREST,
+    name: 'Rainforest',
+    climate: [{ minTemperature: 0.5, minMoisture: 0.6 }],
+    terrain: [
+      { below: 0.3, terrain: TileType.DEEP_WATER },
+      { below: 0.4, terrain: TileType.WATER },
+      { below: 0.45, terrain: TileType.SAND },
+      { below: 0.75, terrain: TileType.FOREST }, // Dense forest
+      { below: 0.88, terrain: TileType.GRASS }, // Clearings
+      { terrain: TileType.MOUNTAIN },
+    ],
+    objects: [
+      { object: ObjectType.TREE_OAK, chance: 0.1, terrains: [TileType.FOREST] },
+      { object: ObjectType.FLOWER_RED, chance: 0.05, terrains: [TileType.FOREST] },
+      HIGHLAND_ROCKS,
+    ],
+    resources: {
+      [TileType.FOREST]: {
+        animais: ['jaguar', 'macaw', 'monkey', 'toucan', 'sloth'],
+        minerais: ['iron_ore', 'fungi'],
+        pedras_raras: ['emerald', 'jade'],
+        vegetacao: ['mahogany', 'bromeliad', 'cocoa', 'acai', 'bamboo']
+      },
+    },
+    weather: [{ weather: Weather.RAIN, chance: 0.6 }],
+    hostileByDay: ['spider'],
+  },
+  {
+    id: BIOME.TAIGA,
+    name: 'Taiga',
+    climate: [
+      { maxTemperature: 0.35, minMoisture: 0.6 },
+      { minTemperature: 0.35, maxTemperature: 0.5, minMoisture: 0.4 },
+    ],
+    terrain: [
+      { below: 0.35, terrain: TileType.WATER },
+      { below: 0.45, terrain: TileType.DIRT },
+      { below: 0.75, terrain: TileType.FOREST },
+      { below: 0.85, terrain: TileType.SNOW }, // High taiga
+      { terrain: TileType.MOUNTAIN },
+    ],
+    objects: [
+      { object: ObjectType.TREE_OAK, chance: 0.08, terrains: [TileType.FOREST] }, // Should be pine, using oak placeholder
+      HIGHLAND_ROCKS,
+    ],
+    resources: {
+      [TileType.FOREST]: {
+        animais: ['moose', 'lynx', 'wolf', 'brown_bear'],
+        minerais: ['iron_ore', 'resin'],
+        pedras_raras: ['amber'],
+        vegetacao: ['pine', 'fir', 'blueberry', 'mushroom']
+      },
+    },
+    weather: [{ weather: Weather.SNOW, chance: 0.4 }, { weather: Weather.RAIN, chance: 0.1 }],
+    hostileByDay: ['wolf'],
+  },
+  {
+    id: BIOME.TUNDRA,
+    name: 'Tundra',
+    climate: [{ maxTemperature: 0.35, maxMoisture: 0.6 }],
+    terrain: [
+      { below: 0.35, terrain: TileType.DEEP_WATER }, // Icy water
+      { below: 0.45, terrain: TileType.DIRT }, // Gravel/Permafrost
+      { below: 0.8, terrain: TileType.SNOW },
+      { terrain: TileType.MOUNTAIN },
+    ],
+    objects: [HIGHLAND_ROCKS],
+    weather: [{ weather: Weather.SNOW, chance: 0.5 }],
+  },
+];
+
+// --- Structure Templates ---
+// Each character in `rows` is looked up in `legend`; ' ' leaves the tile as generated.
+
+export const STRUCTURE_TEMPLATES: StructureTemplate[] = [
+  {
+    id: 'village',
+    name: 'Village',
+    biomes: [BIOME.GRASSLAND, BIOME.SAVANNA, BIOME.TAIGA],
+    terrains: [TileType.GRASS, TileType.DIRT, TileType.FOREST, TileType.SAND],
+    chance: 0.5,
+    settlement: true,
+    legend: {
+      '.': { object: null },
+      'd': { terrain: TileType.DIRT, object: null },
+      'H': { object: ObjectType.HOUSE_SMALL },
+      'f': { object: ObjectType.FLOWER_BLUE },
+    },
+    rows: [
+      ' ......... ',
+      '..H...H.H..',
+      '...........',
+      '.f.ddddd.f.',
+      '.H.ddddd.H.',
+      '...ddddd...',
+      '...ddddd...',
+      '.H.......H.',
+      '...........',
+      ' ..H...H.. ',
+    ]
+  },
+  {
+    id: 'ruin',
+    name: 'Stone Ruin',
+    biomes: [BIOME.DESERT, BIOME.SAVANNA, BIOME.GRASSLAND, BIOME.RAINFOREST],
+    terrains: [TileType.SAND, TileType.GRASS, TileType.FOREST, TileType.DIRT],
+    chance: 0.35,
+    legend: {
+      '#': { terrain: TileType.STONE, object: ObjectType.ROCK_SMALL },
+      ':': { terrain: TileType.STONE, object: null },
+      '.': { object: null },
+    },
+    rows: [
+      '##:#.##',
+      '#:::::#',
+      '#:::::.',
+      '..:::::',
+      '#:::::#',
+      '##:..##',
+    ]
+  },
+  {
+    id: 'cave',
+    name: 'Cave Mouth',
+    biomes: [BIOME.DESERT, BIOME.SAVANNA, BIOME.GRASSLAND, BIOME.RAINFOREST, BIOME.TAIGA, BIOME.TUNDRA],
+    terrains: [TileType.MOUNTAIN, TileType.STONE, TileType.SNOW],
+    chance: 0.6,
+    legend: {
+      'r': { terrain: TileType.STONE, object: ObjectType.ROCK_SMALL },
+      's': { terrain: TileType.STONE, object: null },
+      'C': { terrain: TileType.STONE, object: ObjectType.CAVE_ENTRANCE },
+    },
+    rows: [
+      'r s r',
+      'ssCss',
+      ' sss ',
+    ]
+  },
+];
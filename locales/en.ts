@@ -0,0 +1,365 @@
+// English catalog. It is also the fallback for anything another locale is
+// missing, and its message keys define MessageKey.
+export const en = {
+  messages: {
+    // App
+    'app.language': "Language",
+    'app.seed': "World Seed (128-bit Key)",
+    'app.generator': "Generator (New Worlds)",
+    'app.latest': "latest",
+    'app.loadWorld': "Load World",
+    'app.randomize': "Randomize",
+    'app.spriteEditor': "Sprite Editor",
+    'app.addSprite': "+ Add Sprite",
+    'app.importBiomes': "Import Biomes",
+    'app.importedBiomes': "Imported {count} biome(s): {names}. Saved worlds keep the biomes they were made with.",
+    'app.importFailed': "Failed to import biomes",
+    'app.importQuests': "Import Quests",
+    'app.importedQuests': "Imported {count} quest(s): {names}",
+    'app.importQuestsFailed': "Failed to import quests",
+    'app.selectSprite': "Select Sprite to Place",
+    'app.noSprites': "No sprites found. Use the Sprite Editor to create one!",
+    'app.solid': "[SOLID]",
+    'app.portal': "[PORTAL]",
+    'app.dialogue': "[DIALOGUE]",
+    'app.creative': "Creative Mode (free building)",
+    'app.peaceful': "Peaceful Mode (no hostile creatures)",
+
+    // Sprite editor
+    'editor.library': "Library",
+    'editor.newSprite': "+ New Sprite",
+    'editor.noSprites': "No saved sprites",
+    'editor.defaultName': "My Sprite",
+    'editor.untitled': "New Sprite",
+    'editor.saved': "Sprite Saved!",
+    'editor.confirmDelete': "Are you sure?",
+    'editor.pencil': "Pencil",
+    'editor.eraser': "Eraser",
+    'editor.clear': "Clear All",
+    'editor.palette': "Palette",
+    'editor.color': "Color {index}",
+    'editor.properties': "Properties",
+    'editor.collision': "Solid Object (Collision)",
+    'editor.portal': "Is Portal (Teleport)",
+    'editor.targetSeed': "Target Seed",
+    'editor.seedPlaceholder': "Seed...",
+    'editor.targetX': "Target X",
+    'editor.targetY': "Target Y",
+    'editor.buildCost': "Build Cost",
+    'editor.free': "Free to place",
+    'editor.addCost': "+ Add Material",
+    'editor.dialogue': "Dialogue",
+    'editor.noDialogue': "Has nothing to say",
+    'editor.page': "Page {number}",
+    'editor.pageText': "What it says...",
+    'editor.choiceLabel': "Answer",
+    'editor.end': "End",
+    'editor.addPage': "+ Add Page",
+    'editor.addChoice': "+ Add Choice",
+    'editor.save': "Save Sprite",
+    'editor.close': "Close",
+
+    // Hotbar
+    'hotbar.title': "Hotbar",
+    'hotbar.hold': "Click to hold",
+    'hotbar.all': "ALL",
+    'hotbar.demolish': "Demolish",
+    'hotbar.gather': "Gather",
+    'placement.title': "Placement Mode",
+    'placement.help': "Use ARROWS to move cursor. ENTER to place. ESC to cancel.",
+    'placement.cancel': "Cancel",
+    'placement.cost': "Cost:",
+    'placement.creative': "Creative mode: placing is free",
+
+    // Demolish mode
+    'demolish.title': "Demolish Mode",
+    'demolish.help': "Use ARROWS to move cursor. ENTER to remove. ESC or X to cancel.",
+    'demolish.refund': "Removed objects return their build materials.",
+
+    // Inventory
+    'inventory.title': "Inventory ({size} Slots)",
+    'inventory.quantity': "Quantity: {count}/{max}",
+    'inventory.durability': "Durability: {value}",
+    'inventory.quality': "Quality: {value}",
+    'inventory.moveHint': "Select another slot to move",
+    'inventory.drop': "Drop Item",
+    'inventory.eat': "Eat",
+    'inventory.food': "Restores {food} hunger",
+    'inventory.empty': "Select an item to view or move",
+    'inventory.help': "Click item to select → Click target to move/swap/stack",
+    'inventory.crafting': "Crafting",
+
+    // Crafting
+    'crafting.craft': "Craft",
+    'crafting.needsStation': "Needs {station} nearby",
+
+    'category.ANIMAL': "Animal",
+    'category.MINERAL': "Mineral",
+    'category.RARE_STONE': "Rare Stone",
+    'category.VEGETATION': "Vegetation",
+    'category.MATERIAL': "Material",
+    'category.TOOL': "Tool",
+    'category.PLACEABLE': "Placeable",
+    'rarity.COMMON': "Common",
+    'rarity.UNCOMMON': "Uncommon",
+    'rarity.RARE': "Rare",
+    'rarity.LEGENDARY': "Legendary",
+
+    // HUD
+    'hud.explorer': "Explorer Data",
+    'hud.position': "POS:",
+    'hud.biome': "BIOME:",
+    'hud.spawnRadius': "SPAWN R:",
+    'hud.travel': "TRAVEL:",
+    'hud.area': "AREA:",
+    'hud.time': "TIME:",
+    'hud.clock': "Day {day}, {time}",
+    'hud.weather': "WEATHER:",
+    'hud.unknown': "Unknown",
+    'hud.available': "Available Here",
+    'hud.noResources': "No resources nearby",
+    'hud.help': "WASD to Move • Shift Run • '1-6' Hold • 'E' Gather • 'Q' Eat • 'R' Interact • Space Attack • 'F' Place • 'X' Demolish • 'I' Inventory • 'L' Quests",
+    'hud.health': "Health",
+    'hud.hunger': "Hunger",
+    'hud.stamina': "Stamina",
+
+    // Death
+    'death.title': "You Died",
+    'death.body': "Your items are safe. You'll wake up at the world's spawn point.",
+    'death.respawn': "Respawn",
+    'upgrade.title': "Older World Generator",
+    'upgrade.body': "This world was made with {version}. Upgrading regenerates the terrain, so placed objects may end up somewhere different.",
+    'upgrade.accept': "Upgrade to v{version}",
+    'upgrade.keep': "Keep v{version}",
+
+    // Dialogue box
+    'dialogue.next': "Next",
+    'dialogue.close': "Close",
+    'dialogue.read': "Read",
+
+    // Quest log
+    'quests.title': "Quest Log",
+    'quests.claim': "Claim",
+    'quests.completed': "Completed",
+    'quests.rewards': "Rewards:",
+    'quests.collect': "Collect {count} {item}",
+    'quests.reachBiome': "Reach the {biome}",
+    'quests.walk': "Walk {distance} tiles",
+    'quests.visit': "Go to {x}, {y}",
+    'quests.visitNamed': "Go to {name} ({x}, {y})",
+    'quests.visitVillage': "Deliver to the village at {x}, {y}",
+    'quests.usePortal': "Travel through a portal",
+
+    // Weather
+    'weather.CLEAR': "Clear",
+    'weather.RAIN': "Rain",
+    'weather.SNOW': "Snow",
+    'weather.SANDSTORM': "Sandstorm",
+
+    // Feedback toasts
+    'feedback.gained': "+{count} {item}",
+    'feedback.toolBroke': "{tool} broke!",
+    'feedback.dropped': "Dropped {item}",
+    'feedback.placed': "Placed {item}",
+    'feedback.stationTooFar': "Station too far away!",
+    'feedback.cantCraft': "Can't craft that: missing items or no room",
+    'feedback.holdPlaceable': "Hold something placeable first",
+    'feedback.cantPlace': "Can't place there",
+    'feedback.missingMaterials': "Missing materials: {items}",
+    'feedback.removed': "Removed {item}",
+    'feedback.nothingToRemove': "Nothing placed here.",
+    'feedback.nothingHere': "Nothing to gather here.",
+    'feedback.emptyTerrain': "Empty terrain.",
+    'feedback.needTool': "You need a tool here.",
+    'feedback.depleted': "Depleted. Come back later.",
+    'feedback.inventoryFull': "Inventory Full!",
+    'feedback.worldUpgraded': "World upgraded to generator v{version}",
+    'feedback.ate': "Ate {item} (+{food} hunger)",
+    'feedback.notFood': "You can't eat that",
+    'feedback.notHungry': "You're not hungry",
+    'feedback.tooTired': "Too tired. Rest a moment.",
+    'feedback.nobodyNearby': "Nothing close enough to interact with",
+    'feedback.tamed': "The {animal} trusts you now and will follow you",
+    'feedback.alreadyTamed': "Your {animal} is happy to see you",
+    'feedback.hunted': "Hunted a {animal}",
+    'feedback.hostile': "The {animal} is hostile! Fight it with Space",
+    'feedback.peaceful': "Peaceful mode is on: no fighting",
+    'feedback.defeated': "Defeated the {animal}",
+    'feedback.questReady': "Quest done: {quest}. Claim it in the quest log (L)",
+    'feedback.questClaimed': "Quest complete: {quest}",
+    'feedback.cantClaim': "Can't claim: items missing or no room for the reward",
+
+    // Villager talk
+    'npc.greeting': "Villager: Safe travels, stranger!",
+    'npc.weather': "Villager: Keep an eye on the sky, the weather turns quickly here.",
+    'npc.travel': "Villager: Follow the roads and you'll find more of us.",
+    'npc.wildlife': "Villager: Animals take to you if you offer them the right food.",
+  },
+
+  items: {
+    giant_squid: { name: "Giant Squid", description: "Huge tentacles from the depths." },
+    anglerfish: { name: "Anglerfish", description: "Deep-sea fish with a lantern on its head." },
+    whale: { name: "Whale", description: "The largest animal in the ocean." },
+    shark: { name: "Shark", description: "Predator of deep waters." },
+    jellyfish: { name: "Jellyfish", description: "See-through and stinging." },
+    salmon: { name: "Salmon", description: "River fish, pink and tasty." },
+    turtle: { name: "Turtle", description: "Swims slowly, lives long." },
+    otter: { name: "Otter", description: "Playful riverbank dweller." },
+    crocodile: { name: "Crocodile", description: "Lurks still in shallow water." },
+    camel: { name: "Camel", description: "Crosses the desert without drinking." },
+    scorpion: { name: "Scorpion", description: "Mind the stinger." },
+    rattlesnake: { name: "Rattlesnake", description: "Warns before it strikes." },
+    fennec_fox: { name: "Fennec Fox", description: "Big ears for the heat." },
+    vulture: { name: "Vulture", description: "Always watching the desert sky." },
+    horse: { name: "Horse", description: "Strong and fast on the plains." },
+    cow: { name: "Cow", description: "Grazes calmly in the field." },
+    rabbit: { name: "Rabbit", description: "Quick and skittish." },
+    sheep: { name: "Sheep", description: "Soft, warm wool." },
+    bison: { name: "Bison", description: "Heavy herds of the prairie." },
+    deer: { name: "Deer", description: "Silent among the trees." },
+    wolf: { name: "Wolf", description: "Hunts in packs." },
+    bear: { name: "Bear", description: "Master of the forest." },
+    squirrel: { name: "Squirrel", description: "Stores nuts for winter." },
+    owl: { name: "Owl", description: "Watches everything at night." },
+    mountain_goat: { name: "Mountain Goat", description: "Climbs cliffs effortlessly." },
+    eagle: { name: "Eagle", description: "Soars above the peaks." },
+    puma: { name: "Puma", description: "Lone cat of the highlands." },
+    llama: { name: "Llama", description: "Carries loads up high." },
+    yak: { name: "Yak", description: "Thick coat against the cold." },
+    polar_bear: { name: "Polar Bear", description: "White giant of the ice." },
+    penguin: { name: "Penguin", description: "Clumsy on land, nimble in water." },
+    arctic_fox: { name: "Arctic Fox", description: "Vanishes into the snow." },
+    walrus: { name: "Walrus", description: "Long tusks and lots of blubber." },
+    snow_leopard: { name: "Snow Leopard", description: "Ghost of the frozen mountains." },
+    mole: { name: "Mole", description: "Digs tunnels nonstop." },
+    earthworm: { name: "Earthworm", description: "Makes the soil fertile." },
+    bat: { name: "Bat", description: "Sleeps upside down." },
+    spider: { name: "Spider", description: "Spins webs among the rocks." },
+    desert_toad: { name: "Desert Toad", description: "Waits for rain underground." },
+    heron: { name: "Heron", description: "Fishes standing on one leg." },
+    jaguar: { name: "Jaguar", description: "Queen of the jungle." },
+    macaw: { name: "Macaw", description: "Feathers of every color." },
+    monkey: { name: "Monkey", description: "Swings from branch to branch." },
+    toucan: { name: "Toucan", description: "Huge, colorful beak." },
+    sloth: { name: "Sloth", description: "Never in a hurry." },
+    moose: { name: "Moose", description: "Antlers as wide as branches." },
+    lynx: { name: "Lynx", description: "Tufted ears, watchful eyes." },
+    brown_bear: { name: "Brown Bear", description: "Catches salmon in rivers." },
+    crude_oil: { name: "Crude Oil", description: "Black oil from the seabed." },
+    limestone: { name: "Limestone", description: "Pale, soft rock." },
+    manganese_nodules: { name: "Manganese Nodules", description: "Dark stones from the ocean floor." },
+    clay: { name: "Clay", description: "Moldable when wet." },
+    sand: { name: "Sand", description: "Fine, loose grains." },
+    silt: { name: "Silt", description: "Fine river mud." },
+    sandstone: { name: "Sandstone", description: "Sand turned to stone." },
+    saltpeter: { name: "Saltpeter", description: "Dry white crystals." },
+    silicon: { name: "Silicon", description: "Grayish metallic sheen." },
+    glass: { name: "Glass", description: "Sand fused by lightning." },
+    soil: { name: "Soil", description: "Plain dirt." },
+    peat: { name: "Peat", description: "Burns slowly." },
+    loam: { name: "Loam", description: "Fertile, balanced soil." },
+    coal: { name: "Coal", description: "Fuel for the furnace." },
+    charcoal: { name: "Charcoal", description: "Wood burned slowly." },
+    iron_ore: { name: "Iron Ore", description: "Smelts into bars in a furnace." },
+    fungi: { name: "Fungi", description: "Grow on the damp forest floor." },
+    granite: { name: "Granite", description: "Hard mountain rock." },
+    copper_ore: { name: "Copper Ore", description: "Orange veins in the rock." },
+    obsidian: { name: "Obsidian", description: "Sharp volcanic glass." },
+    ice: { name: "Ice", description: "Cold and slippery." },
+    packed_ice: { name: "Packed Ice", description: "Ice that never melts." },
+    silver_ore: { name: "Silver Ore", description: "Shiny veins under the snow." },
+    tungsten: { name: "Tungsten", description: "An extremely heavy metal." },
+    gravel: { name: "Gravel", description: "Loose pebbles." },
+    stone: { name: "Stone", description: "Raw stone for building." },
+    iron: { name: "Iron", description: "Native iron, almost pure." },
+    salt: { name: "Salt", description: "Preserves anything." },
+    resin: { name: "Resin", description: "Sticky pine sap." },
+    black_pearl: { name: "Black Pearl", description: "Legendary, hidden in the depths." },
+    prismarine: { name: "Prismarine", description: "Sea-green crystal from the deep." },
+    sapphire: { name: "Sapphire", description: "Blue as the ocean." },
+    freshwater_pearl: { name: "Freshwater Pearl", description: "Small and delicate." },
+    lapis_lazuli: { name: "Lapis Lazuli", description: "Deep blue with golden flecks." },
+    topaz: { name: "Topaz", description: "Golden as the sunset." },
+    desert_rose: { name: "Desert Rose", description: "Crystals shaped like petals." },
+    jasper: { name: "Jasper", description: "Opaque, reddish stone." },
+    sunstone: { name: "Sunstone", description: "Holds the glow of the sun." },
+    agate: { name: "Agate", description: "Colored bands inside." },
+    amethyst: { name: "Amethyst", description: "Translucent purple crystal." },
+    citrine: { name: "Citrine", description: "Yellow quartz." },
+    emerald: { name: "Emerald", description: "Green as the forest." },
+    amber: { name: "Amber", description: "Ancient hardened resin." },
+    jade: { name: "Jade", description: "Milky green and cool to the touch." },
+    moss_agate: { name: "Moss Agate", description: "Moss patterns trapped in stone." },
+    ruby: { name: "Ruby", description: "Intense red." },
+    gold_nugget: { name: "Gold Nugget", description: "Pure gold." },
+    garnet: { name: "Garnet", description: "Dark red like wine." },
+    malachite: { name: "Malachite", description: "Concentric green rings." },
+    diamond: { name: "Diamond", description: "The hardest stone there is." },
+    opal: { name: "Opal", description: "Changes color in the light." },
+    moonstone: { name: "Moonstone", description: "Bluish glow like moonlight." },
+    celestite: { name: "Celestite", description: "Crystalline sky blue." },
+    geode: { name: "Geode", description: "Ugly outside, crystals inside." },
+    quartz: { name: "Quartz", description: "Clear crystal common in caves." },
+    turquoise: { name: "Turquoise", description: "Blue-green of the oasis." },
+    kelp: { name: "Kelp", description: "Underwater forests." },
+    tube_coral: { name: "Tube Coral", description: "Blue tubes of the reef." },
+    brain_coral: { name: "Brain Coral", description: "Looks like a pink brain." },
+    bubble_coral: { name: "Bubble Coral", description: "Full of purple bubbles." },
+    seagrass: { name: "Seagrass", description: "Sways with the current." },
+    water_lily: { name: "Water Lily", description: "A giant floating leaf." },
+    sea_cucumber: { name: "Sea Cucumber", description: "Strange and squishy." },
+    cactus: { name: "Cactus", description: "Keeps water among its spines." },
+    dead_bush: { name: "Dead Bush", description: "Dry desert twigs." },
+    acacia: { name: "Acacia", description: "Tree with a flat crown." },
+    grass: { name: "Grass", description: "Just grass." },
+    dandelion: { name: "Dandelion", description: "One puff and it flies." },
+    poppy: { name: "Poppy", description: "Red flower of the fields." },
+    wheat: { name: "Wheat", description: "Becomes flour and bread." },
+    carrot: { name: "Carrot", description: "Crunchy and sweet." },
+    potato: { name: "Potato", description: "Feeds anyone." },
+    pumpkin: { name: "Pumpkin", description: "Big and orange." },
+    watermelon: { name: "Watermelon", description: "Refreshing in the heat." },
+    oak: { name: "Oak", description: "Oak leaves and acorns." },
+    birch: { name: "Birch", description: "Thin white bark." },
+    cherry: { name: "Cherry", description: "Pink blossoms in spring." },
+    mangrove: { name: "Mangrove", description: "Roots in the water." },
+    bamboo: { name: "Bamboo", description: "Grows fast and bends." },
+    cocoa: { name: "Cocoa", description: "Beans that become chocolate." },
+    berries: { name: "Berries", description: "Sweet and easy to find." },
+    pine: { name: "Pine", description: "Needles and cones." },
+    glowing_lichen: { name: "Glowing Lichen", description: "Glows faintly in the dark." },
+    spore_flower: { name: "Spore Flower", description: "Releases spores when touched." },
+    glow_berries: { name: "Glow Berries", description: "They light up and feed you." },
+    roots: { name: "Roots", description: "Fibrous and tough." },
+    mushroom: { name: "Mushroom", description: "Not every mushroom is edible." },
+    lichen: { name: "Lichen", description: "Grows slowly over stones." },
+    date_palm: { name: "Date Palm", description: "Sweet dates from the oasis." },
+    papyrus: { name: "Papyrus", description: "Reed for making paper." },
+    reed: { name: "Reed", description: "Grows along the banks." },
+    mahogany: { name: "Mahogany", description: "Fine jungle wood." },
+    bromeliad: { name: "Bromeliad", description: "Holds water in its center." },
+    acai: { name: "Açaí", description: "Purple palm fruit." },
+    fir: { name: "Fir", description: "Evergreen, even in snow." },
+    blueberry: { name: "Blueberry", description: "Small and bluish." },
+    wood: { name: "Wood", description: "A log chopped with an axe." },
+    plank: { name: "Plank", description: "Sawn wood for building." },
+    iron_bar: { name: "Iron Bar", description: "Iron smelted in a furnace." },
+    pickaxe: { name: "Pickaxe", description: "Breaks stones and ores." },
+    axe: { name: "Axe", description: "Fells trees." },
+    fishing_rod: { name: "Fishing Rod", description: "For fishing in water." },
+    wooden_sword: { name: "Wooden Sword", description: "A first weapon against the creatures of the night." },
+    iron_sword: { name: "Iron Sword", description: "Hits hard and lasts long." },
+    workbench: { name: "Workbench", description: "A table for making tools." },
+    furnace: { name: "Furnace", description: "Smelts ore into bars." },
+    house_small: { name: "Small House", description: "A shelter to call your own." },
+  } as Record<string, { name: string, description: string }>,
+
+  biomes: {
+    DESERT: "Desert",
+    SAVANNA: "Savanna",
+    GRASSLAND: "Grassland",
+    RAINFOREST: "Rainforest",
+    TAIGA: "Taiga",
+    TUNDRA: "Tundra",
+  } as Record<string, string>,
+};
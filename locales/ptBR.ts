@@ -0,0 +1,366 @@
+import type { LocaleCatalog } from '../services/i18n';
+
+// Item names here are also what saves stored as item ids before the item registry
+export const ptBR: LocaleCatalog = {
+  messages: {
+    // App
+    'app.language': "Idioma",
+    'app.seed': "Semente do Mundo (Chave de 128 bits)",
+    'app.generator': "Gerador (Mundos Novos)",
+    'app.latest': "mais recente",
+    'app.loadWorld': "Carregar Mundo",
+    'app.randomize': "Aleatório",
+    'app.spriteEditor': "Editor de Sprites",
+    'app.addSprite': "+ Colocar Sprite",
+    'app.importBiomes': "Importar Biomas",
+    'app.importedBiomes': "{count} bioma(s) importado(s): {names}. Mundos salvos mantêm os biomas com que foram criados.",
+    'app.importFailed': "Falha ao importar biomas",
+    'app.importQuests': "Importar Missões",
+    'app.importedQuests': "{count} missão(ões) importada(s): {names}",
+    'app.importQuestsFailed': "Falha ao importar missões",
+    'app.selectSprite': "Escolha o Sprite para Colocar",
+    'app.noSprites': "Nenhum sprite encontrado. Crie um no Editor de Sprites!",
+    'app.solid': "[SÓLIDO]",
+    'app.portal': "[PORTAL]",
+    'app.dialogue': "[DIÁLOGO]",
+    'app.creative': "Modo Criativo (construção grátis)",
+    'app.peaceful': "Modo Pacífico (sem criaturas hostis)",
+
+    // Sprite editor
+    'editor.library': "Biblioteca",
+    'editor.newSprite': "+ Novo Sprite",
+    'editor.noSprites': "Nenhum sprite salvo",
+    'editor.defaultName': "Meu Sprite",
+    'editor.untitled': "Novo Sprite",
+    'editor.saved': "Sprite salvo!",
+    'editor.confirmDelete': "Tem certeza?",
+    'editor.pencil': "Lápis",
+    'editor.eraser': "Borracha",
+    'editor.clear': "Limpar Tudo",
+    'editor.palette': "Paleta",
+    'editor.color': "Cor {index}",
+    'editor.properties': "Propriedades",
+    'editor.collision': "Objeto Sólido (Colisão)",
+    'editor.portal': "É Portal (Teletransporte)",
+    'editor.targetSeed': "Semente de Destino",
+    'editor.seedPlaceholder': "Semente...",
+    'editor.targetX': "Destino X",
+    'editor.targetY': "Destino Y",
+    'editor.buildCost': "Custo de Construção",
+    'editor.free': "Grátis para colocar",
+    'editor.addCost': "+ Material",
+    'editor.dialogue': "Diálogo",
+    'editor.noDialogue': "Não tem nada a dizer",
+    'editor.page': "Página {number}",
+    'editor.pageText': "O que ele diz...",
+    'editor.choiceLabel': "Resposta",
+    'editor.end': "Fim",
+    'editor.addPage': "+ Página",
+    'editor.addChoice': "+ Escolha",
+    'editor.save': "Salvar Sprite",
+    'editor.close': "Fechar",
+
+    // Hotbar
+    'hotbar.title': "Atalhos",
+    'hotbar.hold': "Clique para segurar",
+    'hotbar.all': "TUDO",
+    'hotbar.demolish': "Demolir",
+    'hotbar.gather': "Coletar",
+    'placement.title': "Modo de Posicionamento",
+    'placement.help': "Use as SETAS para mover o cursor. ENTER para colocar. ESC para cancelar.",
+    'placement.cancel': "Cancelar",
+    'placement.cost': "Custo:",
+    'placement.creative': "Modo criativo: colocar é grátis",
+
+    // Modo de demolição
+    'demolish.title': "Modo de Demolição",
+    'demolish.help': "Use as SETAS para mover o cursor. ENTER para remover. ESC ou X para cancelar.",
+    'demolish.refund': "Objetos removidos devolvem seus materiais.",
+
+    // Inventory
+    'inventory.title': "Inventário ({size} Espaços)",
+    'inventory.quantity': "Quantidade: {count}/{max}",
+    'inventory.durability': "Durabilidade: {value}",
+    'inventory.quality': "Qualidade: {value}",
+    'inventory.moveHint': "Escolha outro espaço para mover",
+    'inventory.drop': "Descartar",
+    'inventory.eat': "Comer",
+    'inventory.food': "Recupera {food} de fome",
+    'inventory.empty': "Escolha um item para ver ou mover",
+    'inventory.help': "Clique no item para escolher → Clique no destino para mover/trocar/empilhar",
+    'inventory.crafting': "Fabricação",
+
+    // Crafting
+    'crafting.craft': "Fabricar",
+    'crafting.needsStation': "Precisa de {station} por perto",
+
+    'category.ANIMAL': "Animal",
+    'category.MINERAL': "Mineral",
+    'category.RARE_STONE': "Pedra Rara",
+    'category.VEGETATION': "Vegetação",
+    'category.MATERIAL': "Material",
+    'category.TOOL': "Ferramenta",
+    'category.PLACEABLE': "Construção",
+    'rarity.COMMON': "Comum",
+    'rarity.UNCOMMON': "Incomum",
+    'rarity.RARE': "Raro",
+    'rarity.LEGENDARY': "Lendário",
+
+    // HUD
+    'hud.explorer': "Dados do Explorador",
+    'hud.position': "POS:",
+    'hud.biome': "BIOMA:",
+    'hud.spawnRadius': "RAIO:",
+    'hud.travel': "VIAGEM:",
+    'hud.area': "ÁREA:",
+    'hud.time': "HORA:",
+    'hud.clock': "Dia {day}, {time}",
+    'hud.weather': "CLIMA:",
+    'hud.unknown': "Desconhecido",
+    'hud.available': "Disponível Aqui",
+    'hud.noResources': "Nenhum recurso por perto",
+    'hud.help': "WASD para Andar • Shift Correr • '1-6' Segurar • 'E' Coletar • 'Q' Comer • 'R' Interagir • Espaço Atacar • 'F' Colocar • 'X' Demolir • 'I' Inventário • 'L' Missões",
+    'hud.health': "Vida",
+    'hud.hunger': "Fome",
+    'hud.stamina': "Energia",
+
+    // Morte
+    'death.title': "Você Morreu",
+    'death.body': "Seus itens estão seguros. Você vai acordar no ponto de origem do mundo.",
+    'death.respawn': "Renascer",
+    'upgrade.title': "Gerador de Mundo Antigo",
+    'upgrade.body': "Este mundo foi criado com o gerador {version}. Atualizar gera o terreno de novo, então objetos colocados podem ficar em outro lugar.",
+    'upgrade.accept': "Atualizar para v{version}",
+    'upgrade.keep': "Manter v{version}",
+
+    // Caixa de diálogo
+    'dialogue.next': "Próximo",
+    'dialogue.close': "Fechar",
+    'dialogue.read': "Lido",
+
+    // Diário de missões
+    'quests.title': "Diário de Missões",
+    'quests.claim': "Receber",
+    'quests.completed': "Concluída",
+    'quests.rewards': "Recompensas:",
+    'quests.collect': "Colete {count} {item}",
+    'quests.reachBiome': "Chegue a: {biome}",
+    'quests.walk': "Caminhe {distance} blocos",
+    'quests.visit': "Vá até {x}, {y}",
+    'quests.visitNamed': "Vá até {name} ({x}, {y})",
+    'quests.visitVillage': "Entregue na vila em {x}, {y}",
+    'quests.usePortal': "Atravesse um portal",
+
+    // Clima
+    'weather.CLEAR': "Céu limpo",
+    'weather.RAIN': "Chuva",
+    'weather.SNOW': "Neve",
+    'weather.SANDSTORM': "Tempestade de areia",
+
+    // Feedback toasts
+    'feedback.gained': "+{count} {item}",
+    'feedback.toolBroke': "{tool} quebrou!",
+    'feedback.dropped': "{item} descartado",
+    'feedback.placed': "{item} colocado",
+    'feedback.stationTooFar': "Estação longe demais!",
+    'feedback.cantCraft': "Não dá para fabricar: faltam itens ou espaço",
+    'feedback.holdPlaceable': "Segure algo que possa ser colocado",
+    'feedback.cantPlace': "Não dá para colocar aí",
+    'feedback.removed': "{item} removido",
+    'feedback.nothingToRemove': "Nada colocado aqui.",
+    'feedback.missingMaterials': "Faltam materiais: {items}",
+    'feedback.nothingHere': "Nada para coletar aqui.",
+    'feedback.emptyTerrain': "Terreno vazio.",
+    'feedback.needTool': "Você precisa de uma ferramenta aqui.",
+    'feedback.depleted': "Esgotado. Volte mais tarde.",
+    'feedback.inventoryFull': "Inventário cheio!",
+    'feedback.worldUpgraded': "Mundo atualizado para o gerador v{version}",
+    'feedback.ate': "Comeu {item} (+{food} de fome)",
+    'feedback.notFood': "Isso não dá para comer",
+    'feedback.notHungry': "Você não está com fome",
+    'feedback.tooTired': "Cansado demais. Descanse um pouco.",
+    'feedback.nobodyNearby': "Nada perto o bastante para interagir",
+    'feedback.tamed': "{animal} agora confia em você e vai te seguir",
+    'feedback.alreadyTamed': "Seu {animal} está feliz em te ver",
+    'feedback.hunted': "Caçou: {animal}",
+    'feedback.hostile': "{animal} é hostil! Lute com Espaço",
+    'feedback.peaceful': "Modo pacífico ativado: sem combate",
+    'feedback.defeated': "Derrotou: {animal}",
+    'feedback.questReady': "Missão cumprida: {quest}. Receba a recompensa no diário (L)",
+    'feedback.questClaimed': "Missão concluída: {quest}",
+    'feedback.cantClaim': "Não dá para receber: faltam itens ou não há espaço para a recompensa",
+
+    // Conversa com aldeões
+    'npc.greeting': "Aldeão: Boa viagem, forasteiro!",
+    'npc.weather': "Aldeão: Fique de olho no céu, o tempo muda rápido por aqui.",
+    'npc.travel': "Aldeão: Siga as estradas e você vai encontrar mais de nós.",
+    'npc.wildlife': "Aldeão: Os animais se aproximam se você oferecer a comida certa.",
+  },
+
+  items: {
+    giant_squid: { name: "Lula Gigante", description: "Tentáculos enormes vindos das profundezas." },
+    anglerfish: { name: "Peixe-Diabo", description: "Peixe abissal com uma lanterna na testa." },
+    whale: { name: "Baleia", description: "O maior animal do oceano." },
+    shark: { name: "Tubarão", description: "Predador de águas profundas." },
+    jellyfish: { name: "Água-viva", description: "Transparente e urticante." },
+    salmon: { name: "Salmão", description: "Peixe de rio, rosado e saboroso." },
+    turtle: { name: "Tartaruga", description: "Nada devagar, vive muito." },
+    otter: { name: "Lontra", description: "Brincalhona das margens dos rios." },
+    crocodile: { name: "Crocodilo", description: "Espreita parado na água rasa." },
+    camel: { name: "Camelo", description: "Atravessa o deserto sem beber." },
+    scorpion: { name: "Escorpião", description: "Cuidado com o ferrão." },
+    rattlesnake: { name: "Cascavel", description: "Avisa antes de atacar." },
+    fennec_fox: { name: "Raposa-do-deserto", description: "Orelhas grandes para o calor." },
+    vulture: { name: "Abutre", description: "Sempre de olho no céu do deserto." },
+    horse: { name: "Cavalo", description: "Forte e veloz nas planícies." },
+    cow: { name: "Vaca", description: "Pasta tranquila no campo." },
+    rabbit: { name: "Coelho", description: "Rápido e assustado." },
+    sheep: { name: "Ovelha", description: "Lã macia e quente." },
+    bison: { name: "Bisão", description: "Manadas pesadas das pradarias." },
+    deer: { name: "Cervo", description: "Silencioso entre as árvores." },
+    wolf: { name: "Lobo", description: "Caça em matilha." },
+    bear: { name: "Urso", description: "Dono da floresta." },
+    squirrel: { name: "Esquilo", description: "Guarda nozes para o inverno." },
+    owl: { name: "Coruja", description: "Observa tudo à noite." },
+    mountain_goat: { name: "Cabra da Montanha", description: "Escala paredões sem esforço." },
+    eagle: { name: "Águia", description: "Voa acima dos picos." },
+    puma: { name: "Puma", description: "Felino solitário das serras." },
+    llama: { name: "Lhama", description: "Carrega peso nas alturas." },
+    yak: { name: "Iaque", description: "Pelagem grossa contra o frio." },
+    polar_bear: { name: "Urso Polar", description: "Gigante branco do gelo." },
+    penguin: { name: "Pinguim", description: "Desajeitado em terra, ágil na água." },
+    arctic_fox: { name: "Raposa-do-ártico", description: "Some na neve." },
+    walrus: { name: "Morsa", description: "Presas longas e muita gordura." },
+    snow_leopard: { name: "Leopardo-das-neves", description: "Fantasma das montanhas geladas." },
+    mole: { name: "Toupeira", description: "Cava túneis sem parar." },
+    earthworm: { name: "Minhoca", description: "Deixa a terra fértil." },
+    bat: { name: "Morcego", description: "Dorme de cabeça para baixo." },
+    spider: { name: "Aranha", description: "Tece teias nas pedras." },
+    desert_toad: { name: "Sapo-do-deserto", description: "Espera a chuva enterrado." },
+    heron: { name: "Garça", description: "Pesca parada em uma perna só." },
+    jaguar: { name: "Onça-pintada", description: "Rainha da selva." },
+    macaw: { name: "Arara", description: "Penas de todas as cores." },
+    monkey: { name: "Macaco", description: "Pula de galho em galho." },
+    toucan: { name: "Tucano", description: "Bico enorme e colorido." },
+    sloth: { name: "Preguiça", description: "Nunca tem pressa." },
+    moose: { name: "Alce", description: "Chifres largos como galhos." },
+    lynx: { name: "Lince", description: "Orelhas com tufos, olhar atento." },
+    brown_bear: { name: "Urso-pardo", description: "Pesca salmão nos rios." },
+    crude_oil: { name: "Petróleo", description: "Óleo negro do fundo do mar." },
+    limestone: { name: "Calcário", description: "Rocha clara e macia." },
+    manganese_nodules: { name: "Nódulos de Manganês", description: "Pedras escuras do leito oceânico." },
+    clay: { name: "Argila", description: "Moldável quando molhada." },
+    sand: { name: "Areia", description: "Grãos finos e soltos." },
+    silt: { name: "Silte", description: "Lodo fino dos rios." },
+    sandstone: { name: "Arenito", description: "Areia que virou pedra." },
+    saltpeter: { name: "Salitre", description: "Cristais brancos e secos." },
+    silicon: { name: "Silício", description: "Brilho metálico acinzentado." },
+    glass: { name: "Vidro", description: "Areia fundida por raios." },
+    soil: { name: "Terra", description: "Terra comum." },
+    peat: { name: "Turfa", description: "Queima devagar." },
+    loam: { name: "Franco", description: "Solo fértil e equilibrado." },
+    coal: { name: "Carvão", description: "Combustível para a fornalha." },
+    charcoal: { name: "Carvão Vegetal", description: "Madeira queimada devagar." },
+    iron_ore: { name: "Minério de Ferro", description: "Fundido na fornalha vira barra." },
+    fungi: { name: "Fungos", description: "Crescem no chão úmido da mata." },
+    granite: { name: "Granito", description: "Rocha dura das montanhas." },
+    copper_ore: { name: "Minério de Cobre", description: "Veios alaranjados na rocha." },
+    obsidian: { name: "Obsidiana", description: "Vidro vulcânico afiado." },
+    ice: { name: "Gelo", description: "Frio e escorregadio." },
+    packed_ice: { name: "Gelo Compactado", description: "Gelo que nunca derrete." },
+    silver_ore: { name: "Minério de Prata", description: "Veios brilhantes sob a neve." },
+    tungsten: { name: "Tungstênio", description: "Metal pesadíssimo." },
+    gravel: { name: "Pedregulho", description: "Pedrinhas soltas." },
+    stone: { name: "Pedra", description: "Pedra bruta para construir." },
+    iron: { name: "Ferro", description: "Ferro nativo, quase puro." },
+    salt: { name: "Sal", description: "Conserva qualquer coisa." },
+    resin: { name: "Resina", description: "Seiva pegajosa dos pinheiros." },
+    black_pearl: { name: "Pérola Negra", description: "Lendária, escondida nas profundezas." },
+    prismarine: { name: "Prismarinho", description: "Cristal verde-água do mar profundo." },
+    sapphire: { name: "Safira", description: "Azul como o oceano." },
+    freshwater_pearl: { name: "Pérola de Água Doce", description: "Pequena e delicada." },
+    lapis_lazuli: { name: "Lápis-lazúli", description: "Azul profundo com pontos dourados." },
+    topaz: { name: "Topázio", description: "Dourado como o pôr do sol." },
+    desert_rose: { name: "Rosa do Deserto", description: "Cristais em forma de pétalas." },
+    jasper: { name: "Jaspe", description: "Pedra opaca e avermelhada." },
+    sunstone: { name: "Pedra do Sol", description: "Guarda o brilho do sol." },
+    agate: { name: "Ágata", description: "Faixas coloridas por dentro." },
+    amethyst: { name: "Ametista", description: "Cristal roxo e translúcido." },
+    citrine: { name: "Citrino", description: "Quartzo amarelo." },
+    emerald: { name: "Esmeralda", description: "Verde como a floresta." },
+    amber: { name: "Âmbar", description: "Resina antiga endurecida." },
+    jade: { name: "Jade", description: "Verde leitoso e frio ao toque." },
+    moss_agate: { name: "Ágata Musgo", description: "Desenhos de musgo presos na pedra." },
+    ruby: { name: "Rubi", description: "Vermelho intenso." },
+    gold_nugget: { name: "Pepita de Ouro", description: "Ouro puro." },
+    garnet: { name: "Granada", description: "Vermelho escuro como vinho." },
+    malachite: { name: "Malaquita", description: "Anéis verdes concêntricos." },
+    diamond: { name: "Diamante", description: "A pedra mais dura que existe." },
+    opal: { name: "Opala", description: "Muda de cor com a luz." },
+    moonstone: { name: "Pedra da Lua", description: "Brilho azulado como o luar." },
+    celestite: { name: "Celestita", description: "Azul-céu cristalino." },
+    geode: { name: "Geodo", description: "Feio por fora, cristais por dentro." },
+    quartz: { name: "Quartzo", description: "Cristal transparente comum nas cavernas." },
+    turquoise: { name: "Turquesa", description: "Azul-esverdeado do oásis." },
+    kelp: { name: "Algas (Kelp)", description: "Florestas submarinas." },
+    tube_coral: { name: "Coral de Tubo", description: "Tubos azuis do recife." },
+    brain_coral: { name: "Coral de Cérebro", description: "Parece um cérebro rosado." },
+    bubble_coral: { name: "Coral de Bolha", description: "Cheio de bolhas roxas." },
+    seagrass: { name: "Erva Marinha", description: "Balança com a correnteza." },
+    water_lily: { name: "Vitória-régia", description: "Folha gigante que flutua." },
+    sea_cucumber: { name: "Pepino do Mar", description: "Estranho e gelatinoso." },
+    cactus: { name: "Cacto", description: "Guarda água entre os espinhos." },
+    dead_bush: { name: "Arbusto Morto", description: "Galhos secos do deserto." },
+    acacia: { name: "Acácia", description: "Árvore de copa achatada." },
+    grass: { name: "Grama", description: "Só grama." },
+    dandelion: { name: "Dente-de-leão", description: "Um sopro e ele voa." },
+    poppy: { name: "Papoula", description: "Flor vermelha do campo." },
+    wheat: { name: "Trigo", description: "Vira farinha e pão." },
+    carrot: { name: "Cenoura", description: "Crocante e doce." },
+    potato: { name: "Batata", description: "Alimenta qualquer um." },
+    pumpkin: { name: "Abóbora", description: "Grande e alaranjada." },
+    watermelon: { name: "Melancia", description: "Refrescante no calor." },
+    oak: { name: "Carvalho", description: "Folhas e bolotas de carvalho." },
+    birch: { name: "Bétula", description: "Casca branca e fina." },
+    cherry: { name: "Cerejeira", description: "Flores rosadas na primavera." },
+    mangrove: { name: "Mangue", description: "Raízes dentro da água." },
+    bamboo: { name: "Bambu", description: "Cresce rápido e é flexível." },
+    cocoa: { name: "Cacau", description: "Sementes que viram chocolate." },
+    berries: { name: "Frutas Vermelhas", description: "Doces e fáceis de achar." },
+    pine: { name: "Pinheiro", description: "Agulhas e pinhas." },
+    glowing_lichen: { name: "Líquen Brilhante", description: "Brilha fraco no escuro." },
+    spore_flower: { name: "Flor de Esporo", description: "Solta esporos quando tocada." },
+    glow_berries: { name: "Bagas Brilhantes", description: "Iluminam e alimentam." },
+    roots: { name: "Raízes", description: "Fibrosas e resistentes." },
+    mushroom: { name: "Cogumelo", description: "Nem todo cogumelo é comestível." },
+    lichen: { name: "Líquen", description: "Cresce devagar sobre as pedras." },
+    date_palm: { name: "Tamareira", description: "Tâmaras doces do oásis." },
+    papyrus: { name: "Papiro", description: "Junco para fazer papel." },
+    reed: { name: "Junco", description: "Cresce nas margens." },
+    mahogany: { name: "Mogno", description: "Madeira nobre da selva." },
+    bromeliad: { name: "Bromélia", description: "Guarda água no centro." },
+    acai: { name: "Açaí", description: "Fruto roxo da palmeira." },
+    fir: { name: "Abeto", description: "Sempre verde, mesmo na neve." },
+    blueberry: { name: "Mirtilo", description: "Pequeno e azulado." },
+    wood: { name: "Madeira", description: "Tronco cortado com machado." },
+    plank: { name: "Tábua", description: "Madeira serrada para construir." },
+    iron_bar: { name: "Barra de Ferro", description: "Ferro fundido na fornalha." },
+    pickaxe: { name: "Picareta", description: "Quebra pedras e minérios." },
+    axe: { name: "Machado", description: "Derruba árvores." },
+    fishing_rod: { name: "Vara de Pesca", description: "Para pescar na água." },
+    wooden_sword: { name: "Espada de Madeira", description: "Uma primeira arma contra as criaturas da noite." },
+    iron_sword: { name: "Espada de Ferro", description: "Bate forte e dura muito." },
+    workbench: { name: "Bancada", description: "Mesa para fabricar ferramentas." },
+    furnace: { name: "Fornalha", description: "Funde minério em barras." },
+    house_small: { name: "Casa Pequena", description: "Um abrigo para chamar de seu." },
+  },
+
+  biomes: {
+    DESERT: "Deserto",
+    SAVANNA: "Savana",
+    GRASSLAND: "Pradaria",
+    RAINFOREST: "Floresta Tropical",
+    TAIGA: "Taiga",
+    TUNDRA: "Tundra",
+  },
+};
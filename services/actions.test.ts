@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { Direction, EntityBehavior, EntityKind, InventoryItem, Weather } from '../types';
+import { ActionContext, attack, drop, eat } from './actions';
+import { DialogueStates } from './dialogue';
+import { SpriteKind } from './ecs';
+import { itemName, t } from './i18n';
+import { RandomStreams } from './random';
+import { ResourceNodes } from './resourceNodes';
+import { Simulation } from './simulation';
+import { createVitals } from './survival';
+import { WorldGenerator } from './worldEngine';
+
+const context = (inventory: (InventoryItem | null)[], overrides: Partial<ActionContext> = {}): ActionContext => ({
+  world: new WorldGenerator('actions'),
+  sim: new Simulation(),
+  inventory,
+  selectedSlot: 0,
+  vitals: createVitals(),
+  now: 0,
+  tile: null,
+  weather: Weather.CLEAR,
+  nodes: new ResourceNodes('actions'),
+  random: new RandomStreams('actions'),
+  dialogues: new DialogueStates(),
+  ...overrides,
+});
+
+describe('eat', () => {
+  it('eats one of the stack and fills hunger', () => {
+    const result = eat(context([{ id: 'rabbit', count: 2 }], { vitals: { ...createVitals(), hunger: 50 } }), 0);
+
+    expect(result.inventory).toEqual([{ id: 'rabbit', count: 1 }]);
+    expect(result.vitals.hunger).toBeGreaterThan(50);
+  });
+
+  it('refuses what is not food, or when full', () => {
+    expect(eat(context([{ id: 'stone', count: 1 }]), 0)).toEqual({ feedback: t('feedback.notFood') });
+    expect(eat(context([{ id: 'rabbit', count: 1 }]), 0)).toEqual({ feedback: t('feedback.notHungry') });
+  });
+});
+
+describe('drop', () => {
+  it('throws away the whole stack', () => {
+    expect(drop(context([{ id: 'stone', count: 5 }, null]), 0).inventory).toEqual([null, null]);
+    expect(drop(context([null]), 0)).toEqual({});
+  });
+});
+
+describe('attack', () => {
+  // A wolf one blow from dying, right in front of the player (who faces down)
+  const wolfAhead = (sim: Simulation) =>
+    sim.entities.create({
+      position: { x: 0, y: 1 },
+      velocity: { dx: 0, dy: 0 },
+      facing: { direction: Direction.UP, moving: false },
+      sprite: { kind: SpriteKind.ICON, key: 'wolf' },
+      creature: { kind: EntityKind.ANIMAL, species: 'wolf', behavior: EntityBehavior.WANDER, tamed: false, target: null, idleUntil: Infinity },
+      health: { current: 1, max: 30 },
+    });
+
+  it('loots what it kills', () => {
+    const sim = new Simulation();
+    const wolf = wolfAhead(sim);
+    const result = attack(context([{ id: 'stone', count: 1 }, null, null], { sim }), false);
+
+    expect(sim.entities.has(wolf, 'creature')).toBe(false);
+    expect(result.inventory).toEqual([{ id: 'stone', count: 1 }, { id: 'wolf', count: 1 }, { id: 'berries', count: 1 }]);
+    expect(result.feedback).toBe(t('feedback.defeated', { animal: itemName('wolf') }));
+  });
+
+  it('says so when the loot does not fit', () => {
+    const sim = new Simulation();
+    wolfAhead(sim);
+    const result = attack(context([{ id: 'stone', count: 1 }], { sim }), false);
+
+    expect(result.inventory).toEqual([{ id: 'stone', count: 1 }]);
+    expect(result.feedback).toContain(t('feedback.defeated', { animal: itemName('wolf') }));
+    expect(result.feedback).toContain(t('feedback.inventoryFull'));
+  });
+});
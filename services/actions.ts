@@ -0,0 +1,329 @@
+import {
+  ATTACK_STAMINA, DIRECTION_OFFSETS, GATHER_HUNGER, GATHER_STAMINA, HARVESTABLE_OBJECTS, HOSTILE_CREATURES, HUNT_STAMINA,
+  INTERACT_RANGE, MAX_VITAL, NIGHT_ANIMAL_CHANCE, OBJECT_ART, PLACEABLE_ITEMS, STATION_RANGE, TOOL_ITEMS, UNARMED_DAMAGE,
+  WEATHER_EFFECTS,
+} from '../constants';
+import { CustomSprite, EntityKind, InventoryItem, ObjectType, PlayerVitals, Recipe, TileType, ToolType, Weather, WorldTile } from '../types';
+import { meleeAttack } from './combat';
+import { addItems, countItem, craft, removeItems } from './crafting';
+import { DialogueStates } from './dialogue';
+import { isNight } from './environment';
+import { creatureTraits } from './entities';
+import { itemName, t } from './i18n';
+import { getItem, resolveItemKey } from './itemRegistry';
+import { RandomStreams } from './random';
+import { ResourceNodes } from './resourceNodes';
+import type { Simulation } from './simulation';
+import { adjustVitals } from './survival';
+import { getToolType, wearTool } from './tools';
+import type { WorldGenerator } from './worldEngine';
+
+type Inventory = (InventoryItem | null)[];
+
+// --- Player actions ---
+// What the player does to the world with a key press: gathering, placing and
+// demolishing, crafting, eating, talking, taming and fighting. Each action changes the world
+// and the simulation directly and returns what changed for the player; the
+// renderer applies that and shows the feedback.
+
+// Everything an action reads, taken at the moment of the key press
+export interface ActionContext {
+  world: WorldGenerator;
+  sim: Simulation;
+  inventory: Inventory;
+  selectedSlot: number; // Hotbar slot the player is holding
+  vitals: PlayerVitals;
+  now: number; // Game time (ms)
+  tile: WorldTile | null; // Where the player stands
+  weather: Weather; // Weather where the player stands
+  nodes: ResourceNodes;
+  random: RandomStreams;
+  dialogues: DialogueStates;
+}
+
+// Left out when unchanged
+export interface ActionResult {
+  inventory?: Inventory;
+  vitals?: PlayerVitals;
+  feedback?: string;
+}
+
+export interface InteractResult extends ActionResult {
+  dialogue?: { x: number; y: number; sprite: CustomSprite }; // A sprite to read, from its first page
+}
+
+const facingTile = ({ world, sim }: ActionContext): WorldTile | null => {
+  const [faceX, faceY] = DIRECTION_OFFSETS[sim.facing.direction];
+  return world.peekTile(Math.round(sim.position.x) + faceX, Math.round(sim.position.y) + faceY);
+};
+
+// --- Gathering ---
+
+// Moves one unit from a tile's resource node into the inventory, wearing
+// down the held tool when the item needed it. No inventory when nothing was taken.
+const collect = (ctx: ActionContext, tile: WorldTile, itemKey: string, usesTool: boolean): ActionResult => {
+  // Each tile only yields so much before it has to grow back
+  if (ctx.nodes.remaining(tile.x, tile.y, tile.terrain, ctx.now) <= 0) return { feedback: t('feedback.depleted') };
+
+  const { maxStack } = getItem(itemKey);
+  const fits = (slot: InventoryItem | null) => slot && slot.id === itemKey && !slot.data && slot.count < maxStack;
+  if (!ctx.inventory.some(slot => slot === null || fits(slot))) return { feedback: t('feedback.inventoryFull') };
+  ctx.nodes.take(tile.x, tile.y, tile.terrain, ctx.now);
+
+  const inventory = [...ctx.inventory];
+  let feedback = t('feedback.gained', { count: 1, item: itemName(itemKey) });
+  const held = inventory[ctx.selectedSlot];
+  if (usesTool && held) {
+    inventory[ctx.selectedSlot] = wearTool(held);
+    if (!inventory[ctx.selectedSlot]) feedback += ` (${t('feedback.toolBroke', { tool: itemName(held.id) })})`;
+  }
+
+  const existingIdx = inventory.findIndex(fits);
+  if (existingIdx >= 0) inventory[existingIdx] = { ...inventory[existingIdx], count: inventory[existingIdx].count + 1 };
+  else inventory[inventory.findIndex(slot => slot === null)] = { id: itemKey, count: 1 };
+
+  return {
+    inventory,
+    vitals: adjustVitals(ctx.vitals, { stamina: -GATHER_STAMINA, hunger: -GATHER_HUNGER }),
+    feedback,
+  };
+};
+
+export const gather = (ctx: ActionContext): ActionResult => {
+  if (ctx.vitals.stamina < GATHER_STAMINA) return { feedback: t('feedback.tooTired') };
+  const held = ctx.inventory[ctx.selectedSlot];
+  const tool = getToolType(held);
+
+  // The right tool works the object the player is facing (an axe chops trees,
+  // a pickaxe breaks rocks) until its node runs out and the object comes down
+  const facing = facingTile(ctx);
+  const harvest = facing?.object ? HARVESTABLE_OBJECTS[facing.object] : undefined;
+  if (harvest && tool === harvest.tool) {
+    const result = collect(ctx, facing, harvest.item, true);
+    if (result.inventory && ctx.nodes.remaining(facing.x, facing.y, facing.terrain, ctx.now) <= 0) {
+      const regrowAt = harvest.regrowSeconds !== undefined ? ctx.now + harvest.regrowSeconds * 1000 : undefined;
+      ctx.world.removeProceduralObject(facing.x, facing.y, regrowAt);
+    }
+    return result;
+  }
+
+  const { tile } = ctx;
+  const resData = tile ? ctx.world.biomes.getResources(tile.biome, tile.terrain) : undefined;
+  if (!resData) return { feedback: t('feedback.nothingHere') };
+
+  // Weather and nightfall change what is out and about
+  const effect = WEATHER_EFFECTS[ctx.weather];
+  const animalChance = 0.2 * effect.animalChance * (isNight(ctx.now) ? NIGHT_ANIMAL_CHANCE : 1);
+
+  // Plants come bare-handed; minerals and rare stones need a pickaxe, fish need a rod
+  const loot = ctx.random.get('loot');
+  const isWater = tile.terrain === TileType.WATER || tile.terrain === TileType.DEEP_WATER;
+  const quality = held?.data?.quality ?? 1;
+  const withTool = (names: string[]) => names.map(name => ({ name, usesTool: true }));
+  const possibleItems = [
+    ...resData.vegetacao.map(name => ({ name, usesTool: false })),
+    ...(tool === ToolType.PICKAXE ? withTool(resData.minerais) : []),
+    ...(tool === ToolType.PICKAXE && loot.chance(0.05 * quality) ? withTool(resData.pedras_raras) : []),
+    ...(isWater
+      ? (tool === ToolType.FISHING_ROD && loot.chance(0.5 * effect.fishChance) ? withTool(resData.animais) : [])
+      : (loot.chance(animalChance) ? resData.animais.map(name => ({ name, usesTool: false })) : [])),
+  ];
+  if (possibleItems.length === 0) return { feedback: t(tool ? 'feedback.emptyTerrain' : 'feedback.needTool') };
+
+  const found = loot.pick(possibleItems);
+  return collect(ctx, tile, resolveItemKey(found.name), found.usesTool);
+};
+
+// --- Building ---
+
+// Puts the held placeable item (workbench, furnace, ...) on the tile in front of the player
+export const placeHeld = (ctx: ActionContext): ActionResult => {
+  const held = ctx.inventory[ctx.selectedSlot];
+  const type = held ? PLACEABLE_ITEMS[held.id] : undefined;
+  if (!held || !type) return { feedback: t('feedback.holdPlaceable') };
+
+  const target = facingTile(ctx);
+  if (!target || target.object || target.customSprite ||
+      target.terrain === TileType.WATER || target.terrain === TileType.DEEP_WATER) {
+    return { feedback: t('feedback.cantPlace') };
+  }
+
+  // The item itself is the build cost, so demolishing hands it back
+  ctx.world.placeObject(target.x, target.y, {
+    ...OBJECT_ART[type],
+    id: `object:${type}`,
+    name: itemName(held.id),
+    createdAt: 0,
+    cost: [{ item: held.id, count: 1 }],
+  });
+  const inventory = [...ctx.inventory];
+  inventory[ctx.selectedSlot] = held.count > 1 ? { ...held, count: held.count - 1 } : null;
+  return { inventory, feedback: t('feedback.placed', { item: itemName(held.id) }) };
+};
+
+// Places the sprite at the cursor, paying its build cost unless in creative mode.
+// An object already placed there is replaced and its cost refunded.
+export const placeSprite = (ctx: ActionContext, sprite: CustomSprite, creative: boolean): ActionResult => {
+  const { x, y } = ctx.sim.cursor;
+  const cost = creative ? [] : sprite.cost ?? [];
+  const paid = removeItems(ctx.inventory, cost);
+  if (!paid) {
+    const missing = cost
+      .filter(stack => countItem(ctx.inventory, stack.item) < stack.count)
+      .map(stack => `${stack.count - countItem(ctx.inventory, stack.item)}× ${itemName(stack.item)}`);
+    return { feedback: t('feedback.missingMaterials', { items: missing.join(', ') }) };
+  }
+  const refunded = addItems(paid, ctx.world.getPlacedObject(x, y)?.cost ?? []);
+  if (!refunded) return { feedback: t('feedback.inventoryFull') };
+
+  // Placed copies remember what was actually paid (nothing in creative mode)
+  ctx.world.placeObject(x, y, { ...sprite, cost: cost.length > 0 ? cost : undefined });
+  ctx.dialogues.forget(x, y);
+  return { inventory: refunded };
+};
+
+// Removes the placed object under the cursor and refunds what it cost
+export const demolish = (ctx: ActionContext): ActionResult => {
+  const { x, y } = ctx.sim.cursor;
+  const target = ctx.world.getPlacedObject(x, y);
+  if (!target) return { feedback: t('feedback.nothingToRemove') };
+  const refunded = addItems(ctx.inventory, target.cost ?? []);
+  if (!refunded) return { feedback: t('feedback.inventoryFull') };
+
+  ctx.world.removeObject(x, y);
+  ctx.dialogues.forget(x, y);
+  return { inventory: refunded, feedback: t('feedback.removed', { item: target.name }) };
+};
+
+// --- Crafting ---
+
+// Stations within reach: generated ones or ones the player placed
+export const nearbyStations = ({ world, sim }: ActionContext): Set<ObjectType> => {
+  const stations = new Set<ObjectType>();
+  const px = Math.round(sim.position.x);
+  const py = Math.round(sim.position.y);
+  for (let y = py - STATION_RANGE; y <= py + STATION_RANGE; y++) {
+    for (let x = px - STATION_RANGE; x <= px + STATION_RANGE; x++) {
+      const tile = world.peekTile(x, y);
+      if (!tile) continue;
+      stations.add(tile.object);
+      if (tile.customSprite?.id.startsWith('object:')) {
+        stations.add(tile.customSprite.id.slice('object:'.length) as ObjectType);
+      }
+    }
+  }
+  return stations;
+};
+
+export const craftRecipe = (ctx: ActionContext, recipe: Recipe): ActionResult => {
+  if (recipe.station && !nearbyStations(ctx).has(recipe.station)) return { feedback: t('feedback.stationTooFar') };
+  const inventory = craft(ctx.inventory, recipe);
+  if (!inventory) return { feedback: t('feedback.cantCraft') };
+  return { inventory, feedback: t('feedback.gained', { count: recipe.output.count, item: itemName(recipe.output.item) }) };
+};
+
+// --- Inventory ---
+
+// Eats one of the food in the slot
+export const eat = (ctx: ActionContext, slot: number): ActionResult => {
+  const item = ctx.inventory[slot];
+  const food = item ? getItem(item.id).food : undefined;
+  if (!item || !food) return { feedback: t('feedback.notFood') };
+  if (ctx.vitals.hunger >= MAX_VITAL) return { feedback: t('feedback.notHungry') };
+
+  const inventory = [...ctx.inventory];
+  inventory[slot] = item.count > 1 ? { ...item, count: item.count - 1 } : null;
+  return {
+    inventory,
+    vitals: adjustVitals(ctx.vitals, { hunger: food }),
+    feedback: t('feedback.ate', { item: itemName(item.id), food }),
+  };
+};
+
+// Throws away the whole stack in the slot
+export const drop = (ctx: ActionContext, slot: number): ActionResult => {
+  const item = ctx.inventory[slot];
+  if (!item) return {};
+  const inventory = [...ctx.inventory];
+  inventory[slot] = null;
+  return { inventory, feedback: t('feedback.dropped', { item: itemName(item.id) }) };
+};
+
+// --- Wildlife & villagers ---
+
+// Reads the sprite the player faces, talks to a villager, tames an animal
+// with the food it likes, or hunts it
+export const interact = (ctx: ActionContext): InteractResult => {
+  const { sim } = ctx;
+  const facing = facingTile(ctx);
+  if (facing?.customSprite?.dialogue?.length) return { dialogue: { x: facing.x, y: facing.y, sprite: facing.customSprite } };
+
+  const targetId = sim.nearestCreature(INTERACT_RANGE);
+  const target = targetId !== null ? sim.entities.get(targetId, 'creature') : undefined;
+  if (!target) return { feedback: t('feedback.nobodyNearby') };
+
+  if (target.kind === EntityKind.VILLAGER) {
+    const lines = [t('npc.greeting'), t('npc.weather'), t('npc.travel'), t('npc.wildlife')];
+    return { feedback: ctx.random.get('wildlife').pick(lines) };
+  }
+
+  const species = itemName(target.species);
+  if (sim.entities.has(targetId, 'hostile')) return { feedback: t('feedback.hostile', { animal: species }) };
+  if (target.tamed) return { feedback: t('feedback.alreadyTamed', { animal: species }) };
+
+  const { tameWith } = creatureTraits(target);
+  const held = ctx.inventory[ctx.selectedSlot];
+  if (held && tameWith?.includes(held.id)) {
+    sim.tame(targetId);
+    return {
+      inventory: removeItems(ctx.inventory, [{ item: held.id, count: 1 }]),
+      feedback: t('feedback.tamed', { animal: species }),
+    };
+  }
+
+  if (ctx.vitals.stamina < HUNT_STAMINA) return { feedback: t('feedback.tooTired') };
+  const inventory = addItems(ctx.inventory, [{ item: target.species, count: 1 }]);
+  if (!inventory) return { feedback: t('feedback.inventoryFull') };
+  sim.remove(targetId);
+  return {
+    inventory,
+    vitals: adjustVitals(ctx.vitals, { stamina: -HUNT_STAMINA }),
+    feedback: t('feedback.hunted', { animal: species }),
+  };
+};
+
+// --- Combat ---
+
+// Swings the held weapon (or a fist) at whatever is in front of the player
+export const attack = (ctx: ActionContext, peaceful: boolean): ActionResult => {
+  if (peaceful) return { feedback: t('feedback.peaceful') };
+  if (ctx.vitals.stamina < ATTACK_STAMINA) return { feedback: t('feedback.tooTired') };
+  const held = ctx.inventory[ctx.selectedSlot];
+  const weapon = held ? TOOL_ITEMS[held.id] : undefined;
+  const hits = meleeAttack(ctx.sim, weapon?.damage ?? UNARMED_DAMAGE, ctx.now);
+  if (!hits) return {};
+  const vitals = adjustVitals(ctx.vitals, { stamina: -ATTACK_STAMINA });
+  if (hits.length === 0) return { vitals };
+
+  let inventory = [...ctx.inventory];
+  if (weapon?.damage) inventory[ctx.selectedSlot] = wearTool(held);
+  const killed = hits.filter(hit => hit.killed);
+  let lootLost = false;
+  killed.forEach(hit => {
+    const loot = HOSTILE_CREATURES[hit.species]?.loot ?? [{ item: hit.species, count: 1 }];
+    const looted = addItems(inventory, loot);
+    if (looted) inventory = looted;
+    else lootLost = true;
+  });
+
+  // Loot that doesn't fit is gone with the creature, so the player hears about it
+  const notes: string[] = [];
+  if (lootLost) notes.push(t('feedback.inventoryFull'));
+  if (weapon?.damage && !inventory[ctx.selectedSlot]) notes.push(t('feedback.toolBroke', { tool: itemName(held.id) }));
+  let feedback = notes.join(', ') || undefined;
+  if (killed.length > 0) {
+    const defeated = t('feedback.defeated', { animal: itemName(killed[0].species) });
+    feedback = feedback ? `${defeated} (${feedback})` : defeated;
+  }
+  return { inventory, vitals, feedback };
+};
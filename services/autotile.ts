@@ -0,0 +1,28 @@
+import { TerrainTileset, TileType } from '../types';
+
+// Edge and inner-corner masks for a tile, in the bit layout TerrainTileset uses.
+// A neighbor borders the tile unless it is the same terrain, one the tileset
+// joins with, or not generated yet (null), so unloaded chunks don't draw seams.
+export const autotileMasks = (
+  terrain: TileType,
+  tileset: TerrainTileset,
+  neighbor: (dx: number, dy: number) => TileType | null
+): { edges: number; corners: number } => {
+  const borders = (dx: number, dy: number) => {
+    const other = neighbor(dx, dy);
+    return other !== null && other !== terrain && !tileset.joins?.includes(other);
+  };
+
+  const n = borders(0, -1);
+  const e = borders(1, 0);
+  const s = borders(0, 1);
+  const w = borders(-1, 0);
+
+  return {
+    edges: (n ? 1 : 0) | (e ? 2 : 0) | (s ? 4 : 0) | (w ? 8 : 0),
+    corners: (!n && !e && borders(1, -1) ? 1 : 0)
+      | (!s && !e && borders(1, 1) ? 2 : 0)
+      | (!s && !w && borders(-1, 1) ? 4 : 0)
+      | (!n && !w && borders(-1, -1) ? 8 : 0),
+  };
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { parseBiomeDefinitions } from './biomeRegistry';
+
+const biome = (extra: object) => JSON.stringify({ id: 'marsh', climate: [{}], terrain: [{ terrain: 'GRASS' }], ...extra });
+
+describe('parseBiomeDefinitions', () => {
+  it('accepts chances from 0 to 1', () => {
+    const [marsh] = parseBiomeDefinitions(biome({
+      objects: [{ object: 'TREE_OAK', chance: 1, terrains: ['GRASS'] }],
+      weather: [{ weather: 'RAIN', chance: 0.7 }, { weather: 'SNOW', chance: 0.3 }],
+    }));
+
+    expect(marsh.objects[0].chance).toBe(1);
+    expect(marsh.weather.map(odds => odds.chance)).toEqual([0.7, 0.3]);
+  });
+
+  it('rejects chances outside 0 to 1', () => {
+    expect(() => parseBiomeDefinitions(biome({ objects: [{ object: 'TREE_OAK', chance: -0.1, terrains: ['GRASS'] }] })))
+      .toThrow('marsh.objects[0].chance must be between 0 and 1');
+    expect(() => parseBiomeDefinitions(biome({ weather: [{ weather: 'RAIN', chance: 1.5 }] })))
+      .toThrow('marsh.weather[0].chance must be between 0 and 1');
+    expect(() => parseBiomeDefinitions(biome({ weather: [{ weather: 'RAIN', chance: 0.6 }, { weather: 'SNOW', chance: 0.6 }] })))
+      .toThrow('weather chances add up to more than 1');
+  });
+
+  it('rejects terrain resources without all four item lists', () => {
+    expect(() => parseBiomeDefinitions(biome({ resources: { GRASS: {} } }))).toThrow('marsh.resources.GRASS.animais must be an array');
+    expect(() => parseBiomeDefinitions(biome({
+      resources: { GRASS: { animais: [], minerais: [], pedras_raras: [], vegetacao: [3] } },
+    }))).toThrow('marsh.resources.GRASS.vegetacao must be an array of strings');
+  });
+});
@@ -0,0 +1,238 @@
+import { BIOME_DEFINITIONS, DEFAULT_WEATHER, TERRAIN_RESOURCES } from '../constants';
+import { BiomeClimate, BiomeDefinition, BiomeId, ObjectType, TerrainResourceData, TileType, Weather, WeatherChance } from '../types';
+
+const TILE_TYPE_VALUES = Object.values(TileType) as string[];
+const OBJECT_TYPE_VALUES = Object.values(ObjectType) as string[];
+const WEATHER_VALUES = Object.values(Weather) as string[];
+
+const inRange = (value: number, min?: number, max?: number) =>
+  (min === undefined || value >= min) && (max === undefined || value < max);
+
+const matchesClimate = (climate: BiomeClimate, temperature: number, moisture: number) =>
+  inRange(temperature, climate.minTemperature, climate.maxTemperature)
+  && inRange(moisture, climate.minMoisture, climate.maxMoisture);
+
+// The biomes a world generator reads from: the built-in set plus any custom
+// biomes. The order is part of the world (chunks store biomes by index), so a
+// generator and its worker must be built from the same definitions.
+export class BiomeRegistry {
+  private biomes: BiomeDefinition[];
+  private byId: Map<BiomeId, BiomeDefinition>;
+  private builtinCount: number;
+
+  constructor(custom: BiomeDefinition[] = []) {
+    this.biomes = [];
+    this.byId = new Map();
+    BIOME_DEFINITIONS.forEach(biome => this.register(biome));
+    this.builtinCount = this.biomes.length;
+    custom.forEach(biome => this.register(biome));
+  }
+
+  // Adds a biome, or replaces the one with the same id in place
+  public register(biome: BiomeDefinition) {
+    const index = this.biomes.findIndex(b => b.id === biome.id);
+    if (index >= 0) this.biomes[index] = biome;
+    else this.biomes.push(biome);
+    this.byId.set(biome.id, biome);
+  }
+
+  public get(id: BiomeId): BiomeDefinition | undefined {
+    return this.byId.get(id);
+  }
+
+  public all(): BiomeDefinition[] {
+    return this.biomes;
+  }
+
+  // Definitions beyond the built-in set, e.g. to hand to the generation worker
+  public custom(): BiomeDefinition[] {
+    return this.biomes.slice(this.builtinCount);
+  }
+
+  public indexOf(id: BiomeId): number {
+    return this.biomes.findIndex(b => b.id === id);
+  }
+
+  public at(index: number): BiomeDefinition {
+    return this.biomes[index];
+  }
+
+  // Later biomes win where climates overlap, so custom biomes can claim part
+  // of a built-in biome's range
+  public pick(temperature: number, moisture: number): BiomeDefinition {
+    for (let i = this.biomes.length - 1; i >= 0; i--) {
+      const biome = this.biomes[i];
+      if (biome.climate.some(climate => matchesClimate(climate, temperature, moisture))) return biome;
+    }
+    return this.biomes[0];
+  }
+
+  public terrainAt(biome: BiomeDefinition, elevation: number): TileType {
+    const band = biome.terrain.find(b => b.below === undefined || elevation < b.below);
+    return band?.terrain ?? TileType.GRASS;
+  }
+
+  // `roll` is a 0-1 hash for the tile. Spawn chances stack from the top of the
+  // range, so earlier entries take the rarest rolls.
+  public spawnObject(biome: BiomeDefinition, terrain: TileType, roll: number): ObjectType | null {
+    let threshold = 1;
+    for (const spawn of biome.objects) {
+      if (!spawn.terrains.includes(terrain)) continue;
+      threshold -= spawn.chance;
+      if (roll > threshold) return spawn.object;
+    }
+    return null;
+  }
+
+  public getResources(id: BiomeId, terrain: TileType): TerrainResourceData | undefined {
+    return this.byId.get(id)?.resources?.[terrain] ?? TERRAIN_RESOURCES[terrain];
+  }
+
+  public getWeatherOdds(id: BiomeId): WeatherChance[] {
+    return this.byId.get(id)?.weather ?? DEFAULT_WEATHER;
+  }
+
+  public getDaytimeHostiles(id: BiomeId): string[] {
+    return this.byId.get(id)?.hostileByDay ?? [];
+  }
+}
+
+// --- Custom biomes from JSON ---
+
+const fail = (message: string): never => {
+  throw new Error(`Invalid biome definition: ${message}`);
+};
+
+const checkTileType = (value: unknown, where: string): TileType => {
+  if (typeof value !== 'string' || !TILE_TYPE_VALUES.includes(value)) fail(`${where}: unknown terrain "${value}"`);
+  return value as TileType;
+};
+
+const checkNumber = (value: unknown, where: string): number | undefined => {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || Number.isNaN(value)) fail(`${where} must be a number`);
+  return value as number;
+};
+
+// Odds out of 1; absent means never
+const checkChance = (value: unknown, where: string): number => {
+  const chance = checkNumber(value, where) ?? 0;
+  if (chance < 0 || chance > 1) fail(`${where} must be between 0 and 1`);
+  return chance;
+};
+
+const checkObject = (value: unknown, where: string): Record<string, unknown> => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) fail(`${where} must be an object`);
+  return value as Record<string, unknown>;
+};
+
+const checkArray = (value: unknown, where: string): unknown[] => {
+  if (!Array.isArray(value)) fail(`${where} must be an array`);
+  return value as unknown[];
+};
+
+const checkStrings = (value: unknown, where: string): string[] => {
+  if (checkArray(value, where).some(entry => typeof entry !== 'string')) fail(`${where} must be an array of strings`);
+  return value as string[];
+};
+
+const parseResources = (value: unknown, where: string): TerrainResourceData => {
+  const data = checkObject(value, where);
+  return {
+    animais: checkStrings(data.animais, `${where}.animais`),
+    minerais: checkStrings(data.minerais, `${where}.minerais`),
+    pedras_raras: checkStrings(data.pedras_raras, `${where}.pedras_raras`),
+    vegetacao: checkStrings(data.vegetacao, `${where}.vegetacao`),
+  };
+};
+
+const parseBiome = (value: unknown): BiomeDefinition => {
+  if (!value || typeof value !== 'object') fail('expected an object');
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.id !== 'string' || !raw.id) fail('missing id');
+  const id = raw.id as string;
+
+  const climates = checkArray(raw.climate, `${id}.climate`);
+  if (climates.length === 0) fail(`${id}: climate must be a non-empty array`);
+  const climate: BiomeClimate[] = climates.map((entry, i) => {
+    const c = checkObject(entry, `${id}.climate[${i}]`);
+    return {
+      minTemperature: checkNumber(c.minTemperature, `${id}.climate[${i}].minTemperature`),
+      maxTemperature: checkNumber(c.maxTemperature, `${id}.climate[${i}].maxTemperature`),
+      minMoisture: checkNumber(c.minMoisture, `${id}.climate[${i}].minMoisture`),
+      maxMoisture: checkNumber(c.maxMoisture, `${id}.climate[${i}].maxMoisture`),
+    };
+  });
+
+  const bands = checkArray(raw.terrain, `${id}.terrain`);
+  if (bands.length === 0) fail(`${id}: terrain must be a non-empty array`);
+  const terrain = bands.map((entry, i) => {
+    const band = checkObject(entry, `${id}.terrain[${i}]`);
+    return {
+      below: checkNumber(band.below, `${id}.terrain[${i}].below`),
+      terrain: checkTileType(band.terrain, `${id}.terrain[${i}]`),
+    };
+  });
+
+  const objects = (raw.objects === undefined ? [] : checkArray(raw.objects, `${id}.objects`)).map((entry, i) => {
+    const spawn = checkObject(entry, `${id}.objects[${i}]`);
+    if (typeof spawn.object !== 'string' || !OBJECT_TYPE_VALUES.includes(spawn.object)) {
+      fail(`${id}.objects[${i}]: unknown object "${spawn.object}"`);
+    }
+    return {
+      object: spawn.object as ObjectType,
+      chance: checkChance(spawn.chance, `${id}.objects[${i}].chance`),
+      terrains: checkArray(spawn.terrains, `${id}.objects[${i}].terrains`).map(t => checkTileType(t, `${id}.objects[${i}]`)),
+    };
+  });
+
+  // Every terrain listed replaces all four lists, so none may be missing
+  let resources: BiomeDefinition['resources'];
+  if (raw.resources !== undefined) {
+    resources = {};
+    Object.entries(checkObject(raw.resources, `${id}.resources`)).forEach(([t, entry]) => {
+      resources[checkTileType(t, `${id}.resources`)] = parseResources(entry, `${id}.resources.${t}`);
+    });
+  }
+
+  let weather: WeatherChance[] | undefined;
+  if (raw.weather !== undefined) {
+    weather = checkArray(raw.weather, `${id}.weather`).map((entry, i) => {
+      const odds = checkObject(entry, `${id}.weather[${i}]`);
+      if (typeof odds.weather !== 'string' || !WEATHER_VALUES.includes(odds.weather)) {
+        fail(`${id}.weather[${i}]: unknown weather "${odds.weather}"`);
+      }
+      return {
+        weather: odds.weather as Weather,
+        chance: checkChance(odds.chance, `${id}.weather[${i}].chance`),
+      };
+    });
+    // Clear weather takes what the others leave
+    if (weather.reduce((total, odds) => total + odds.chance, 0) > 1 + 1e-9) fail(`${id}: weather chances add up to more than 1`);
+  }
+
+  let hostileByDay: string[] | undefined;
+  if (raw.hostileByDay !== undefined) hostileByDay = checkStrings(raw.hostileByDay, `${id}.hostileByDay`);
+
+  return {
+    id: id as BiomeId,
+    name: typeof raw.name === 'string' ? raw.name : id,
+    climate,
+    terrain,
+    objects,
+    resources,
+    weather,
+    hostileByDay,
+  };
+};
+
+// Accepts a single biome or an array of them. Throws on malformed input.
+export const parseBiomeDefinitions = (json: string): BiomeDefinition[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    return fail('not valid JSON');
+  }
+  return (Array.isArray(data) ? data : [data]).map(parseBiome);
+};
@@ -0,0 +1,113 @@
+import { BiomeDefinition, CustomSprite, ObjectType, TileModification, TileType } from '../types';
+
+export const CHUNK_SIZE = 32;
+
+// Enum <-> byte lookups for the typed arrays. Object index 0 is NONE (no object).
+export const TILE_TYPES = Object.values(TileType) as TileType[];
+export const OBJECT_TYPES = Object.values(ObjectType) as ObjectType[];
+
+export const TILE_FLAG_RIVER = 1;
+export const TILE_FLAG_STRUCTURE_SPRITE = 2; // Custom sprite comes from a structure template
+
+// A fixed-size block of generated tiles, one byte per tile per layer
+export interface WorldChunk {
+  cx: number;
+  cy: number;
+  terrain: Uint8Array; // Index into TILE_TYPES
+  object: Uint8Array; // Index into OBJECT_TYPES
+  variant: Uint8Array;
+  biome: Uint8Array; // Index into the generator's BiomeRegistry
+  flags: Uint8Array; // TILE_FLAG_* bits
+}
+
+export const createChunk = (cx: number, cy: number): WorldChunk => {
+  const size = CHUNK_SIZE * CHUNK_SIZE;
+  return {
+    cx,
+    cy,
+    terrain: new Uint8Array(size),
+    object: new Uint8Array(size),
+    variant: new Uint8Array(size),
+    biome: new Uint8Array(size),
+    flags: new Uint8Array(size),
+  };
+};
+
+export const chunkCoord = (n: number) => Math.floor(n / CHUNK_SIZE);
+
+// Least-recently-used chunk store. Map iteration order is insertion order,
+// so re-inserting on every hit keeps the oldest chunk at the front.
+export class ChunkCache {
+  private chunks: Map<string, WorldChunk>;
+  private capacity: number;
+
+  constructor(capacity: number = 256) {
+    this.chunks = new Map();
+    this.capacity = capacity;
+  }
+
+  public get(cx: number, cy: number): WorldChunk | undefined {
+    const key = `${cx},${cy}`;
+    const chunk = this.chunks.get(key);
+    if (chunk) {
+      this.chunks.delete(key);
+      this.chunks.set(key, chunk);
+    }
+    return chunk;
+  }
+
+  public has(cx: number, cy: number): boolean {
+    return this.chunks.has(`${cx},${cy}`);
+  }
+
+  public set(chunk: WorldChunk) {
+    const key = `${chunk.cx},${chunk.cy}`;
+    this.chunks.delete(key);
+    this.chunks.set(key, chunk);
+
+    while (this.chunks.size > this.capacity) {
+      const oldest = this.chunks.keys().next().value as string;
+      this.chunks.delete(oldest);
+    }
+  }
+
+  public delete(cx: number, cy: number) {
+    this.chunks.delete(`${cx},${cy}`);
+  }
+
+  public clear() {
+    this.chunks.clear();
+  }
+}
+
+// --- Worker protocol ---
+
+// Player changes to the world: placed objects and the modification layer
+export type WorldChange =
+  | { type: 'place'; x: number; y: number; sprite: CustomSprite }
+  | { type: 'remove'; x: number; y: number }
+  | { type: 'reset'; entries: [string, CustomSprite][] }
+  | { type: 'modify'; x: number; y: number; modification: TileModification | null }
+  | { type: 'resetModifications'; entries: [string, TileModification][] };
+
+export type WorldWorkerRequest =
+  | {
+      type: 'init';
+      seed: string;
+      version: number;
+      biomes: BiomeDefinition[];
+      entries: [string, CustomSprite][];
+      modifications: [string, TileModification][];
+    }
+  | { type: 'generate'; cx: number; cy: number; revision: number }
+  | { type: 'worldChange'; change: WorldChange };
+
+export type WorldWorkerResponse = { type: 'chunk'; chunk: WorldChunk; revision: number };
+
+export const chunkBuffers = (chunk: WorldChunk): ArrayBuffer[] => [
+  chunk.terrain.buffer as ArrayBuffer,
+  chunk.object.buffer as ArrayBuffer,
+  chunk.variant.buffer as ArrayBuffer,
+  chunk.biome.buffer as ArrayBuffer,
+  chunk.flags.buffer as ArrayBuffer,
+];
@@ -0,0 +1,93 @@
+import { WorldGenerator } from './worldEngine';
+import { CHUNK_SIZE, WorldWorkerRequest, WorldWorkerResponse, chunkCoord } from './chunkCache';
+
+// Chunks requested beyond the visible area in the direction of travel
+const LOOKAHEAD_CHUNKS = 2;
+
+// Main-thread side of the generation worker: requests chunks, installs the
+// results into the WorldGenerator, and forwards the player's changes to the world.
+export class ChunkStreamer {
+  private world: WorldGenerator;
+  private worker: Worker | null;
+  private pending: Set<string>;
+  // Bumped whenever the world changes, so chunks generated before the change are dropped
+  private revision: number;
+  private unsubscribe: () => void;
+
+  constructor(world: WorldGenerator) {
+    this.world = world;
+    this.pending = new Set();
+    this.revision = 0;
+    this.worker = typeof Worker !== 'undefined'
+      ? new Worker(new URL('./worldWorker.ts', import.meta.url), { type: 'module' })
+      : null;
+
+    if (this.worker) {
+      this.worker.onmessage = (e: MessageEvent<WorldWorkerResponse>) => this.handleResponse(e.data);
+      this.post({
+        type: 'init',
+        seed: world.seed,
+        version: world.version,
+        biomes: world.biomes.custom(),
+        entries: world.serializePlacedObjects(),
+        modifications: world.serializeModifications(),
+      });
+    }
+
+    this.unsubscribe = world.onWorldChange(change => {
+      this.revision++;
+      this.pending.clear();
+      this.post({ type: 'worldChange', change });
+      // Regenerate the touched chunk right away so it doesn't flash a placeholder
+      if ('x' in change) this.world.getChunk(chunkCoord(change.x), chunkCoord(change.y));
+    });
+  }
+
+  public request(cx: number, cy: number) {
+    const key = `${cx},${cy}`;
+    if (this.pending.has(key) || this.world.hasChunk(cx, cy)) return;
+
+    if (!this.worker) {
+      // No worker support: fall back to generating on this thread
+      this.world.getChunk(cx, cy);
+      return;
+    }
+
+    this.pending.add(key);
+    this.post({ type: 'generate', cx, cy, revision: this.revision });
+  }
+
+  // Requests every chunk overlapping the view, stretched towards where the player is heading
+  public prefetch(centerX: number, centerY: number, tilesX: number, tilesY: number, dirX: number, dirY: number) {
+    const ahead = LOOKAHEAD_CHUNKS * CHUNK_SIZE;
+    const minX = chunkCoord(centerX - tilesX / 2 - (dirX < 0 ? ahead : 0));
+    const maxX = chunkCoord(centerX + tilesX / 2 + (dirX > 0 ? ahead : 0));
+    const minY = chunkCoord(centerY - tilesY / 2 - (dirY < 0 ? ahead : 0));
+    const maxY = chunkCoord(centerY + tilesY / 2 + (dirY > 0 ? ahead : 0));
+
+    for (let cy = minY; cy <= maxY; cy++) {
+      for (let cx = minX; cx <= maxX; cx++) {
+        this.request(cx, cy);
+      }
+    }
+  }
+
+  public dispose() {
+    this.unsubscribe();
+    this.worker?.terminate();
+    this.worker = null;
+    this.pending.clear();
+  }
+
+  private handleResponse(msg: WorldWorkerResponse) {
+    const { chunk, revision } = msg;
+    this.pending.delete(`${chunk.cx},${chunk.cy}`);
+    // Stale: the world changed while this chunk was being generated
+    if (revision !== this.revision) return;
+    this.world.installChunk(chunk);
+  }
+
+  private post(msg: WorldWorkerRequest) {
+    this.worker?.postMessage(msg);
+  }
+}
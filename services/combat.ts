@@ -0,0 +1,122 @@
+import {
+  ATTACK_COOLDOWN_MS, ATTACK_HITBOX, ATTACK_REACH, DAMAGE_LABEL_MS, DIRECTION_OFFSETS, HOSTILE_ATTACK_COOLDOWN_MS,
+  HOSTILE_ATTACK_RANGE, KNOCKBACK_MS, KNOCKBACK_SPEED,
+} from '../constants';
+import { WorldTile } from '../types';
+import { EntityId } from './ecs';
+import type { Simulation, SimulationContext, System } from './simulation';
+
+// A creature hurt by one swing
+export interface Hit {
+  id: EntityId;
+  species: string;
+  damage: number;
+  killed: boolean;
+}
+
+// Hostiles come out at night; biomes can let some of them roam by day too
+export const isHostileOut = (species: string, tile: WorldTile | null, ctx: SimulationContext): boolean =>
+  !ctx.peaceful && (ctx.night || (!!tile && ctx.daytimeHostiles(tile.biome).includes(species)));
+
+// Shoves an entity directly away from a point
+export const knockBack = (sim: Simulation, id: EntityId, fromX: number, fromY: number, now: number) => {
+  const position = sim.entities.get(id, 'position');
+  if (!position) return;
+  const dx = position.x - fromX;
+  const dy = position.y - fromY;
+  const length = Math.hypot(dx, dy) || 1;
+  sim.entities.add(id, 'knockback', {
+    dx: (dx / length) * KNOCKBACK_SPEED,
+    dy: (dy / length) * KNOCKBACK_SPEED,
+    until: now + KNOCKBACK_MS,
+  });
+};
+
+export const addLabel = (sim: Simulation, x: number, y: number, text: string, color: string, now: number) => {
+  sim.entities.create({
+    position: { x, y: y - 0.5 },
+    label: { text, color, expiresAt: now + DAMAGE_LABEL_MS },
+  });
+};
+
+// Swings at the square in front of the player. Null while the last swing is
+// still recovering; otherwise every creature caught in the hitbox (tamed ones
+// and villagers are spared). Creatures brought to 0 health are removed.
+export const meleeAttack = (sim: Simulation, damage: number, now: number): Hit[] | null => {
+  if (now - sim.lastAttackAt < ATTACK_COOLDOWN_MS) return null;
+  sim.lastAttackAt = now;
+
+  const { entities } = sim;
+  const player = sim.position;
+  const [faceX, faceY] = DIRECTION_OFFSETS[sim.facing.direction];
+  const centerX = player.x + faceX * ATTACK_REACH;
+  const centerY = player.y + faceY * ATTACK_REACH;
+
+  return entities.query('creature', 'health', 'position')
+    .filter(id => {
+      const position = entities.get(id, 'position');
+      return !entities.get(id, 'creature').tamed &&
+        Math.abs(position.x - centerX) <= ATTACK_HITBOX && Math.abs(position.y - centerY) <= ATTACK_HITBOX;
+    })
+    .map(id => {
+      const position = entities.get(id, 'position');
+      const health = entities.get(id, 'health');
+      health.current -= damage;
+      addLabel(sim, position.x, position.y, String(damage), '#f7e26b', now);
+
+      const killed = health.current <= 0;
+      const hit = { id, species: entities.get(id, 'creature').species, damage, killed };
+      if (killed) entities.destroy(id);
+      else knockBack(sim, id, player.x, player.y, now);
+      return hit;
+    });
+};
+
+// --- Systems ---
+
+// A knocked-back entity slides with the blow instead of moving by itself
+export const knockbackSystem: System = (sim, seconds, ctx) => {
+  const { entities } = sim;
+  entities.query('knockback', 'velocity').forEach(id => {
+    const knockback = entities.get(id, 'knockback');
+    if (ctx.now >= knockback.until) {
+      entities.remove(id, 'knockback');
+      return;
+    }
+    const velocity = entities.get(id, 'velocity');
+    velocity.dx = knockback.dx;
+    velocity.dy = knockback.dy;
+  });
+};
+
+// Hostiles next to the player bite. The damage is collected in
+// sim.damageTaken and taken off the player's health by the survival system.
+export const combatSystem: System = (sim, seconds, ctx) => {
+  const { entities } = sim;
+  const player = sim.position;
+  entities.query('hostile', 'creature', 'position').forEach(id => {
+    const hostile = entities.get(id, 'hostile');
+    const position = entities.get(id, 'position');
+    if (ctx.now < hostile.readyAt || Math.hypot(position.x - player.x, position.y - player.y) > HOSTILE_ATTACK_RANGE) return;
+
+    const tile = ctx.peekTile(Math.round(position.x), Math.round(position.y));
+    if (!isHostileOut(entities.get(id, 'creature').species, tile, ctx)) return;
+
+    hostile.readyAt = ctx.now + HOSTILE_ATTACK_COOLDOWN_MS;
+    sim.damageTaken += hostile.damage;
+    addLabel(sim, player.x, player.y, `-${hostile.damage}`, '#be2633', ctx.now);
+    knockBack(sim, sim.player, position.x, position.y, ctx.now);
+  });
+};
+
+// Damage numbers drift upwards and fade out
+export const labelSystem: System = (sim, seconds, ctx) => {
+  const { entities } = sim;
+  entities.query('label', 'position').forEach(id => {
+    if (ctx.now >= entities.get(id, 'label').expiresAt) {
+      entities.destroy(id);
+      return;
+    }
+    entities.get(id, 'position').y -= seconds;
+  });
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { InventoryItem, Recipe } from '../types';
+import { addItems, craft, moveItem, removeItems } from './crafting';
+import { getItem } from './itemRegistry';
+import { createTool } from './tools';
+
+const planks: Recipe = { id: 'planks', inputs: [{ item: 'wood', count: 3 }], output: { item: 'plank', count: 2 } };
+
+const inventory = (...slots: (InventoryItem | null)[]) => slots;
+
+describe('removeItems', () => {
+  it('takes from the last slots first and never takes tools', () => {
+    const axe = createTool('axe');
+    const before = inventory({ id: 'wood', count: 2 }, axe, { id: 'wood', count: 2 });
+    expect(removeItems(before, [{ item: 'wood', count: 3 }])).toEqual([{ id: 'wood', count: 1 }, axe, null]);
+    expect(removeItems(before, [{ item: 'axe', count: 1 }])).toBeNull();
+  });
+
+  it('leaves the inventory alone when any stack is missing', () => {
+    const before = inventory({ id: 'wood', count: 5 }, { id: 'stone', count: 1 });
+    const snapshot = structuredClone(before);
+    expect(removeItems(before, [{ item: 'wood', count: 2 }, { item: 'stone', count: 2 }])).toBeNull();
+    expect(before).toEqual(snapshot);
+  });
+});
+
+describe('addItems', () => {
+  it('gives every tool its own slot', () => {
+    const next = addItems(inventory(null, null), [{ item: 'axe', count: 2 }]);
+    expect(next).toEqual([createTool('axe'), createTool('axe')]);
+    expect(addItems(inventory(null), [{ item: 'axe', count: 2 }])).toBeNull();
+  });
+});
+
+describe('moveItem', () => {
+  it('moves into empty slots and swaps different items', () => {
+    const axe = createTool('axe');
+    expect(moveItem(inventory(axe, null), 0, 1)).toEqual([null, axe]);
+    expect(moveItem(inventory(axe, { id: 'wood', count: 1 }), 0, 1)).toEqual([{ id: 'wood', count: 1 }, axe]);
+  });
+
+  it('stacks the same item up to its limit and leaves the rest', () => {
+    const { maxStack } = getItem('wood');
+    expect(moveItem(inventory({ id: 'wood', count: 2 }, { id: 'wood', count: 3 }), 0, 1))
+      .toEqual([null, { id: 'wood', count: 5 }]);
+    expect(moveItem(inventory({ id: 'wood', count: 5 }, { id: 'wood', count: maxStack - 2 }), 0, 1))
+      .toEqual([{ id: 'wood', count: 3 }, { id: 'wood', count: maxStack }]);
+  });
+
+  it('never merges tools', () => {
+    const worn = { ...createTool('axe'), data: { durability: 1, quality: 1 } };
+    const fresh = createTool('axe');
+    expect(moveItem(inventory(worn, fresh), 0, 1)).toEqual([fresh, worn]);
+  });
+});
+
+describe('craft', () => {
+  it('swaps the inputs for the output', () => {
+    expect(craft(inventory({ id: 'wood', count: 3 }, null), planks)).toEqual([{ id: 'plank', count: 2 }, null]);
+  });
+
+  it('changes nothing when the output has no room', () => {
+    // The wood stack isn't used up, so its slot doesn't free up for the planks
+    const before = inventory({ id: 'wood', count: 4 }, createTool('axe'));
+    const snapshot = structuredClone(before);
+    expect(craft(before, planks)).toBeNull();
+    expect(before).toEqual(snapshot);
+  });
+
+  it('changes nothing when an ingredient is short', () => {
+    const before = inventory({ id: 'wood', count: 2 }, null);
+    expect(craft(before, planks)).toBeNull();
+    expect(before).toEqual([{ id: 'wood', count: 2 }, null]);
+  });
+});
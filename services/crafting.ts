@@ -0,0 +1,102 @@
+import { TOOL_ITEMS } from '../constants';
+import { InventoryItem, ItemStack, ObjectType, Recipe } from '../types';
+import { getItem } from './itemRegistry';
+import { canStack, createTool } from './tools';
+
+type Inventory = (InventoryItem | null)[];
+
+// Total of a plain (stackable) item across all slots. Tools are never ingredients.
+export const countItem = (inventory: Inventory, item: string): number =>
+  inventory.reduce((sum, slot) => (slot && slot.id === item && !slot.data ? sum + slot.count : sum), 0);
+
+export const hasItems = (inventory: Inventory, stacks: ItemStack[]): boolean =>
+  stacks.every(stack => countItem(inventory, stack.item) >= stack.count);
+
+export const canCraft = (inventory: Inventory, recipe: Recipe, nearbyStations: Set<ObjectType>): boolean =>
+  (!recipe.station || nearbyStations.has(recipe.station)) && hasItems(inventory, recipe.inputs);
+
+// Takes the stacks out of the inventory, from the last slots first so the
+// hotbar keeps its stacks longest. Returns null when anything is missing.
+export const removeItems = (inventory: Inventory, stacks: ItemStack[]): Inventory | null => {
+  if (!hasItems(inventory, stacks)) return null;
+  const next = [...inventory];
+
+  stacks.forEach(stack => {
+    let needed = stack.count;
+    for (let i = next.length - 1; i >= 0 && needed > 0; i--) {
+      const slot = next[i];
+      if (!slot || slot.id !== stack.item || slot.data) continue;
+      const taken = Math.min(slot.count, needed);
+      needed -= taken;
+      next[i] = slot.count > taken ? { ...slot, count: slot.count - taken } : null;
+    }
+  });
+  return next;
+};
+
+// Puts the stacks into the inventory, topping up existing stacks before
+// filling empty slots. Returns null when they don't all fit.
+export const addItems = (inventory: Inventory, stacks: ItemStack[]): Inventory | null => {
+  const next = [...inventory];
+
+  for (const { item, count } of stacks) {
+    if (TOOL_ITEMS[item]) {
+      // Each tool is its own instance with its own durability
+      for (let made = 0; made < count; made++) {
+        const emptyIdx = next.findIndex(slot => slot === null);
+        if (emptyIdx < 0) return null;
+        next[emptyIdx] = createTool(item);
+      }
+      continue;
+    }
+
+    const { maxStack } = getItem(item);
+    let remaining = count;
+    for (let i = 0; i < next.length && remaining > 0; i++) {
+      const slot = next[i];
+      if (slot && slot.id === item && !slot.data && slot.count < maxStack) {
+        const added = Math.min(maxStack - slot.count, remaining);
+        next[i] = { ...slot, count: slot.count + added };
+        remaining -= added;
+      }
+    }
+    for (let i = 0; i < next.length && remaining > 0; i++) {
+      if (next[i] === null) {
+        const added = Math.min(maxStack, remaining);
+        next[i] = { id: item, count: added };
+        remaining -= added;
+      }
+    }
+    if (remaining > 0) return null;
+  }
+  return next;
+};
+
+// Drops the item in one slot onto another: into an empty slot, onto a stack of
+// the same item (what doesn't fit stays behind), or swapped with what is there
+export const moveItem = (inventory: Inventory, from: number, to: number): Inventory => {
+  const source = inventory[from];
+  const target = inventory[to];
+  if (!source || from === to) return inventory;
+  const next = [...inventory];
+
+  if (target && canStack(source, target)) {
+    const total = source.count + target.count;
+    const { maxStack } = getItem(target.id);
+    next[to] = { ...target, count: Math.min(total, maxStack) };
+    next[from] = total > maxStack ? { ...source, count: total - maxStack } : null;
+    return next;
+  }
+
+  next[to] = source;
+  next[from] = target;
+  return next;
+};
+
+// Consumes the inputs and adds the output in one step. Returns the new
+// inventory, or null (leaving the old one untouched) when the ingredients are
+// missing or the output doesn't fit.
+export const craft = (inventory: Inventory, recipe: Recipe): Inventory | null => {
+  const next = removeItems(inventory, recipe.inputs);
+  return next && addItems(next, [recipe.output]);
+};
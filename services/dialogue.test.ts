@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { DialoguePage } from '../types';
+import { DialogueStates, nextPage } from './dialogue';
+
+const pages: DialoguePage[] = [
+  { text: 'Hello' },
+  { text: 'Which way?', choices: [{ label: 'Back', goto: 0 }, { label: 'On', goto: 2 }, { label: 'Leave', goto: null }] },
+  { text: 'Bye' },
+];
+
+describe('nextPage', () => {
+  it('goes to the next page when there are no choices, and ends after the last', () => {
+    expect(nextPage(pages, 0)).toBe(1);
+    expect(nextPage(pages, 2)).toBeNull();
+  });
+
+  it('follows the picked choice', () => {
+    expect(nextPage(pages, 1, 0)).toBe(0);
+    expect(nextPage(pages, 1, 1)).toBe(2);
+    expect(nextPage(pages, 1, 2)).toBeNull();
+  });
+
+  it('ends on a missing choice or a page out of range', () => {
+    expect(nextPage(pages, 1)).toBeNull();
+    expect(nextPage(pages, 1, 5)).toBeNull();
+    expect(nextPage([{ text: 'Lost', choices: [{ label: 'Nowhere', goto: 7 }] }], 0, 0)).toBeNull();
+  });
+});
+
+describe('DialogueStates', () => {
+  it('keeps choices and reading per object', () => {
+    const states = new DialogueStates();
+    expect(states.get(1, 2)).toBeNull();
+
+    states.choose(1, 2, 1, 2);
+    states.choose(1, 2, 3, 0);
+    states.markRead(1, 2);
+    expect(states.get(1, 2)).toEqual({ read: true, choices: { 1: 2, 3: 0 } });
+    expect(states.get(2, 1)).toBeNull();
+  });
+
+  it('forgets a removed object', () => {
+    const states = new DialogueStates();
+    states.markRead(1, 2);
+    states.forget(1, 2);
+    expect(states.get(1, 2)).toBeNull();
+    expect(states.serialize()).toEqual([]);
+  });
+
+  it('comes back the same from a save', () => {
+    const states = new DialogueStates();
+    states.choose(-4, 9, 0, 1);
+    states.markRead(3, 3);
+
+    const loaded = new DialogueStates(structuredClone(states.serialize()));
+    expect(loaded.get(-4, 9)).toEqual({ read: false, choices: { 0: 1 } });
+    expect(loaded.get(3, 3)).toEqual({ read: true, choices: {} });
+  });
+});
@@ -0,0 +1,42 @@
+import { DialoguePage, DialogueState } from '../types';
+
+// Where a dialogue goes after a page: the page the picked choice leads to, or
+// the next page when it has no choices. Null when the dialogue is over.
+export const nextPage = (pages: DialoguePage[], page: number, choice?: number): number | null => {
+  const choices = pages[page]?.choices ?? [];
+  const next = choices.length > 0 ? choices[choice ?? -1]?.goto ?? null : page + 1;
+  return next !== null && next >= 0 && next < pages.length ? next : null;
+};
+
+// Dialogue progress of every placed object in one world, by position. Objects
+// whose dialogue was never opened aren't stored.
+export class DialogueStates {
+  private states: Map<string, DialogueState>;
+
+  constructor(saved: [string, DialogueState][] = []) {
+    this.states = new Map(saved);
+  }
+
+  public get(x: number, y: number): DialogueState | null {
+    return this.states.get(`${x},${y}`) ?? null;
+  }
+
+  public choose(x: number, y: number, page: number, choice: number) {
+    const state = this.get(x, y) ?? { read: false, choices: {} };
+    this.states.set(`${x},${y}`, { ...state, choices: { ...state.choices, [page]: choice } });
+  }
+
+  public markRead(x: number, y: number) {
+    const state = this.get(x, y) ?? { read: false, choices: {} };
+    this.states.set(`${x},${y}`, { ...state, read: true });
+  }
+
+  // A demolished or replaced object takes its dialogue progress with it
+  public forget(x: number, y: number) {
+    this.states.delete(`${x},${y}`);
+  }
+
+  public serialize(): [string, DialogueState][] {
+    return Array.from(this.states.entries());
+  }
+}
@@ -0,0 +1,161 @@
+import { Direction, EntityBehavior, EntityKind, WorldTile } from '../types';
+
+// --- Components ---
+// Plain data; all behavior lives in the systems. Positions are in tiles
+// (fractional), speeds in tiles per second.
+
+export type EntityId = number;
+
+export interface Position {
+  x: number;
+  y: number;
+}
+
+// Where the entity wants to go this step; collision decides whether it can
+export interface Velocity {
+  dx: number;
+  dy: number;
+}
+
+export interface Facing {
+  direction: Direction;
+  moving: boolean;
+}
+
+export enum SpriteKind {
+  PLAYER = 'PLAYER', // Player frames
+  VILLAGER = 'VILLAGER', // Player frames in villager colors
+  ICON = 'ICON', // An item icon (animals)
+}
+
+export interface Sprite {
+  kind: SpriteKind;
+  key: string; // Item key for ICON sprites
+}
+
+export interface Collider {
+  land: boolean; // Can walk on dry terrain
+  water: boolean; // Can swim
+  blocked: boolean; // The last step ran into something
+  touched: WorldTile | null; // The tile the last step tried to enter, for triggers
+}
+
+// Wildlife and villagers
+export interface Creature {
+  kind: EntityKind;
+  species: string; // Item key of the animal; 'villager' for villagers
+  behavior: EntityBehavior;
+  tamed: boolean;
+  target: Position | null; // Where it is wandering to
+  idleUntil: number; // Game time (ms) a pause lasts until
+}
+
+export interface Health {
+  current: number;
+  max: number;
+}
+
+// Attacks the player when close
+export interface Hostile {
+  damage: number;
+  readyAt: number; // Game time (ms) it can bite again
+}
+
+// Shoved by a hit; overrides the entity's own movement until it runs out
+export interface Knockback {
+  dx: number;
+  dy: number;
+  until: number; // Game time (ms)
+}
+
+// Floating text such as a damage number
+export interface Label {
+  text: string;
+  color: string;
+  expiresAt: number; // Game time (ms)
+}
+
+// The entity the input drives
+export interface Controlled {
+  running: boolean;
+  swimming: boolean;
+}
+
+export interface Components {
+  position: Position;
+  velocity: Velocity;
+  facing: Facing;
+  sprite: Sprite;
+  collider: Collider;
+  creature: Creature;
+  controlled: Controlled;
+  health: Health;
+  hostile: Hostile;
+  knockback: Knockback;
+  label: Label;
+}
+
+export type ComponentName = keyof Components;
+
+type ComponentTables = { [K in ComponentName]: Map<EntityId, Components[K]> };
+
+// --- Store ---
+
+// Entities are ids; each component type keeps its own id -> data table
+export class EntityStore {
+  private nextId: EntityId;
+  private tables: ComponentTables;
+
+  constructor() {
+    this.nextId = 1;
+    this.tables = {
+      position: new Map(),
+      velocity: new Map(),
+      facing: new Map(),
+      sprite: new Map(),
+      collider: new Map(),
+      creature: new Map(),
+      controlled: new Map(),
+      health: new Map(),
+      hostile: new Map(),
+      knockback: new Map(),
+      label: new Map(),
+    };
+  }
+
+  public create(components: Partial<Components>): EntityId {
+    const id = this.nextId++;
+    (Object.keys(components) as ComponentName[]).forEach(name => this.add(id, name, components[name]));
+    return id;
+  }
+
+  public destroy(id: EntityId) {
+    Object.values(this.tables).forEach(table => table.delete(id));
+  }
+
+  public add<K extends ComponentName>(id: EntityId, name: K, component: Components[K]) {
+    (this.tables[name] as Map<EntityId, Components[K]>).set(id, component);
+  }
+
+  public get<K extends ComponentName>(id: EntityId, name: K): Components[K] | undefined {
+    return (this.tables[name] as Map<EntityId, Components[K]>).get(id);
+  }
+
+  public remove(id: EntityId, name: ComponentName) {
+    this.tables[name].delete(id);
+  }
+
+  public has(id: EntityId, name: ComponentName): boolean {
+    return this.tables[name].has(id);
+  }
+
+  // Ids of the entities that have every one of the components
+  public query(...names: ComponentName[]): EntityId[] {
+    const [first, ...rest] = names;
+    return Array.from(this.tables[first].keys()).filter(id => rest.every(name => this.tables[name].has(id)));
+  }
+
+  public count(name: ComponentName): number {
+    return this.tables[name].size;
+  }
+}
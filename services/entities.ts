@@ -0,0 +1,147 @@
+import {
+  ANIMAL_HEALTH, CREATURE_TRAITS, CreatureTraits, DEFAULT_CREATURE, ENTITY_DESPAWN_DISTANCE, ENTITY_SPAWN_INTERVAL_MS,
+  ENTITY_SPAWN_MAX_DISTANCE, ENTITY_SPAWN_MIN_DISTANCE, FLEE_DISTANCE, FOLLOW_DISTANCE, HOSTILE_ATTACK_RANGE,
+  HOSTILE_CHASE_DISTANCE, HOSTILE_CREATURES, HOSTILE_SPAWN_CHANCE, MAX_ENTITIES, OBJECT_ART, VILLAGER_SPAWN_CHANCE,
+  VILLAGER_TRAITS,
+} from '../constants';
+import { Direction, EntityBehavior, EntityKind, TileType, WorldTile } from '../types';
+import { isHostileOut } from './combat';
+import { Components, Creature, SpriteKind } from './ecs';
+import type { Simulation, System } from './simulation';
+
+// --- Wildlife & villagers ---
+// Animals and villagers spawn just out of view around the player, live while
+// the player stays near and are forgotten once far behind. They aren't saved.
+
+export const isWater = (terrain: TileType) => terrain === TileType.WATER || terrain === TileType.DEEP_WATER;
+
+// Solid objects and solid sprites stop everything that walks, the player included
+export const blocksMovement = (tile: WorldTile): boolean =>
+  (!!tile.object && !!OBJECT_ART[tile.object]?.collision) || !!tile.customSprite?.collision;
+
+export const creatureTraits = (creature: Creature): CreatureTraits =>
+  creature.kind === EntityKind.VILLAGER ? VILLAGER_TRAITS : { ...DEFAULT_CREATURE, ...CREATURE_TRAITS[creature.species] };
+
+const spawnCreature = (sim: Simulation, kind: EntityKind, species: string, tile: WorldTile, now: number, extra: Partial<Components> = {}) => {
+  const aquatic = isWater(tile.terrain); // Fish stay in the water, land animals ashore
+  sim.entities.create({
+    ...(kind === EntityKind.ANIMAL ? { health: { current: ANIMAL_HEALTH, max: ANIMAL_HEALTH } } : {}),
+    ...extra,
+    position: { x: tile.x, y: tile.y },
+    velocity: { dx: 0, dy: 0 },
+    facing: { direction: Direction.DOWN, moving: false },
+    sprite: kind === EntityKind.VILLAGER ? { kind: SpriteKind.VILLAGER, key: species } : { kind: SpriteKind.ICON, key: species },
+    collider: { land: !aquatic, water: aquatic, blocked: false, touched: null },
+    creature: { kind, species, behavior: EntityBehavior.WANDER, tamed: false, target: null, idleUntil: now },
+  });
+};
+
+export const spawnSystem: System = (sim, seconds, ctx) => {
+  const { entities } = sim;
+  const player = sim.position;
+
+  entities.query('creature', 'position').forEach(id => {
+    const position = entities.get(id, 'position');
+    const tooFar = Math.hypot(position.x - player.x, position.y - player.y) > ENTITY_DESPAWN_DISTANCE;
+    // Switching to peaceful mode sends every hostile away at once
+    if ((tooFar && !entities.get(id, 'creature').tamed) || (ctx.peaceful && entities.has(id, 'hostile'))) {
+      entities.destroy(id);
+      return;
+    }
+    if (!tooFar) return;
+    // Tamed animals left behind catch up instead of getting lost
+    position.x = player.x;
+    position.y = player.y;
+  });
+
+  if (entities.count('creature') >= MAX_ENTITIES || ctx.now - sim.lastSpawnAt < ENTITY_SPAWN_INTERVAL_MS) return;
+  sim.lastSpawnAt = ctx.now;
+
+  const { random } = ctx;
+  const angle = random.next() * Math.PI * 2;
+  const distance = ENTITY_SPAWN_MIN_DISTANCE + random.next() * (ENTITY_SPAWN_MAX_DISTANCE - ENTITY_SPAWN_MIN_DISTANCE);
+  const tile = ctx.peekTile(Math.round(player.x + Math.cos(angle) * distance), Math.round(player.y + Math.sin(angle) * distance));
+  if (!tile || blocksMovement(tile)) return;
+
+  // Villagers keep to the roads between settlements
+  if (tile.terrain === TileType.ROAD && random.chance(VILLAGER_SPAWN_CHANCE)) {
+    spawnCreature(sim, EntityKind.VILLAGER, 'villager', tile, ctx.now);
+    return;
+  }
+
+  // Hostiles that are out take over their terrain some of the time
+  const hostile = Object.keys(HOSTILE_CREATURES).find(species => HOSTILE_CREATURES[species].terrain === tile.terrain);
+  if (hostile && isHostileOut(hostile, tile, ctx) && random.chance(HOSTILE_SPAWN_CHANCE)) {
+    const { health, damage } = HOSTILE_CREATURES[hostile];
+    spawnCreature(sim, EntityKind.ANIMAL, hostile, tile, ctx.now, {
+      health: { current: health, max: health },
+      hostile: { damage, readyAt: ctx.now },
+    });
+    return;
+  }
+
+  const animals = ctx.animalsAt(tile);
+  if (animals.length > 0) spawnCreature(sim, EntityKind.ANIMAL, random.pick(animals), tile, ctx.now);
+};
+
+// Picks where each creature wants to go; collision and movement take it from there
+export const behaviorSystem: System = (sim, seconds, ctx) => {
+  const { entities } = sim;
+  const { now, random } = ctx;
+  const player = sim.position;
+
+  entities.query('creature', 'position', 'velocity').forEach(id => {
+    const creature = entities.get(id, 'creature');
+    const position = entities.get(id, 'position');
+    const velocity = entities.get(id, 'velocity');
+    const traits = creatureTraits(creature);
+    const toPlayerX = player.x - position.x;
+    const toPlayerY = player.y - position.y;
+    const distance = Math.hypot(toPlayerX, toPlayerY);
+    const moveAlong = (dirX: number, dirY: number, speed: number) => {
+      velocity.dx = dirX * speed;
+      velocity.dy = dirY * speed;
+    };
+    moveAlong(0, 0, 0);
+
+    if (entities.has(id, 'hostile') && distance < HOSTILE_CHASE_DISTANCE &&
+        isHostileOut(creature.species, ctx.peekTile(Math.round(position.x), Math.round(position.y)), ctx)) {
+      creature.behavior = EntityBehavior.CHASE;
+      creature.target = null;
+      // Stops just short of the player to bite
+      if (distance > HOSTILE_ATTACK_RANGE * 0.8) moveAlong(toPlayerX / distance, toPlayerY / distance, HOSTILE_CREATURES[creature.species].speed);
+      return;
+    }
+
+    if (creature.tamed) {
+      creature.behavior = EntityBehavior.FOLLOW;
+      if (distance > FOLLOW_DISTANCE) moveAlong(toPlayerX / distance, toPlayerY / distance, traits.speed * 3);
+      return;
+    }
+
+    if (traits.timid && distance < FLEE_DISTANCE) {
+      creature.behavior = EntityBehavior.FLEE;
+      creature.target = null;
+      if (distance > 0) moveAlong(-toPlayerX / distance, -toPlayerY / distance, traits.speed * 2);
+      return;
+    }
+
+    if (creature.behavior !== EntityBehavior.WANDER) creature.target = null;
+    creature.behavior = EntityBehavior.WANDER;
+    if (now < creature.idleUntil) return;
+    if (!creature.target) {
+      creature.target = { x: position.x + (random.next() - 0.5) * 8, y: position.y + (random.next() - 0.5) * 8 };
+    }
+
+    const dx = creature.target.x - position.x;
+    const dy = creature.target.y - position.y;
+    const remaining = Math.hypot(dx, dy);
+    // Arrived, or walked into something: rest a while before the next stroll
+    if (remaining <= traits.speed * seconds || entities.get(id, 'collider')?.blocked) {
+      creature.target = null;
+      creature.idleUntil = now + 1000 + random.nextInt(3000);
+      return;
+    }
+    moveAlong(dx / remaining, dy / remaining, traits.speed);
+  });
+};
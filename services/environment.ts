@@ -0,0 +1,86 @@
+import {
+  DAY_LENGTH_SECONDS, NIGHT_END_HOUR, NIGHT_START_HOUR, SKY_KEYFRAMES, START_HOUR,
+  WEATHER_MAX_SECONDS, WEATHER_MIN_SECONDS,
+} from '../constants';
+import { Weather, WeatherChance, WeatherState } from '../types';
+import { RandomStream } from './random';
+import type { System } from './simulation';
+
+const DAY_MS = DAY_LENGTH_SECONDS * 1000;
+
+// --- Time of day, all derived from the game clock (ms) ---
+
+// 0 (inclusive) to 24 (exclusive), fractional
+export const hourOfDay = (gameTime: number): number =>
+  (START_HOUR + ((gameTime % DAY_MS) / DAY_MS) * 24) % 24;
+
+// Counting from 1
+export const dayNumber = (gameTime: number): number =>
+  Math.floor(gameTime / DAY_MS + START_HOUR / 24) + 1;
+
+export const isNight = (gameTime: number): boolean => {
+  const hour = hourOfDay(gameTime);
+  return hour >= NIGHT_START_HOUR || hour < NIGHT_END_HOUR;
+};
+
+// "HH:MM"
+export const formatClock = (gameTime: number): string => {
+  const minutes = Math.floor(hourOfDay(gameTime) * 60);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+};
+
+// The overlay color for this time of day, or null in full daylight
+export const skyTint = (gameTime: number): string | null => {
+  const hour = hourOfDay(gameTime);
+  const next = SKY_KEYFRAMES.findIndex(frame => frame.hour > hour);
+  const to = SKY_KEYFRAMES[next];
+  const from = SKY_KEYFRAMES[next - 1];
+  const t = (hour - from.hour) / (to.hour - from.hour);
+
+  const alpha = from.alpha + (to.alpha - from.alpha) * t;
+  if (alpha <= 0) return null;
+  const [r, g, b] = from.color.map((c, i) => Math.round(c + (to.color[i] - c) * t));
+  return `rgba(${r}, ${g}, ${b}, ${alpha.toFixed(3)})`;
+};
+
+// --- Weather ---
+
+// Each biome keeps its own weather until it runs out, so walking back and
+// forth over a border doesn't reroll it. Rolls come from a seeded stream.
+export class WeatherSystem {
+  private states: Map<string, WeatherState>;
+
+  constructor(saved: [string, WeatherState][] = []) {
+    this.states = new Map(saved);
+  }
+
+  public current(biome: string, odds: WeatherChance[], now: number, stream: RandomStream): Weather {
+    let state = this.states.get(biome) ?? this.roll(odds, now, stream);
+    // Each spell starts when the last one ended, so how often this is called
+    // doesn't change the weather
+    while (now >= state.until) state = this.roll(odds, state.until, stream);
+    this.states.set(biome, state);
+    return state.weather;
+  }
+
+  public serialize(): [string, WeatherState][] {
+    return Array.from(this.states.entries());
+  }
+
+  // Odds stack in order; whatever is left over is clear sky
+  private roll(odds: WeatherChance[], now: number, stream: RandomStream): WeatherState {
+    const roll = stream.next();
+    let threshold = 0;
+    const picked = odds.find(entry => roll < (threshold += entry.chance));
+    const seconds = WEATHER_MIN_SECONDS + stream.nextInt(WEATHER_MAX_SECONDS - WEATHER_MIN_SECONDS + 1);
+    return { weather: picked?.weather ?? Weather.CLEAR, until: now + seconds * 1000 };
+  }
+}
+
+// Weather where the player stands. Rolled on the simulation step, so it
+// follows game time: it holds while the clock is stopped and survives a save.
+export const weatherSystem: System = (sim, seconds, ctx) => {
+  const tile = ctx.getTile(Math.round(sim.position.x), Math.round(sim.position.y));
+  sim.weather = ctx.weather.current(tile.biome, ctx.weatherOdds(tile.biome), ctx.now, ctx.weatherRandom);
+};
@@ -0,0 +1,73 @@
+// Everything about terrain generation that can be tuned between releases.
+// A released profile must never change, because saved worlds are regenerated
+// from it: tune a copy under a new version number instead.
+//
+// Not everything a world is built from lives here: the built-in biome
+// definitions, structure templates and the hydrology and road constants are
+// shared by all versions. Changing them alters every released world, so such a
+// change has to be gated on a new version here rather than made in place; the
+// golden snapshots (npm test) catch it where it reaches one of their regions.
+// Custom biomes are saved with each world instead.
+export interface GeneratorProfile {
+  version: number;
+  label: string;
+  noise: 'sine' | 'hash'; // Lattice noise: Math.sin based (engine-dependent) or integer hash
+  climateScale: number; // Large scale for temperature/moisture
+  terrainScale: number; // Medium scale for local terrain features
+  elevationOctaves: number;
+  climateOctaves: number;
+  fractalContrast: number; // Stretch applied to fBm output around 0.5
+  classic?: boolean; // The original layout: one noise field picks the biome; no rivers, structures or roads
+}
+
+export const GENERATOR_VERSIONS: GeneratorProfile[] = [
+  {
+    // The generator worlds were made with before versioning. Only the scales
+    // are read; the biome rules are fixed in WorldGenerator and custom biomes
+    // are ignored, since that generator had none.
+    version: 0,
+    label: 'v0',
+    noise: 'sine',
+    climateScale: 0.005,
+    terrainScale: 0.05,
+    elevationOctaves: 1,
+    climateOctaves: 1,
+    fractalContrast: 1,
+    classic: true,
+  },
+  {
+    version: 1,
+    label: 'v1',
+    noise: 'sine',
+    climateScale: 0.004,
+    terrainScale: 0.03,
+    elevationOctaves: 5,
+    climateOctaves: 3,
+    fractalContrast: 1.6,
+  },
+  {
+    // v1 tuning on portable integer noise (different worlds for the same seed)
+    version: 2,
+    label: 'v2',
+    noise: 'hash',
+    climateScale: 0.004,
+    terrainScale: 0.03,
+    elevationOctaves: 5,
+    climateOctaves: 3,
+    fractalContrast: 1.6,
+  },
+];
+
+export const LATEST_GENERATOR_VERSION = GENERATOR_VERSIONS[GENERATOR_VERSIONS.length - 1].version;
+
+// Saves written before versioning existed, which the original generator built
+export const LEGACY_GENERATOR_VERSION = 0;
+
+export const getGeneratorProfile = (version: number): GeneratorProfile => {
+  const profile = GENERATOR_VERSIONS.find(p => p.version === version);
+  if (profile) return profile;
+
+  // A save from a newer build: the closest we can do is the newest generator we know
+  console.warn(`Unknown generator version ${version}, using v${LATEST_GENERATOR_VERSION}`);
+  return GENERATOR_VERSIONS[GENERATOR_VERSIONS.length - 1];
+};
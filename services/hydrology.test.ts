@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { TileType } from '../types';
+import { Hydrology, HydrologySampler, WaterFeature } from './hydrology';
+import { hashCoords } from './random';
+
+// Rolling hills with mountains to spring from and seas to drain into
+const elevation = (x: number, y: number) =>
+  0.5 + 0.35 * Math.sin(x / 37) * Math.cos(y / 29) + 0.1 * (hashCoords(7, x, y, 0) / 0xffffffff - 0.5);
+
+const sampler: HydrologySampler = {
+  sample: (x, y) => {
+    const e = elevation(x, y);
+    return { elevation: e, terrain: e > 0.75 ? TileType.MOUNTAIN : e < 0.2 ? TileType.WATER : TileType.GRASS };
+  },
+  noise: (x, y, layer) => hashCoords(11, x, y, layer) / 0xffffffff,
+};
+
+// Every water tile of a square area, visited row by row or the other way round
+const waterIn = (hydrology: Hydrology, min: number, max: number, reverse = false): string[] => {
+  const found: string[] = [];
+  for (let i = 0; i <= max - min; i++) {
+    const y = reverse ? max - i : min + i;
+    for (let j = 0; j <= max - min; j++) {
+      const x = reverse ? max - j : min + j;
+      const feature = hydrology.getWater(x, y);
+      if (feature !== WaterFeature.NONE) found.push(`${x},${y}:${feature}`);
+    }
+  }
+  return found.sort();
+};
+
+describe('hydrology', () => {
+  it('traces the same rivers whichever part of the map is generated first', () => {
+    const forward = waterIn(new Hydrology(sampler), -100, 100);
+    const backward = waterIn(new Hydrology(sampler), -100, 100, true);
+
+    expect(forward.length).toBeGreaterThan(0);
+    expect(backward).toEqual(forward);
+  });
+
+  it('traces them the same again after their regions were evicted', () => {
+    const hydrology = new Hydrology(sampler, 4);
+    const before = waterIn(hydrology, -100, 100);
+    // Four regions far away: nothing of the first area is left in the cache
+    waterIn(hydrology, 5000, 5070);
+
+    expect(waterIn(hydrology, -100, 100, true)).toEqual(before);
+    expect(waterIn(new Hydrology(sampler), -100, 100)).toEqual(before);
+  });
+});
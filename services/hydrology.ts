@@ -0,0 +1,188 @@
+import { TileType } from '../types';
+import { LruCache } from './lruCache';
+
+export enum WaterFeature {
+  NONE = 0,
+  RIVER = 1,
+  LAKE = 2,
+}
+
+// What the hydrology pass needs to know about the world underneath it
+export interface HydrologySampler {
+  sample(x: number, y: number): { terrain: TileType; elevation: number };
+  noise(x: number, y: number, layer: number): number;
+}
+
+// Rivers are traced per source region so the result never depends on which
+// part of the map was generated first: a tile only asks the regions whose
+// rivers could possibly reach it.
+const REGION_SIZE = 64;
+const MAX_PATH_TILES = 192; // River + lake tiles traced from one source
+const MAX_LAKE_TILES = 48;
+const SOURCE_CANDIDATES = 6;
+const REGION_REACH = Math.ceil(MAX_PATH_TILES / REGION_SIZE);
+
+const LAYER_RIVER_SOURCE = 300;
+
+const NEIGHBORS = [[0, -1], [1, 0], [0, 1], [-1, 0]];
+
+const isSea = (terrain: TileType) => terrain === TileType.WATER || terrain === TileType.DEEP_WATER;
+
+export class Hydrology {
+  private sampler: HydrologySampler;
+  // Tiles traced from the source in a region, keyed by source region
+  private sourcePaths: LruCache<Map<string, WaterFeature>>;
+  // All water features falling inside a region, keyed by that region
+  private regionWater: LruCache<Map<string, WaterFeature>>;
+
+  // `capacity` is how many regions' water is kept. Each one is built from the
+  // source regions around it, so several times as many of those are kept.
+  constructor(sampler: HydrologySampler, capacity: number = 64) {
+    this.sampler = sampler;
+    this.sourcePaths = new LruCache(capacity * 4);
+    this.regionWater = new LruCache(capacity);
+  }
+
+  public getWater(x: number, y: number): WaterFeature {
+    const rx = Math.floor(x / REGION_SIZE);
+    const ry = Math.floor(y / REGION_SIZE);
+    return this.getRegionWater(rx, ry).get(`${x},${y}`) ?? WaterFeature.NONE;
+  }
+
+  private getRegionWater(rx: number, ry: number): Map<string, WaterFeature> {
+    const key = `${rx},${ry}`;
+    const cached = this.regionWater.get(key);
+    if (cached) return cached;
+
+    const minX = rx * REGION_SIZE;
+    const minY = ry * REGION_SIZE;
+    const water = new Map<string, WaterFeature>();
+
+    // Visit source regions in a fixed order so overlaps resolve the same way every time
+    for (let sy = ry - REGION_REACH; sy <= ry + REGION_REACH; sy++) {
+      for (let sx = rx - REGION_REACH; sx <= rx + REGION_REACH; sx++) {
+        this.getSourcePath(sx, sy).forEach((feature, tileKey) => {
+          const [tx, ty] = tileKey.split(',').map(Number);
+          if (tx < minX || tx >= minX + REGION_SIZE || ty < minY || ty >= minY + REGION_SIZE) return;
+          // Lakes win over rivers flowing through them
+          if (water.get(tileKey) !== WaterFeature.LAKE) water.set(tileKey, feature);
+        });
+      }
+    }
+
+    this.regionWater.set(key, water);
+    return water;
+  }
+
+  private getSourcePath(rx: number, ry: number): Map<string, WaterFeature> {
+    const key = `${rx},${ry}`;
+    const cached = this.sourcePaths.get(key);
+    if (cached) return cached;
+
+    const path = new Map<string, WaterFeature>();
+    const source = this.pickSource(rx, ry);
+    if (source) this.trace(source.x, source.y, path);
+
+    this.sourcePaths.set(key, path);
+    return path;
+  }
+
+  // Highest of a few seeded candidates, as long as it is up in the mountains
+  private pickSource(rx: number, ry: number): { x: number; y: number } | null {
+    let best: { x: number; y: number; elevation: number } | null = null;
+
+    for (let i = 0; i < SOURCE_CANDIDATES; i++) {
+      const x = rx * REGION_SIZE + Math.floor(this.sampler.noise(rx, ry, LAYER_RIVER_SOURCE + i * 2) * REGION_SIZE);
+      const y = ry * REGION_SIZE + Math.floor(this.sampler.noise(rx, ry, LAYER_RIVER_SOURCE + i * 2 + 1) * REGION_SIZE);
+      const { terrain, elevation } = this.sampler.sample(x, y);
+      if (terrain !== TileType.MOUNTAIN && terrain !== TileType.SNOW) continue;
+      if (!best || elevation > best.elevation) best = { x, y, elevation };
+    }
+
+    return best;
+  }
+
+  // Steepest descent towards the sea. When the river gets stuck in a basin the
+  // basin floods into a lake until it spills over its lowest rim tile.
+  private trace(startX: number, startY: number, path: Map<string, WaterFeature>) {
+    const elevations = new Map<string, number>();
+    const elevationAt = (x: number, y: number) => {
+      const key = `${x},${y}`;
+      let e = elevations.get(key);
+      if (e === undefined) {
+        e = this.sampler.sample(x, y).elevation;
+        elevations.set(key, e);
+      }
+      return e;
+    };
+
+    let x = startX;
+    let y = startY;
+
+    while (path.size < MAX_PATH_TILES) {
+      if (isSea(this.sampler.sample(x, y).terrain)) return;
+      path.set(`${x},${y}`, WaterFeature.RIVER);
+
+      // Lowest untouched neighbor
+      const current = elevationAt(x, y);
+      let next: { x: number; y: number; elevation: number } | null = null;
+      for (const [dx, dy] of NEIGHBORS) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (path.has(`${nx},${ny}`)) continue;
+        const e = elevationAt(nx, ny);
+        if (!next || e < next.elevation) next = { x: nx, y: ny, elevation: e };
+      }
+
+      if (next && next.elevation < current) {
+        x = next.x;
+        y = next.y;
+        continue;
+      }
+
+      const outlet = this.fillLake(x, y, current, path, elevationAt);
+      if (!outlet) return;
+      x = outlet.x;
+      y = outlet.y;
+    }
+  }
+
+  // Floods outward from a basin floor, always taking the lowest rim tile.
+  // Returns where the water spills out, or null if the lake is the river's end.
+  private fillLake(
+    x: number,
+    y: number,
+    floor: number,
+    path: Map<string, WaterFeature>,
+    elevationAt: (x: number, y: number) => number
+  ): { x: number; y: number } | null {
+    const lake: [number, number][] = [[x, y]];
+    let level = floor;
+    path.set(`${x},${y}`, WaterFeature.LAKE);
+
+    while (lake.length < MAX_LAKE_TILES && path.size < MAX_PATH_TILES) {
+      let rim: { x: number; y: number; elevation: number } | null = null;
+      for (const [lx, ly] of lake) {
+        for (const [dx, dy] of NEIGHBORS) {
+          const nx = lx + dx;
+          const ny = ly + dy;
+          if (path.has(`${nx},${ny}`)) continue;
+          const e = elevationAt(nx, ny);
+          if (!rim || e < rim.elevation) rim = { x: nx, y: ny, elevation: e };
+        }
+      }
+      if (!rim) return null;
+
+      // Lower than the water line: the lake overflows here
+      if (rim.elevation < level || isSea(this.sampler.sample(rim.x, rim.y).terrain)) {
+        return { x: rim.x, y: rim.y };
+      }
+
+      level = rim.elevation;
+      lake.push([rim.x, rim.y]);
+      path.set(`${rim.x},${rim.y}`, WaterFeature.LAKE);
+    }
+
+    return null;
+  }
+}
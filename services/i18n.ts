@@ -0,0 +1,75 @@
+import { useSyncExternalStore } from 'react';
+import { en } from '../locales/en';
+import { ptBR } from '../locales/ptBR';
+import { StorageService } from './storage';
+
+export type Locale = 'pt-BR' | 'en';
+export type MessageKey = keyof typeof en.messages;
+
+export interface LocaleCatalog {
+  messages: Record<MessageKey, string>;
+  items: Record<string, { name: string, description: string }>; // By item key
+  biomes: Record<string, string>; // By biome id; custom biomes use their own name
+}
+
+const CATALOGS: Record<Locale, LocaleCatalog> = { 'pt-BR': ptBR, en };
+
+export const LOCALES: { id: Locale, label: string }[] = [
+  { id: 'pt-BR', label: 'Português (BR)' },
+  { id: 'en', label: 'English' },
+];
+
+const isLocale = (value: string | null): value is Locale => value !== null && value in CATALOGS;
+
+// The saved choice, else the browser language. There's no saved choice
+// outside a browser page (workers, tests).
+const initialLocale = (): Locale => {
+  const saved = typeof localStorage !== 'undefined' ? StorageService.getLocale() : null;
+  if (isLocale(saved)) return saved;
+  return typeof navigator !== 'undefined' && navigator.language.toLowerCase().startsWith('pt') ? 'pt-BR' : 'en';
+};
+
+let current: Locale = initialLocale();
+const listeners = new Set<() => void>();
+
+export const getLocale = (): Locale => current;
+
+export const setLocale = (locale: Locale) => {
+  if (locale === current) return;
+  current = locale;
+  StorageService.saveLocale(locale);
+  listeners.forEach(listener => listener());
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Re-renders the calling component when the language changes
+export const useLocale = (): Locale => useSyncExternalStore(subscribe, getLocale);
+
+// Looks up a message and fills its {placeholders}
+export const t = (key: MessageKey, params: Record<string, string | number> = {}): string => {
+  const text = CATALOGS[current].messages[key] ?? en.messages[key];
+  return text.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+};
+
+// Items the catalogs don't know (from custom biomes) are shown by their key
+export const itemName = (key: string): string =>
+  CATALOGS[current].items[key]?.name ?? en.items[key]?.name ?? key;
+
+export const itemDescription = (key: string): string =>
+  CATALOGS[current].items[key]?.description ?? en.items[key]?.description ?? '';
+
+export const biomeName = (id: string, fallback: string): string =>
+  CATALOGS[current].biomes[id] ?? fallback;
+
+// Every catalog's item names, for reading ids that were stored as display names
+export const itemKeysByName = (): Map<string, string> => {
+  const keys = new Map<string, string>();
+  Object.values(CATALOGS).forEach(catalog => {
+    Object.entries(catalog.items).forEach(([key, { name }]) => keys.set(name, key));
+  });
+  return keys;
+};
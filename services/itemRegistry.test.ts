@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { getItem, migrateInventory, resolveItemKey } from './itemRegistry';
+import { createTool } from './tools';
+
+describe('migrateInventory', () => {
+  it('turns display names from older saves into keys, in any language', () => {
+    expect(migrateInventory([{ id: 'Tábua', count: 3 }, null, { id: 'Plank', count: 1 }]))
+      .toEqual([{ id: 'plank', count: 3 }, null, { id: 'plank', count: 1 }]);
+  });
+
+  it('keeps keys, tool data and unknown items as they are', () => {
+    const axe = createTool('axe');
+    expect(migrateInventory([{ id: 'plank', count: 2 }, axe, { id: 'Glowberry', count: 4 }]))
+      .toEqual([{ id: 'plank', count: 2 }, axe, { id: 'Glowberry', count: 4 }]);
+  });
+});
+
+describe('item registry', () => {
+  it('gives unknown items a plain definition under their own name', () => {
+    expect(resolveItemKey('Glowberry')).toBe('Glowberry');
+    expect(getItem('Glowberry')).toMatchObject({ key: 'Glowberry', maxStack: 32 });
+    expect(getItem('Glowberry')).toBe(getItem('Glowberry'));
+  });
+});
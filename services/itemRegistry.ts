@@ -0,0 +1,37 @@
+import { ITEM_DEFINITIONS, UNKNOWN_ITEM_ICON } from '../constants';
+import { InventoryItem, ItemCategory, ItemDefinition, ItemRarity } from '../types';
+import { itemKeysByName } from './i18n';
+
+const ITEMS_BY_KEY = new Map(ITEM_DEFINITIONS.map(item => [item.key, item]));
+const KEYS_BY_NAME = itemKeysByName();
+
+// Custom biomes can name items the registry doesn't know; they get a plain
+// definition under their own name, built once
+const unknownItems = new Map<string, ItemDefinition>();
+
+export const getItem = (key: string): ItemDefinition => {
+  const known = ITEMS_BY_KEY.get(key);
+  if (known) return known;
+
+  let unknown = unknownItems.get(key);
+  if (!unknown) {
+    unknown = {
+      key,
+      category: ItemCategory.MATERIAL,
+      rarity: ItemRarity.COMMON,
+      maxStack: 32,
+      icon: UNKNOWN_ITEM_ICON,
+    };
+    unknownItems.set(key, unknown);
+  }
+  return unknown;
+};
+
+// Accepts a key or a display name in any language (older saves, custom biome
+// JSON). Keys are snake_case and names are not, so the two never collide.
+export const resolveItemKey = (keyOrName: string): string =>
+  ITEMS_BY_KEY.has(keyOrName) ? keyOrName : KEYS_BY_NAME.get(keyOrName) ?? keyOrName;
+
+// Saves from before the registry stored display names as item ids
+export const migrateInventory = (inventory: (InventoryItem | null)[]): (InventoryItem | null)[] =>
+  inventory.map(slot => (slot ? { ...slot, id: resolveItemKey(slot.id) } : null));
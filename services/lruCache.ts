@@ -0,0 +1,34 @@
+// Least-recently-used store with a fixed capacity, for per-region results
+// that can always be worked out again. Map iteration order is insertion
+// order, so re-inserting on every hit keeps the oldest entry at the front.
+export class LruCache<T> {
+  private entries: Map<string, T>;
+  private capacity: number;
+
+  constructor(capacity: number) {
+    this.entries = new Map();
+    this.capacity = capacity;
+  }
+
+  public get(key: string): T | undefined {
+    if (!this.entries.has(key)) return undefined;
+    const value = this.entries.get(key);
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return value;
+  }
+
+  public set(key: string, value: T) {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+
+    while (this.entries.size > this.capacity) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  public get size(): number {
+    return this.entries.size;
+  }
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { BiomeId, InventoryItem, ObjectiveType, QuestDefinition } from '../types';
+import { generateQuests, QuestLog, QuestUpdate } from './quests';
+import { createTool } from './tools';
+import { WorldGenerator } from './worldEngine';
+
+const FOREST = 'forest' as BiomeId;
+const DESERT = 'desert' as BiomeId;
+
+const quest = (id: string, objectives: QuestDefinition['objectives'], rewards: QuestDefinition['rewards'] = []): QuestDefinition =>
+  ({ id, objectives, rewards });
+
+const at = (overrides: Partial<QuestUpdate> = {}): QuestUpdate =>
+  ({ x: 0, y: 0, biome: FOREST, distance: 0, inventory: [], ...overrides });
+
+const progressOf = (log: QuestLog, id: string) => log.all().find(q => q.definition.id === id)!.progress;
+
+describe('QuestLog', () => {
+  it('counts only the distance walked since the first update', () => {
+    const log = new QuestLog([quest('walk', [{ type: ObjectiveType.WALK, distance: 10 }])]);
+    log.update(at({ distance: 100 }));
+    log.update(at({ distance: 104 }));
+    expect(progressOf(log, 'walk')).toEqual([4]);
+
+    expect(log.update(at({ distance: 120 })).map(q => q.definition.id)).toEqual(['walk']);
+    expect(progressOf(log, 'walk')).toEqual([10]);
+  });
+
+  it('follows the inventory both ways for items to collect', () => {
+    const log = new QuestLog([quest('wood', [{ type: ObjectiveType.COLLECT, item: 'wood', count: 3 }])]);
+    log.update(at({ inventory: [{ id: 'wood', count: 5 }] }));
+    expect(progressOf(log, 'wood')).toEqual([3]);
+
+    log.update(at({ inventory: [{ id: 'wood', count: 1 }] }));
+    expect(progressOf(log, 'wood')).toEqual([1]);
+  });
+
+  it('advances objectives in order', () => {
+    const log = new QuestLog([quest('trip', [
+      { type: ObjectiveType.REACH_BIOME, biome: DESERT },
+      { type: ObjectiveType.VISIT, x: 10, y: 10 },
+    ])]);
+    log.update(at({ x: 10, y: 10 }));
+    expect(progressOf(log, 'trip')).toEqual([0, 0]);
+
+    log.update(at({ biome: DESERT }));
+    log.update(at({ x: 12, y: 11 }));
+    expect(progressOf(log, 'trip')).toEqual([1, 1]);
+  });
+
+  it('records a portal only when it is the objective at hand', () => {
+    const log = new QuestLog([
+      quest('portal', [{ type: ObjectiveType.USE_PORTAL }]),
+      quest('later', [{ type: ObjectiveType.REACH_BIOME, biome: DESERT }, { type: ObjectiveType.USE_PORTAL }]),
+    ]);
+    log.recordPortal();
+    expect(progressOf(log, 'portal')).toEqual([1]);
+    expect(progressOf(log, 'later')).toEqual([0, 0]);
+  });
+
+  it('announces a ready quest once, and again after it stops being ready', () => {
+    const log = new QuestLog([quest('wood', [{ type: ObjectiveType.COLLECT, item: 'wood', count: 1 }])]);
+    const wood = [{ id: 'wood', count: 1 }];
+    expect(log.update(at({ inventory: wood }))).toHaveLength(1);
+    expect(log.update(at({ inventory: wood }))).toHaveLength(0);
+
+    log.update(at({ inventory: [] }));
+    expect(log.update(at({ inventory: wood }))).toHaveLength(1);
+  });
+
+  it('hands in the items and pays the rewards on claim', () => {
+    const log = new QuestLog([quest('wood', [{ type: ObjectiveType.COLLECT, item: 'wood', count: 2 }], [{ item: 'stone', count: 3 }])]);
+    const inventory: (InventoryItem | null)[] = [{ id: 'wood', count: 2 }];
+    log.update(at({ inventory }));
+
+    expect(log.claim('wood', inventory)).toEqual([{ id: 'stone', count: 3 }]);
+    expect(log.all()[0].completed).toBe(true);
+    expect(log.claim('wood', inventory)).toBeNull();
+  });
+
+  it('changes nothing when the rewards do not fit', () => {
+    const log = new QuestLog([quest('wood', [{ type: ObjectiveType.COLLECT, item: 'wood', count: 1 }], [{ item: 'axe', count: 1 }])]);
+    const inventory = [{ id: 'wood', count: 2 }];
+    log.update(at({ inventory }));
+
+    expect(log.claim('wood', inventory)).toBeNull();
+    expect(inventory).toEqual([{ id: 'wood', count: 2 }]);
+    expect(log.all()[0].completed).toBe(false);
+
+    const roomy: (InventoryItem | null)[] = [{ id: 'wood', count: 1 }];
+    expect(log.claim('wood', roomy)).toEqual([createTool('axe')]);
+  });
+
+  it('resets saved progress that no longer fits the objectives', () => {
+    const definitions = [
+      quest('same', [{ type: ObjectiveType.WALK, distance: 10 }]),
+      quest('changed', [{ type: ObjectiveType.WALK, distance: 10 }, { type: ObjectiveType.USE_PORTAL }]),
+    ];
+    const log = new QuestLog(definitions, [
+      ['same', { progress: [6], completed: false }],
+      ['changed', { progress: [6], completed: false }],
+    ]);
+    expect(progressOf(log, 'same')).toEqual([6]);
+    expect(progressOf(log, 'changed')).toEqual([0, 0]);
+
+    expect(new QuestLog(definitions, log.serialize()).serialize()).toEqual(log.serialize());
+  });
+});
+
+describe('generateQuests', () => {
+  it('gives the same quests for the same seed', () => {
+    const quests = generateQuests(new WorldGenerator('quests'));
+    expect(generateQuests(new WorldGenerator('quests'))).toEqual(quests);
+    expect(generateQuests(new WorldGenerator('other quests'))).not.toEqual(quests);
+  });
+});
@@ -0,0 +1,274 @@
+import {
+  QUEST_DEFINITIONS, QUEST_FETCH_TERRAINS, QUEST_REWARDS, QUEST_VISIT_RADIUS, SETTLEMENT_SEARCH_REGIONS, TERRAIN_RESOURCES,
+} from '../constants';
+import { BiomeId, InventoryItem, ItemStack, ObjectiveType, QuestDefinition, QuestObjective, QuestProgress } from '../types';
+import { addItems, countItem, removeItems } from './crafting';
+import { resolveItemKey } from './itemRegistry';
+import { RandomStream } from './random';
+import type { WorldGenerator } from './worldEngine';
+
+type Inventory = (InventoryItem | null)[];
+
+// Where the player is and what they carry, checked against open quests
+export interface QuestUpdate {
+  x: number;
+  y: number;
+  biome: BiomeId;
+  distance: number; // Total tiles walked; walking objectives count the difference
+  inventory: Inventory;
+}
+
+export interface QuestStatus extends QuestProgress {
+  definition: QuestDefinition;
+}
+
+// The progress value an objective is done at
+export const objectiveGoal = (objective: QuestObjective): number => {
+  switch (objective.type) {
+    case ObjectiveType.COLLECT: return objective.count;
+    case ObjectiveType.WALK: return objective.distance;
+    default: return 1;
+  }
+};
+
+export const isQuestReady = (quest: QuestStatus): boolean =>
+  !quest.completed && quest.definition.objectives.every((objective, i) => quest.progress[i] >= objectiveGoal(objective));
+
+const collectedItems = (quest: QuestStatus): ItemStack[] =>
+  quest.definition.objectives.flatMap(objective =>
+    objective.type === ObjectiveType.COLLECT ? [{ item: objective.item, count: objective.count }] : []
+  );
+
+// --- Quest log ---
+
+// Progress on every quest of one world. Objectives are done in order: only
+// the first unfinished one advances. Items to collect count while they are
+// carried and are handed in when the reward is claimed.
+export class QuestLog {
+  private quests: QuestStatus[];
+  private lastDistance: number | null;
+  private announced: Set<string>; // Quests already reported as ready
+
+  constructor(definitions: QuestDefinition[], saved: [string, QuestProgress][] = []) {
+    const savedById = new Map(saved);
+    this.quests = definitions.map(definition => {
+      const entry = savedById.get(definition.id);
+      // Progress saved for a different list of objectives doesn't carry over
+      const fits = !!entry && entry.progress.length === definition.objectives.length;
+      return {
+        definition,
+        progress: fits ? [...entry.progress] : definition.objectives.map(() => 0),
+        completed: !!entry?.completed,
+      };
+    });
+    this.lastDistance = null;
+    this.announced = new Set(this.quests.filter(isQuestReady).map(quest => quest.definition.id));
+  }
+
+  public all(): QuestStatus[] {
+    return this.quests;
+  }
+
+  // Advances open quests. Returns the ones that just became ready to claim.
+  public update(update: QuestUpdate): QuestStatus[] {
+    const walked = this.lastDistance === null ? 0 : Math.max(0, update.distance - this.lastDistance);
+    this.lastDistance = update.distance;
+
+    return this.quests.filter(quest => {
+      if (quest.completed) return false;
+      quest.definition.objectives.every((objective, i) => {
+        quest.progress[i] = this.advance(objective, quest.progress[i], update, walked);
+        return quest.progress[i] >= objectiveGoal(objective);
+      });
+
+      const ready = isQuestReady(quest);
+      if (!ready) this.announced.delete(quest.definition.id);
+      if (!ready || this.announced.has(quest.definition.id)) return false;
+      this.announced.add(quest.definition.id);
+      return true;
+    });
+  }
+
+  // Portals take the player away before the next update sees them
+  public recordPortal() {
+    this.quests.forEach(quest => {
+      if (quest.completed) return;
+      const active = quest.definition.objectives.findIndex((objective, i) => quest.progress[i] < objectiveGoal(objective));
+      if (quest.definition.objectives[active]?.type === ObjectiveType.USE_PORTAL) quest.progress[active] = 1;
+    });
+  }
+
+  // Hands in the collected items and pays the rewards. Returns the new
+  // inventory, or null when the quest isn't done, the items are gone or the
+  // rewards don't fit.
+  public claim(id: string, inventory: Inventory): Inventory | null {
+    const quest = this.quests.find(q => q.definition.id === id);
+    if (!quest || !isQuestReady(quest)) return null;
+    const handedIn = removeItems(inventory, collectedItems(quest));
+    const rewarded = handedIn && addItems(handedIn, quest.definition.rewards);
+    if (!rewarded) return null;
+    quest.completed = true;
+    return rewarded;
+  }
+
+  public serialize(): [string, QuestProgress][] {
+    return this.quests.map(({ definition, progress, completed }) => [definition.id, { progress: [...progress], completed }]);
+  }
+
+  private advance(objective: QuestObjective, progress: number, update: QuestUpdate, walked: number): number {
+    switch (objective.type) {
+      case ObjectiveType.COLLECT:
+        // Follows the inventory both ways: dropped items have to be found again
+        return Math.min(countItem(update.inventory, objective.item), objective.count);
+      case ObjectiveType.REACH_BIOME:
+        return update.biome === objective.biome ? 1 : progress;
+      case ObjectiveType.WALK:
+        return Math.min(progress + walked, objective.distance);
+      case ObjectiveType.VISIT:
+        return Math.hypot(update.x - objective.x, update.y - objective.y) <= QUEST_VISIT_RADIUS ? 1 : progress;
+      case ObjectiveType.USE_PORTAL:
+        return progress;
+    }
+  }
+}
+
+// --- Generated quests ---
+
+// A few quests made from the world seed, so every world has its own errands.
+// The same seed always gives the same quests.
+export const generateQuests = (world: WorldGenerator): QuestDefinition[] => {
+  const random = RandomStream.fromSeed(world.seed, 'quests');
+  const quests: QuestDefinition[] = [];
+
+  // Rare stones from far terrain, brought to the village nearest the spawn point
+  const terrain = random.pick(QUEST_FETCH_TERRAINS);
+  const stone = resolveItemKey(random.pick(TERRAIN_RESOURCES[terrain].pedras_raras));
+  const village = world.nearestSettlement(0, 0, SETTLEMENT_SEARCH_REGIONS);
+  quests.push({
+    id: 'generated:delivery',
+    objectives: [
+      { type: ObjectiveType.COLLECT, item: stone, count: 2 + random.nextInt(3) },
+      ...(village ? [{ type: ObjectiveType.VISIT as const, x: village.x, y: village.y, village: true }] : []),
+    ],
+    rewards: random.pick(QUEST_REWARDS),
+  });
+
+  const biomes = world.biomes.all();
+  quests.push({
+    id: 'generated:expedition',
+    objectives: [{ type: ObjectiveType.REACH_BIOME, biome: random.pick(biomes).id }],
+    rewards: random.pick(QUEST_REWARDS),
+  });
+
+  const angle = random.next() * Math.PI * 2;
+  const distance = 150 + random.nextInt(150);
+  quests.push({
+    id: 'generated:landmark',
+    objectives: [{ type: ObjectiveType.VISIT, x: Math.round(Math.cos(angle) * distance), y: Math.round(Math.sin(angle) * distance) }],
+    rewards: random.pick(QUEST_REWARDS),
+  });
+
+  quests.push({
+    id: 'generated:journey',
+    objectives: [{ type: ObjectiveType.WALK, distance: 500 + random.nextInt(6) * 100 }],
+    rewards: random.pick(QUEST_REWARDS),
+  });
+
+  return quests;
+};
+
+// Built-in, generated and imported quests of a world, in that order
+export const worldQuests = (world: WorldGenerator, custom: QuestDefinition[]): QuestDefinition[] => [
+  ...QUEST_DEFINITIONS,
+  ...generateQuests(world),
+  ...custom,
+];
+
+// --- Custom quests from JSON ---
+
+const fail = (message: string): never => {
+  throw new Error(`Invalid quest definition: ${message}`);
+};
+
+const checkObject = (value: unknown, where: string): Record<string, unknown> => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) fail(`${where} must be an object`);
+  return value as Record<string, unknown>;
+};
+
+// Coordinates may be anywhere on the map
+const checkNumber = (value: unknown, where: string): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) fail(`${where} must be a number`);
+  return value as number;
+};
+
+// Item counts and distances. Zero or less would be done before the quest starts.
+const checkCount = (value: unknown, where: string): number => {
+  if (!Number.isInteger(value) || (value as number) < 1) fail(`${where} must be a whole number of at least 1`);
+  return value as number;
+};
+
+const checkItem = (value: unknown, where: string): string => {
+  if (typeof value !== 'string' || !value) fail(`${where}: missing item`);
+  return resolveItemKey(value as string);
+};
+
+const parseObjective = (value: unknown, where: string): QuestObjective => {
+  const raw = checkObject(value, where);
+  switch (raw.type) {
+    case ObjectiveType.COLLECT:
+      return { type: ObjectiveType.COLLECT, item: checkItem(raw.item, where), count: checkCount(raw.count, `${where}.count`) };
+    case ObjectiveType.REACH_BIOME:
+      if (typeof raw.biome !== 'string' || !raw.biome) fail(`${where}: missing biome`);
+      return { type: ObjectiveType.REACH_BIOME, biome: raw.biome as BiomeId };
+    case ObjectiveType.WALK:
+      return { type: ObjectiveType.WALK, distance: checkCount(raw.distance, `${where}.distance`) };
+    case ObjectiveType.VISIT:
+      return {
+        type: ObjectiveType.VISIT,
+        x: checkNumber(raw.x, `${where}.x`),
+        y: checkNumber(raw.y, `${where}.y`),
+        name: typeof raw.name === 'string' ? raw.name : undefined,
+      };
+    case ObjectiveType.USE_PORTAL:
+      return { type: ObjectiveType.USE_PORTAL };
+    default:
+      return fail(`${where}: unknown objective type "${raw.type}"`);
+  }
+};
+
+const parseQuest = (value: unknown): QuestDefinition => {
+  if (!value || typeof value !== 'object') fail('expected an object');
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.id !== 'string' || !raw.id) fail('missing id');
+  const id = raw.id as string;
+
+  if (!Array.isArray(raw.objectives) || raw.objectives.length === 0) fail(`${id}: objectives must be a non-empty array`);
+  const objectives = (raw.objectives as unknown[]).map((objective, i) => parseObjective(objective, `${id}.objectives[${i}]`));
+
+  if (raw.rewards !== undefined && !Array.isArray(raw.rewards)) fail(`${id}: rewards must be an array`);
+  const rewards = ((raw.rewards ?? []) as unknown[]).map((entry, i) => {
+    const stack = checkObject(entry, `${id}.rewards[${i}]`);
+    return {
+      item: checkItem(stack.item, `${id}.rewards[${i}]`),
+      count: checkCount(stack.count, `${id}.rewards[${i}].count`),
+    };
+  });
+
+  return {
+    id,
+    title: typeof raw.title === 'string' ? raw.title : undefined,
+    objectives,
+    rewards,
+  };
+};
+
+// Accepts a single quest or an array of them. Throws on malformed input.
+export const parseQuestDefinitions = (json: string): QuestDefinition[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    return fail('not valid JSON');
+  }
+  return (Array.isArray(data) ? data : [data]).map(parseQuest);
+};
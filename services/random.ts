@@ -0,0 +1,105 @@
+// Integer-only randomness: everything here is 32-bit math (Math.imul and
+// shifts), so results are bit-identical on every JS engine.
+
+const PRIME_1 = 0x9e3779b1;
+const PRIME_2 = 0x85ebca77;
+const PRIME_3 = 0xc2b2ae3d;
+const PRIME_4 = 0x27d4eb2f;
+const PRIME_5 = 0x165667b1;
+
+const rotl = (value: number, bits: number) => (value << bits) | (value >>> (32 - bits));
+
+const mixIn = (hash: number, value: number) => Math.imul(rotl((hash + Math.imul(value | 0, PRIME_3)) | 0, 17), PRIME_4);
+
+// xxHash32-style hash of a lattice point. Returns an unsigned 32-bit integer.
+export const hashCoords = (seed: number, x: number, y: number, layer: number): number => {
+  let hash = (seed + PRIME_5) | 0;
+  hash = mixIn(hash, x);
+  hash = mixIn(hash, y);
+  hash = mixIn(hash, layer);
+
+  // Final avalanche
+  hash ^= hash >>> 15;
+  hash = Math.imul(hash, PRIME_2);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, PRIME_3);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+};
+
+// FNV-1a, for turning seed strings and stream names into 32-bit seeds
+export const hashString = (str: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Seedable random sequence (mulberry32) whose whole state is one integer, so
+// it can be saved and resumed exactly where it left off
+export class RandomStream {
+  private state: number;
+
+  constructor(state: number) {
+    this.state = state | 0;
+  }
+
+  // A stream for one purpose ('loot', 'weather', ...) in one world
+  public static fromSeed(worldSeed: string, name: string): RandomStream {
+    return new RandomStream(hashString(`${worldSeed}/${name}`));
+  }
+
+  public getState(): number {
+    return this.state;
+  }
+
+  // 0 (inclusive) to 1 (exclusive), like Math.random
+  public next(): number {
+    let t = (this.state = (this.state + 0x6d2b79f5) | 0);
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // 0 to max - 1
+  public nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  public chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  public pick<T>(items: T[]): T {
+    return items[this.nextInt(items.length)];
+  }
+}
+
+// The named gameplay streams of one world. Streams are created on first use,
+// so adding a new one never shifts the sequences of the existing ones.
+export class RandomStreams {
+  private worldSeed: string;
+  private streams: Map<string, RandomStream>;
+
+  constructor(worldSeed: string, saved: Record<string, number> = {}) {
+    this.worldSeed = worldSeed;
+    this.streams = new Map(Object.entries(saved).map(([name, state]) => [name, new RandomStream(state)]));
+  }
+
+  public get(name: string): RandomStream {
+    let stream = this.streams.get(name);
+    if (!stream) {
+      stream = RandomStream.fromSeed(this.worldSeed, name);
+      this.streams.set(name, stream);
+    }
+    return stream;
+  }
+
+  public serialize(): Record<string, number> {
+    const states: Record<string, number> = {};
+    this.streams.forEach((stream, name) => { states[name] = stream.getState(); });
+    return states;
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { RESOURCE_NODE_RULES } from '../constants';
+import { TileType } from '../types';
+import { ResourceNodes } from './resourceNodes';
+
+const REGROW_MS = RESOURCE_NODE_RULES[TileType.GRASS]!.regrowSeconds * 1000;
+
+// Takes everything from the node at (x, y), starting at `now`
+const exhaust = (nodes: ResourceNodes, x: number, y: number, now: number) => {
+  while (nodes.take(x, y, TileType.GRASS, now));
+};
+
+describe('resource nodes', () => {
+  it('runs out after its capacity and only stores touched nodes', () => {
+    const nodes = new ResourceNodes('seed');
+    const capacity = nodes.capacity(3, 4, TileType.GRASS);
+    expect(nodes.remaining(3, 4, TileType.GRASS, 0)).toBe(capacity);
+    expect(nodes.serialize()).toEqual([]);
+
+    exhaust(nodes, 3, 4, 0);
+    expect(nodes.remaining(3, 4, TileType.GRASS, 0)).toBe(0);
+    expect(nodes.take(3, 4, TileType.GRASS, 0)).toBe(false);
+    expect(nodes.serialize().map(([key]) => key)).toEqual(['3,4']);
+  });
+
+  it('regrows one unit per interval without losing partial intervals', () => {
+    const nodes = new ResourceNodes('seed');
+    const capacity = nodes.capacity(3, 4, TileType.GRASS);
+    exhaust(nodes, 3, 4, 0);
+
+    expect(nodes.remaining(3, 4, TileType.GRASS, REGROW_MS - 1)).toBe(0);
+    expect(nodes.remaining(3, 4, TileType.GRASS, REGROW_MS * 1.5)).toBe(Math.min(1, capacity));
+    // Checking halfway through an interval doesn't restart it
+    expect(nodes.remaining(3, 4, TileType.GRASS, REGROW_MS * 2)).toBe(Math.min(2, capacity));
+
+    // A fully grown node is forgotten
+    expect(nodes.remaining(3, 4, TileType.GRASS, REGROW_MS * capacity)).toBe(capacity);
+    expect(nodes.serialize()).toEqual([]);
+  });
+
+  it('keeps depletion across a save', () => {
+    const nodes = new ResourceNodes('seed');
+    nodes.take(3, 4, TileType.GRASS, 0);
+    const restored = new ResourceNodes('seed', nodes.serialize());
+
+    expect(restored.remaining(3, 4, TileType.GRASS, 0)).toBe(nodes.capacity(3, 4, TileType.GRASS) - 1);
+    expect(restored.capacity(3, 4, TileType.GRASS)).toBe(new ResourceNodes('seed').capacity(3, 4, TileType.GRASS));
+  });
+});
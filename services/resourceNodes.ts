@@ -0,0 +1,62 @@
+import { DEFAULT_RESOURCE_NODE, RESOURCE_NODE_RULES } from '../constants';
+import { ResourceNodeState, TileType } from '../types';
+import { hashCoords, hashString } from './random';
+
+const LAYER_RESOURCE_YIELD = 500;
+
+// Finite, regrowing yield per tile. A node's capacity comes from the seed, so
+// only nodes that have been gathered from need to be stored (and saved).
+export class ResourceNodes {
+  private seed: number;
+  private depleted: Map<string, ResourceNodeState>;
+
+  constructor(worldSeed: string, saved: [string, ResourceNodeState][] = []) {
+    this.seed = hashString(`${worldSeed}/resources`);
+    this.depleted = new Map(saved);
+  }
+
+  public capacity(x: number, y: number, terrain: TileType): number {
+    const { maxYield } = RESOURCE_NODE_RULES[terrain] ?? DEFAULT_RESOURCE_NODE;
+    return 1 + (hashCoords(this.seed, x, y, LAYER_RESOURCE_YIELD) % maxYield);
+  }
+
+  public remaining(x: number, y: number, terrain: TileType, now: number): number {
+    return this.regrow(x, y, terrain, now)?.remaining ?? this.capacity(x, y, terrain);
+  }
+
+  // Takes one unit; false when the node is exhausted
+  public take(x: number, y: number, terrain: TileType, now: number): boolean {
+    // A full node starts its regrowth clock on the first unit taken
+    const state = this.regrow(x, y, terrain, now)
+      ?? { remaining: this.capacity(x, y, terrain), updatedAt: now };
+    if (state.remaining <= 0) return false;
+
+    this.depleted.set(`${x},${y}`, { remaining: state.remaining - 1, updatedAt: state.updatedAt });
+    return true;
+  }
+
+  public serialize(): [string, ResourceNodeState][] {
+    return Array.from(this.depleted.entries());
+  }
+
+  // Applies the regrowth due since the node was last touched. Fully grown
+  // nodes are forgotten (null) since they look exactly like untouched ones.
+  private regrow(x: number, y: number, terrain: TileType, now: number): ResourceNodeState | null {
+    const key = `${x},${y}`;
+    const state = this.depleted.get(key);
+    if (!state) return null;
+
+    const capacity = this.capacity(x, y, terrain);
+    const interval = (RESOURCE_NODE_RULES[terrain] ?? DEFAULT_RESOURCE_NODE).regrowSeconds * 1000;
+    const grown = Math.floor((now - state.updatedAt) / interval);
+    if (state.remaining + grown >= capacity) {
+      this.depleted.delete(key);
+      return null;
+    }
+
+    // Keep the partial interval so regrowth doesn't lose time
+    const next = { remaining: state.remaining + grown, updatedAt: state.updatedAt + grown * interval };
+    this.depleted.set(key, next);
+    return next;
+  }
+}
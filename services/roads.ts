@@ -0,0 +1,232 @@
+import { TileType } from '../types';
+import { LruCache } from './lruCache';
+import { STRUCTURE_REGION_SIZE } from './structures';
+
+// What road planning needs to know about the world underneath it
+export interface RoadSampler {
+  sample(x: number, y: number): { terrain: TileType; blocked: boolean };
+  settlement(rx: number, ry: number): { x: number; y: number } | null;
+}
+
+// Step costs: roads bend around water and mountains when a detour is cheaper,
+// and cross them (as bridges / mountain passes) when it isn't.
+const STEP_COST: Partial<Record<TileType, number>> = {
+  [TileType.WATER]: 8,
+  [TileType.DEEP_WATER]: 14,
+  [TileType.MOUNTAIN]: 12,
+  [TileType.SNOW]: 3,
+  [TileType.FOREST]: 2,
+  [TileType.STONE]: 2,
+};
+const BLOCKED_COST = 40;
+
+const NEIGHBORS = [[0, -1], [1, 0], [0, 1], [-1, 0]];
+
+const isWater = (terrain: TileType) => terrain === TileType.WATER || terrain === TileType.DEEP_WATER;
+
+// Binary min-heap of node indices; priorities are stored with each entry so a
+// node can be pushed again with a better priority (stale entries are skipped)
+class NodeHeap {
+  private nodes: number[] = [];
+  private priorities: number[] = [];
+
+  public get size() {
+    return this.nodes.length;
+  }
+
+  public push(node: number, priority: number) {
+    this.nodes.push(node);
+    this.priorities.push(priority);
+    let i = this.nodes.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.priorities[parent] <= this.priorities[i]) break;
+      this.swap(parent, i);
+      i = parent;
+    }
+  }
+
+  public pop(): number {
+    const top = this.nodes[0];
+    const lastNode = this.nodes.pop()!;
+    const lastPriority = this.priorities.pop()!;
+    if (this.nodes.length > 0) {
+      this.nodes[0] = lastNode;
+      this.priorities[0] = lastPriority;
+      let i = 0;
+      while (true) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.nodes.length && this.priorities[left] < this.priorities[smallest]) smallest = left;
+        if (right < this.nodes.length && this.priorities[right] < this.priorities[smallest]) smallest = right;
+        if (smallest === i) break;
+        this.swap(smallest, i);
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number) {
+    [this.nodes[a], this.nodes[b]] = [this.nodes[b], this.nodes[a]];
+    [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+  }
+}
+
+// Every settlement is linked to its nearest settlement among the structure
+// regions up to LINK_REACH ahead of it (later rows, or later in the same row).
+// A road stays inside the regions spanned by its two ends, so a tile only has
+// to ask the settlements that could reach its region.
+const LINK_REACH = 2;
+
+export class RoadNetwork {
+  private sampler: RoadSampler;
+  private links: LruCache<Map<string, TileType>>; // Road leaving each region's settlement, by region
+  private regionRoads: LruCache<Map<string, TileType>>; // All road tiles inside a region, by region
+
+  // Roads are kept for `capacity` regions; a region reads up to 15 links, so
+  // four times as many links are kept
+  constructor(sampler: RoadSampler, capacity: number = 64) {
+    this.sampler = sampler;
+    this.links = new LruCache(capacity * 4);
+    this.regionRoads = new LruCache(capacity);
+  }
+
+  // ROAD, BRIDGE or null
+  public getRoad(x: number, y: number): TileType | null {
+    const rx = Math.floor(x / STRUCTURE_REGION_SIZE);
+    const ry = Math.floor(y / STRUCTURE_REGION_SIZE);
+    return this.getRegionRoads(rx, ry).get(`${x},${y}`) ?? null;
+  }
+
+  private getRegionRoads(rx: number, ry: number): Map<string, TileType> {
+    const key = `${rx},${ry}`;
+    const cached = this.regionRoads.get(key);
+    if (cached) return cached;
+
+    const minX = rx * STRUCTURE_REGION_SIZE;
+    const minY = ry * STRUCTURE_REGION_SIZE;
+    const roads = new Map<string, TileType>();
+
+    for (let ay = ry - LINK_REACH; ay <= ry; ay++) {
+      for (let ax = rx - LINK_REACH; ax <= rx + LINK_REACH; ax++) {
+        this.getLink(ax, ay).forEach((kind, tileKey) => {
+          const [tx, ty] = tileKey.split(',').map(Number);
+          if (tx < minX || tx >= minX + STRUCTURE_REGION_SIZE || ty < minY || ty >= minY + STRUCTURE_REGION_SIZE) return;
+          roads.set(tileKey, kind);
+        });
+      }
+    }
+
+    this.regionRoads.set(key, roads);
+    return roads;
+  }
+
+  // The road leaving the settlement in region (ax, ay), if it has one
+  private getLink(ax: number, ay: number): Map<string, TileType> {
+    const key = `${ax},${ay}`;
+    const cached = this.links.get(key);
+    if (cached) return cached;
+
+    let road = new Map<string, TileType>();
+    const from = this.sampler.settlement(ax, ay);
+
+    if (from) {
+      let nearest: { x: number; y: number; rx: number; ry: number; distance: number } | null = null;
+      for (let by = ay; by <= ay + LINK_REACH; by++) {
+        for (let bx = ax - LINK_REACH; bx <= ax + LINK_REACH; bx++) {
+          if (by === ay && bx <= ax) continue;
+          const to = this.sampler.settlement(bx, by);
+          if (!to) continue;
+          const distance = Math.hypot(to.x - from.x, to.y - from.y);
+          if (!nearest || distance < nearest.distance) nearest = { ...to, rx: bx, ry: by, distance };
+        }
+      }
+
+      if (nearest) {
+        road = this.findPath(from, nearest, {
+          minX: Math.min(ax, nearest.rx) * STRUCTURE_REGION_SIZE,
+          minY: ay * STRUCTURE_REGION_SIZE,
+          maxX: (Math.max(ax, nearest.rx) + 1) * STRUCTURE_REGION_SIZE,
+          maxY: (nearest.ry + 1) * STRUCTURE_REGION_SIZE,
+        });
+      }
+    }
+
+    this.links.set(key, road);
+    return road;
+  }
+
+  // A* inside the bounding box of the regions being linked
+  private findPath(
+    from: { x: number; y: number },
+    to: { x: number; y: number },
+    bounds: { minX: number; minY: number; maxX: number; maxY: number }
+  ): Map<string, TileType> {
+    const { minX, minY } = bounds;
+    const width = bounds.maxX - minX;
+    const height = bounds.maxY - minY;
+    const size = width * height;
+
+    const index = (x: number, y: number) => (y - minY) * width + (x - minX);
+    const cost = new Float64Array(size).fill(Infinity);
+    const cameFrom = new Int32Array(size).fill(-1);
+    const closed = new Uint8Array(size);
+    const terrains: (TileType | undefined)[] = new Array(size);
+    const stepCosts = new Float64Array(size);
+
+    const stepCostAt = (i: number, x: number, y: number): number => {
+      if (terrains[i] === undefined) {
+        const { terrain, blocked } = this.sampler.sample(x, y);
+        terrains[i] = terrain;
+        stepCosts[i] = blocked ? BLOCKED_COST : (STEP_COST[terrain] ?? 1);
+      }
+      return stepCosts[i];
+    };
+
+    const start = index(from.x, from.y);
+    const goal = index(to.x, to.y);
+    const heuristic = (x: number, y: number) => Math.abs(x - to.x) + Math.abs(y - to.y);
+
+    cost[start] = 0;
+    stepCostAt(start, from.x, from.y);
+    const open = new NodeHeap();
+    open.push(start, heuristic(from.x, from.y));
+
+    while (open.size > 0) {
+      const current = open.pop();
+      if (current === goal) break;
+      if (closed[current]) continue;
+      closed[current] = 1;
+
+      const cx = minX + (current % width);
+      const cy = minY + Math.floor(current / width);
+
+      for (const [dx, dy] of NEIGHBORS) {
+        const nx = cx + dx;
+        const ny = cy + dy;
+        if (nx < minX || nx >= minX + width || ny < minY || ny >= minY + height) continue;
+        const next = index(nx, ny);
+        if (closed[next]) continue;
+
+        const nextCost = cost[current] + stepCostAt(next, nx, ny);
+        if (nextCost < cost[next]) {
+          cost[next] = nextCost;
+          cameFrom[next] = current;
+          open.push(next, nextCost + heuristic(nx, ny));
+        }
+      }
+    }
+
+    const road = new Map<string, TileType>();
+    if (cameFrom[goal] === -1) return road;
+
+    for (let node = goal; node !== -1; node = cameFrom[node]) {
+      const x = minX + (node % width);
+      const y = minY + Math.floor(node / width);
+      road.set(`${x},${y}`, isWater(terrains[node]!) ? TileType.BRIDGE : TileType.ROAD);
+    }
+    return road;
+  }
+}
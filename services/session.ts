@@ -0,0 +1,56 @@
+import { GameSaveState, QuestDefinition } from '../types';
+import { DialogueStates } from './dialogue';
+import { WeatherSystem } from './environment';
+import { QuestLog } from './quests';
+import { RandomStreams } from './random';
+import { ResourceNodes } from './resourceNodes';
+import { StorageService } from './storage';
+
+// The parts of a save a session writes
+export type SessionSave = Pick<GameSaveState, 'random' | 'gameTime' | 'resourceNodes' | 'weather' | 'quests' | 'dialogues'>;
+
+// One world in play, besides its terrain and what moves on it: the game
+// clock, seeded randomness, depleted resources, weather and the per-world
+// logs. Built from the world's save, or fresh for a world without one.
+export class GameSession {
+  public readonly seed: string;
+  public gameTime: number; // In-game ms; only advances while the game is running
+  public random: RandomStreams; // Saved, so gameplay randomness replays the same way
+  public nodes: ResourceNodes;
+  public weather: WeatherSystem;
+  public quests: QuestLog;
+  public dialogues: DialogueStates;
+
+  constructor(seed: string, quests: QuestDefinition[], saved: SessionSave | null = null) {
+    this.seed = seed;
+    this.gameTime = saved?.gameTime ?? 0;
+    this.random = new RandomStreams(seed, saved?.random);
+    this.nodes = new ResourceNodes(seed, saved?.resourceNodes);
+    this.weather = new WeatherSystem(saved?.weather);
+    this.quests = new QuestLog(quests, saved?.quests);
+    this.dialogues = new DialogueStates(saved?.dialogues);
+  }
+
+  // Newly imported quests join the log; progress on the others carries over
+  public setQuests(quests: QuestDefinition[]) {
+    this.quests = new QuestLog(quests, this.quests.serialize());
+  }
+
+  // Portals leave before the next autosave, so quest progress made since
+  // then goes into the save right away
+  public saveQuestProgress() {
+    const saved = StorageService.loadGameState();
+    if (saved?.seed === this.seed) StorageService.saveGameState({ ...saved, quests: this.quests.serialize() });
+  }
+
+  public serialize(): SessionSave {
+    return {
+      random: this.random.serialize(),
+      gameTime: this.gameTime,
+      resourceNodes: this.nodes.serialize(),
+      weather: this.weather.serialize(),
+      quests: this.quests.serialize(),
+      dialogues: this.dialogues.serialize(),
+    };
+  }
+}
@@ -0,0 +1,245 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ENTITY_DESPAWN_DISTANCE, ENTITY_SPAWN_INTERVAL_MS, ENTITY_SPAWN_MAX_DISTANCE, ENTITY_SPAWN_MIN_DISTANCE, HUNGER_PER_SECOND,
+  MAX_ENTITIES, MAX_VITAL, PLAYER_SPEED, RUN_SPEED_MULTIPLIER, RUN_STAMINA_PER_SECOND, TERRAIN_SPEED,
+} from '../constants';
+import { BiomeId, Direction, EntityBehavior, EntityKind, ObjectType, TileType, Weather, WorldTile } from '../types';
+import { knockBack } from './combat';
+import { SpriteKind } from './ecs';
+import { WeatherSystem } from './environment';
+import { RandomStream } from './random';
+import { Simulation, SimulationContext } from './simulation';
+
+// Open grass everywhere, except where a tile is overridden by "x,y"
+const world = (overrides: Record<string, Partial<WorldTile>> = {}) => (x: number, y: number): WorldTile => ({
+  x,
+  y,
+  terrain: TileType.GRASS,
+  biome: 'plains' as BiomeId,
+  object: null,
+  river: false,
+  variant: 0,
+  ...overrides[`${x},${y}`],
+});
+
+const context = (overrides: Partial<SimulationContext> = {}): SimulationContext => {
+  const tiles = world();
+  return {
+    getTile: tiles,
+    peekTile: tiles,
+    animalsAt: () => ['rabbit'],
+    now: 0,
+    random: new RandomStream(1),
+    control: 'player',
+    night: false,
+    peaceful: false,
+    daytimeHostiles: () => [],
+    weather: new WeatherSystem(),
+    weatherOdds: () => [],
+    weatherRandom: new RandomStream(2),
+    ...overrides,
+  };
+};
+
+const addCreature = (sim: Simulation, x: number, y: number, tamed = false) =>
+  sim.entities.create({
+    position: { x, y },
+    velocity: { dx: 0, dy: 0 },
+    facing: { direction: Direction.DOWN, moving: false },
+    sprite: { kind: SpriteKind.ICON, key: 'rabbit' },
+    collider: { land: true, water: false, blocked: false, touched: null },
+    creature: { kind: EntityKind.ANIMAL, species: 'rabbit', behavior: EntityBehavior.WANDER, tamed, target: null, idleUntil: Infinity },
+  });
+
+describe('collision', () => {
+  it('stops the player at a solid object but still turns it to face it', () => {
+    const tiles = world({ '1,0': { object: ObjectType.TREE_OAK } });
+    const sim = new Simulation();
+    sim.input.right = true;
+    sim.step(100, context({ getTile: tiles, peekTile: tiles }));
+
+    expect(sim.position).toEqual({ x: 0, y: 0 });
+    expect(sim.facing.direction).toBe(Direction.RIGHT);
+    expect(sim.entities.get(sim.player, 'collider').blocked).toBe(true);
+  });
+
+  it('stops a creature at tiles that are not loaded yet', () => {
+    const sim = new Simulation();
+    // Tamed, so it heads for the player on its own
+    const id = addCreature(sim, 5, 0, true);
+    const tiles = world();
+    sim.step(500, context({ peekTile: (x, y) => (x > 0 ? null : tiles(x, y)) }));
+
+    expect(sim.entities.get(id, 'creature').behavior).toBe(EntityBehavior.FOLLOW);
+    expect(sim.entities.get(id, 'position')).toEqual({ x: 5, y: 0 });
+    expect(sim.entities.get(id, 'collider').blocked).toBe(true);
+  });
+
+  it('reports a touched portal', () => {
+    const portal = { targetSeed: 'elsewhere', targetX: 3, targetY: 4 };
+    const tiles = world({ '0,1': { customSprite: { id: 'p', name: 'Portal', createdAt: 0, width: 0, height: 0, palette: {}, data: [], portal } } });
+    const sim = new Simulation();
+    sim.input.down = true;
+    sim.step(100, context({ getTile: tiles, peekTile: tiles }));
+
+    expect(sim.portal).toEqual(portal);
+  });
+});
+
+describe('movement', () => {
+  it('walks the player and records distance and explored bounds', () => {
+    const sim = new Simulation();
+    sim.input.right = true;
+    sim.step(100, context());
+
+    expect(sim.position.x).toBeCloseTo(PLAYER_SPEED * 0.1);
+    expect(sim.distance).toBeCloseTo(PLAYER_SPEED * 0.1);
+    expect(sim.bounds.maxX).toBeCloseTo(PLAYER_SPEED * 0.1);
+    expect(sim.facing.moving).toBe(true);
+  });
+
+  it('is faster on roads and while running with stamina left', () => {
+    const road = new Simulation();
+    road.input.right = true;
+    const roads = (x: number, y: number): WorldTile => ({ ...world()(x, y), terrain: TileType.ROAD });
+    road.step(100, context({ getTile: roads, peekTile: roads }));
+    expect(road.position.x).toBeCloseTo(PLAYER_SPEED * TERRAIN_SPEED[TileType.ROAD] * 0.1);
+
+    const running = new Simulation();
+    running.input.right = true;
+    running.input.run = true;
+    running.step(100, context());
+    expect(running.position.x).toBeCloseTo(PLAYER_SPEED * RUN_SPEED_MULTIPLIER * 0.1);
+    expect(running.controlled.running).toBe(true);
+
+    const tired = new Simulation();
+    tired.vitals.stamina = 0;
+    tired.input.right = true;
+    tired.input.run = true;
+    tired.step(100, context());
+    expect(tired.position.x).toBeCloseTo(PLAYER_SPEED * 0.1);
+    expect(tired.controlled.running).toBe(false);
+  });
+
+  it('does not count being knocked back as distance walked', () => {
+    const sim = new Simulation();
+    knockBack(sim, sim.player, -1, 0, 0);
+    sim.input.right = true;
+    sim.step(100, context());
+
+    expect(sim.position.x).toBeGreaterThan(0);
+    expect(sim.distance).toBe(0);
+  });
+
+  it('ignores input while the player is not in control', () => {
+    const sim = new Simulation();
+    sim.input.right = true;
+    sim.step(100, context({ control: 'none' }));
+    sim.step(100, context({ control: 'cursor', now: 100 }));
+
+    expect(sim.position).toEqual({ x: 0, y: 0 });
+    expect(sim.cursor).toEqual({ x: 1, y: 0 });
+  });
+});
+
+describe('spawning', () => {
+  it('spawns an animal living on a loaded tile out of view, once per interval', () => {
+    const sim = new Simulation();
+    sim.step(16, context({ now: ENTITY_SPAWN_INTERVAL_MS - 1 }));
+    expect(sim.entities.count('creature')).toBe(0);
+
+    sim.step(16, context({ now: ENTITY_SPAWN_INTERVAL_MS }));
+    const [id] = sim.entities.query('creature');
+    expect(sim.entities.get(id, 'creature').species).toBe('rabbit');
+    // Rounded to a tile, and the spawn step may already have moved it a little
+    const { x, y } = sim.entities.get(id, 'position');
+    expect(Math.hypot(x, y)).toBeGreaterThanOrEqual(ENTITY_SPAWN_MIN_DISTANCE - 1);
+    expect(Math.hypot(x, y)).toBeLessThanOrEqual(ENTITY_SPAWN_MAX_DISTANCE + 1);
+  });
+
+  it('spawns nothing where chunks are not loaded or the cap is reached', () => {
+    const unloaded = new Simulation();
+    unloaded.step(16, context({ now: ENTITY_SPAWN_INTERVAL_MS, peekTile: () => null }));
+    expect(unloaded.entities.count('creature')).toBe(0);
+
+    const crowded = new Simulation();
+    for (let i = 0; i < MAX_ENTITIES; i++) addCreature(crowded, i, 3);
+    crowded.step(16, context({ now: ENTITY_SPAWN_INTERVAL_MS }));
+    expect(crowded.entities.count('creature')).toBe(MAX_ENTITIES);
+  });
+
+  it('forgets creatures left far behind, but tamed ones catch up', () => {
+    const sim = new Simulation();
+    const wild = addCreature(sim, ENTITY_DESPAWN_DISTANCE + 1, 0);
+    const tamed = addCreature(sim, 0, ENTITY_DESPAWN_DISTANCE + 1, true);
+    sim.step(16, context());
+
+    expect(sim.entities.has(wild, 'creature')).toBe(false);
+    expect(sim.entities.get(tamed, 'position')).toEqual({ x: 0, y: 0 });
+  });
+
+  it('sends hostiles away in peaceful mode', () => {
+    const sim = new Simulation();
+    const wolf = addCreature(sim, 2, 0);
+    sim.entities.add(wolf, 'hostile', { damage: 10, readyAt: 0 });
+    sim.step(16, context({ peaceful: true }));
+
+    expect(sim.entities.has(wolf, 'creature')).toBe(false);
+  });
+});
+
+describe('weather', () => {
+  const rainy = () => [{ weather: Weather.RAIN, chance: 0.5 }];
+
+  it('rolls the weather where the player stands on the game clock', () => {
+    // Stepped every second for ten minutes, or once at the end
+    const often = new Simulation();
+    const oftenContext = context({ weatherOdds: rainy });
+    for (let now = 0; now <= 600_000; now += 1000) often.step(1000, { ...oftenContext, now });
+
+    const once = new Simulation();
+    const onceContext = context({ weatherOdds: rainy });
+    once.step(0, onceContext);
+    once.step(600_000, { ...onceContext, now: 600_000 });
+
+    expect(once.weather).toBe(often.weather);
+    expect(onceContext.weather.serialize()).toEqual(oftenContext.weather.serialize());
+  });
+
+  it('picks up where a save left off', () => {
+    const sim = new Simulation();
+    const ctx = context({ weatherOdds: rainy });
+    sim.step(0, ctx);
+    const loaded = new WeatherSystem(ctx.weather.serialize());
+    const [[, state]] = ctx.weather.serialize();
+
+    sim.step(0, { ...ctx, weather: loaded, now: state.until - 1 });
+    expect(sim.weather).toBe(state.weather);
+  });
+});
+
+describe('survival', () => {
+  it('runs the vitals on the game clock and takes bites off health', () => {
+    const sim = new Simulation();
+    sim.vitals.stamina = 50;
+    sim.input.right = true;
+    sim.input.run = true;
+    sim.damageTaken = 10;
+    sim.step(1000, context());
+
+    expect(sim.vitals.stamina).toBeCloseTo(50 - RUN_STAMINA_PER_SECOND);
+    expect(sim.vitals.hunger).toBeCloseTo(MAX_VITAL - HUNGER_PER_SECOND);
+    expect(sim.vitals.health).toBeLessThanOrEqual(MAX_VITAL - 10);
+    expect(sim.damageTaken).toBe(0);
+  });
+
+  it('stops once the player is dead', () => {
+    const sim = new Simulation();
+    sim.vitals = { health: 0, hunger: 0, stamina: 0 };
+    sim.damageTaken = 10;
+    sim.step(1000, context());
+
+    expect(sim.vitals).toEqual({ health: 0, hunger: 0, stamina: 0 });
+    expect(sim.damageTaken).toBe(0);
+  });
+});
@@ -0,0 +1,288 @@
+import { CURSOR_REPEAT_MS, DAMAGE_LABEL_MS, PLAYER_SPEED, RUN_SPEED_MULTIPLIER, TERRAIN_SPEED } from '../constants';
+import { BiomeId, Direction, EntityBehavior, ExplorationBounds, PlayerVitals, PortalConfig, Weather, WeatherChance, WorldTile } from '../types';
+import { Controlled, EntityId, EntityStore, Facing, Position, Sprite, SpriteKind } from './ecs';
+import { combatSystem, knockbackSystem, labelSystem } from './combat';
+import { behaviorSystem, blocksMovement, isWater, spawnSystem } from './entities';
+import { WeatherSystem, weatherSystem } from './environment';
+import { RandomStream } from './random';
+import { createVitals, survivalSystem } from './survival';
+
+// Directions held this frame, filled in by whatever reads the keyboard
+export interface SimulationInput {
+  up: boolean;
+  down: boolean;
+  left: boolean;
+  right: boolean;
+  run: boolean;
+}
+
+// What the input currently drives: the player, the placement cursor, or nothing (menus, death)
+export type ControlMode = 'player' | 'cursor' | 'none';
+
+// The world as the simulation sees it on one step
+export interface SimulationContext {
+  getTile: (x: number, y: number) => WorldTile; // Generates the tile when its chunk isn't loaded
+  peekTile: (x: number, y: number) => WorldTile | null;
+  animalsAt: (tile: WorldTile) => string[]; // Item keys of the animals living on a tile
+  now: number; // Game time (ms)
+  random: RandomStream;
+  control: ControlMode;
+  night: boolean;
+  peaceful: boolean; // No hostiles and no fighting
+  daytimeHostiles: (biome: BiomeId) => string[]; // Hostiles that stay out by day in a biome
+  weather: WeatherSystem; // Per-biome weather, kept with the save
+  weatherOdds: (biome: BiomeId) => WeatherChance[];
+  weatherRandom: RandomStream;
+}
+
+// One entity to draw, in world tiles
+export interface Renderable {
+  x: number;
+  y: number;
+  sprite: Sprite;
+  direction: Direction;
+  frame: number; // Walk cycle frame, 0 or 1
+  tamed: boolean;
+}
+
+export interface FloatingLabel {
+  x: number;
+  y: number;
+  text: string;
+  color: string;
+  alpha: number; // Fades from 1 to 0
+}
+
+export type System = (sim: Simulation, seconds: number, ctx: SimulationContext) => void;
+
+// --- Systems ---
+
+const inputSystem: System = (sim, seconds, ctx) => {
+  const { input, entities } = sim;
+
+  if (ctx.control === 'cursor' && ctx.now >= sim.cursorReadyAt) {
+    const stepX = (input.right ? 1 : 0) - (input.left ? 1 : 0);
+    const stepY = (input.down ? 1 : 0) - (input.up ? 1 : 0);
+    if (stepX !== 0 || stepY !== 0) {
+      sim.cursor.x += stepX;
+      sim.cursor.y += stepY;
+      sim.cursorReadyAt = ctx.now + CURSOR_REPEAT_MS;
+    }
+  }
+
+  entities.query('controlled', 'velocity', 'position').forEach(id => {
+    const controlled = entities.get(id, 'controlled');
+    const velocity = entities.get(id, 'velocity');
+    const position = entities.get(id, 'position');
+    velocity.dx = 0;
+    velocity.dy = 0;
+    controlled.running = false;
+    controlled.swimming = false;
+    if (ctx.control !== 'player') return;
+
+    // Roads are quicker to travel than open terrain; running lasts while stamina does
+    const ground = ctx.peekTile(Math.round(position.x), Math.round(position.y));
+    const sprinting = input.run && sim.vitals.stamina > 0;
+    const speed = PLAYER_SPEED * (ground ? (TERRAIN_SPEED[ground.terrain] ?? 1) : 1) * (sprinting ? RUN_SPEED_MULTIPLIER : 1);
+    if (input.up) velocity.dy -= speed;
+    if (input.down) velocity.dy += speed;
+    if (input.left) velocity.dx -= speed;
+    if (input.right) velocity.dx += speed;
+
+    controlled.running = sprinting && (velocity.dx !== 0 || velocity.dy !== 0);
+    controlled.swimming = !!ground && isWater(ground.terrain);
+  });
+};
+
+// Checks the tile each moving entity is about to enter (by its center point)
+const collisionSystem: System = (sim, seconds, ctx) => {
+  const { entities } = sim;
+  entities.query('position', 'velocity', 'collider').forEach(id => {
+    const position = entities.get(id, 'position');
+    const velocity = entities.get(id, 'velocity');
+    const collider = entities.get(id, 'collider');
+    collider.blocked = false;
+    collider.touched = null;
+    if (velocity.dx === 0 && velocity.dy === 0) return;
+
+    const x = Math.round(position.x + velocity.dx * seconds);
+    const y = Math.round(position.y + velocity.dy * seconds);
+    // The player never waits on the worker; everything else stays inside loaded chunks
+    const tile = entities.has(id, 'controlled') ? ctx.getTile(x, y) : ctx.peekTile(x, y);
+    collider.touched = tile;
+    collider.blocked = !tile || blocksMovement(tile) || !(isWater(tile.terrain) ? collider.water : collider.land);
+  });
+};
+
+const movementSystem: System = (sim, seconds) => {
+  const { entities } = sim;
+  entities.query('position', 'velocity').forEach(id => {
+    const position = entities.get(id, 'position');
+    const velocity = entities.get(id, 'velocity');
+    const moving = velocity.dx !== 0 || velocity.dy !== 0;
+
+    // Turning happens even when blocked, so walking into a tree faces it.
+    // A knocked-back entity keeps facing whatever hit it.
+    const facing = entities.get(id, 'facing');
+    if (facing && !entities.has(id, 'knockback')) {
+      facing.moving = moving;
+      if (moving && Math.abs(velocity.dy) >= Math.abs(velocity.dx)) facing.direction = velocity.dy < 0 ? Direction.UP : Direction.DOWN;
+      else if (moving) facing.direction = velocity.dx < 0 ? Direction.LEFT : Direction.RIGHT;
+    }
+
+    if (!moving || entities.get(id, 'collider')?.blocked) return;
+    const stepX = velocity.dx * seconds;
+    const stepY = velocity.dy * seconds;
+    position.x += stepX;
+    position.y += stepY;
+
+    if (!entities.has(id, 'controlled')) return;
+    // Only walking counts as distance travelled, not being knocked back
+    if (!entities.has(id, 'knockback')) sim.distance += Math.hypot(stepX, stepY);
+    const { bounds } = sim;
+    bounds.minX = Math.min(bounds.minX, position.x);
+    bounds.maxX = Math.max(bounds.maxX, position.x);
+    bounds.minY = Math.min(bounds.minY, position.y);
+    bounds.maxY = Math.max(bounds.maxY, position.y);
+  });
+};
+
+// Walking into (or bumping) a portal sprite sends the player through it
+const triggerSystem: System = sim => {
+  sim.portal = sim.entities.get(sim.player, 'collider')?.touched?.customSprite?.portal ?? null;
+};
+
+const renderSystem: System = (sim, seconds, ctx) => {
+  const { entities } = sim;
+  sim.renderables = entities.query('position', 'sprite', 'facing')
+    .map(id => {
+      const position = entities.get(id, 'position');
+      const facing = entities.get(id, 'facing');
+      return {
+        x: position.x,
+        y: position.y,
+        sprite: entities.get(id, 'sprite'),
+        direction: facing.direction,
+        frame: facing.moving ? Math.floor(ctx.now / 150) % 2 : 0,
+        tamed: !!entities.get(id, 'creature')?.tamed,
+      };
+    })
+    // Whatever stands lower on screen is drawn in front
+    .sort((a, b) => a.y - b.y);
+
+  sim.labels = entities.query('label', 'position').map(id => {
+    const { x, y } = entities.get(id, 'position');
+    const { text, color, expiresAt } = entities.get(id, 'label');
+    return { x, y, text, color, alpha: Math.min(1, (expiresAt - ctx.now) / DAMAGE_LABEL_MS) };
+  });
+};
+
+export const SYSTEMS: System[] = [
+  inputSystem, spawnSystem, behaviorSystem, knockbackSystem, collisionSystem, movementSystem,
+  combatSystem, survivalSystem, triggerSystem, weatherSystem, labelSystem, renderSystem,
+];
+
+// --- Simulation ---
+
+// Everything that moves in the world: the player, wildlife and villagers,
+// stepped by an ordered list of systems. Knows nothing about React or the
+// canvas; the renderer feeds it input and draws its renderables.
+export class Simulation {
+  public readonly entities: EntityStore;
+  public readonly player: EntityId;
+  private systems: System[];
+
+  public input: SimulationInput;
+  public cursor: Position; // Placement/demolish cursor, in whole tiles
+  public cursorReadyAt: number; // Game time the held cursor moves again
+  public lastSpawnAt: number; // Game time wildlife last spawned
+  public distance: number; // Tiles the player has walked
+  public bounds: ExplorationBounds;
+  public portal: PortalConfig | null; // Portal the player touched on the last step
+  public vitals: PlayerVitals;
+  public damageTaken: number; // Player damage since the last survival step
+  public lastAttackAt: number; // Game time of the player's last swing
+  public weather: Weather; // Weather where the player stands
+  public renderables: Renderable[];
+  public labels: FloatingLabel[];
+
+  constructor(systems: System[] = SYSTEMS) {
+    this.entities = new EntityStore();
+    this.systems = systems;
+    this.input = { up: false, down: false, left: false, right: false, run: false };
+    this.cursor = { x: 0, y: 0 };
+    this.cursorReadyAt = 0;
+    this.lastSpawnAt = 0;
+    this.distance = 0;
+    this.bounds = { minX: 0, maxX: 0, minY: 0, maxY: 0 };
+    this.portal = null;
+    this.vitals = createVitals();
+    this.damageTaken = 0;
+    this.lastAttackAt = -Infinity;
+    this.weather = Weather.CLEAR;
+    this.renderables = [];
+    this.labels = [];
+
+    this.player = this.entities.create({
+      position: { x: 0, y: 0 },
+      velocity: { dx: 0, dy: 0 },
+      facing: { direction: Direction.DOWN, moving: false },
+      sprite: { kind: SpriteKind.PLAYER, key: 'player' },
+      collider: { land: true, water: true, blocked: false, touched: null },
+      controlled: { running: false, swimming: false },
+    });
+  }
+
+  public step(dtMs: number, ctx: SimulationContext) {
+    const seconds = dtMs / 1000;
+    this.systems.forEach(system => system(this, seconds, ctx));
+  }
+
+  public get position(): Position {
+    return this.entities.get(this.player, 'position');
+  }
+
+  public get facing(): Facing {
+    return this.entities.get(this.player, 'facing');
+  }
+
+  public get controlled(): Controlled {
+    return this.entities.get(this.player, 'controlled');
+  }
+
+  public teleport(x: number, y: number) {
+    this.position.x = x;
+    this.position.y = y;
+  }
+
+  // The closest creature within range of the player
+  public nearestCreature(range: number): EntityId | null {
+    const { x, y } = this.position;
+    let best: EntityId | null = null;
+    let bestDistance = range;
+    this.entities.query('creature', 'position').forEach(id => {
+      const position = this.entities.get(id, 'position');
+      const distance = Math.hypot(position.x - x, position.y - y);
+      if (distance <= bestDistance) {
+        best = id;
+        bestDistance = distance;
+      }
+    });
+    return best;
+  }
+
+  public tame(id: EntityId) {
+    const creature = this.entities.get(id, 'creature');
+    if (!creature) return;
+    creature.tamed = true;
+    creature.behavior = EntityBehavior.FOLLOW;
+  }
+
+  public remove(id: EntityId) {
+    this.entities.destroy(id);
+  }
+
+  public clearCreatures() {
+    this.entities.query('creature').forEach(id => this.entities.destroy(id));
+  }
+}
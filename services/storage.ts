@@ -1,7 +1,12 @@
-import { CustomSprite, GameSaveState } from "../types";
+import { BiomeDefinition, CustomSprite, GameSaveState, QuestDefinition } from "../types";
 
 const SPRITES_KEY = 'rpg_custom_sprites';
 const GAME_STATE_KEY = 'rpg_game_state';
+const BIOMES_KEY = 'rpg_custom_biomes';
+const QUESTS_KEY = 'rpg_custom_quests';
+const LOCALE_KEY = 'rpg_locale';
+const CREATIVE_KEY = 'rpg_creative_mode';
+const PEACEFUL_KEY = 'rpg_peaceful_mode';
 
 export const StorageService = {
   // --- Sprite Library ---
@@ -34,6 +39,77 @@ export const StorageService = {
     localStorage.setItem(SPRITES_KEY, JSON.stringify(filtered));
   },
 
+  // --- Custom Biomes ---
+  // Replaces stored biomes with the same id, keeps the rest in their original order
+  saveBiomes: (biomes: BiomeDefinition[]): void => {
+    const existing = StorageService.getBiomes();
+    biomes.forEach(biome => {
+      const index = existing.findIndex(b => b.id === biome.id);
+      if (index >= 0) {
+        existing[index] = biome;
+      } else {
+        existing.push(biome);
+      }
+    });
+
+    localStorage.setItem(BIOMES_KEY, JSON.stringify(existing));
+  },
+
+  getBiomes: (): BiomeDefinition[] => {
+    try {
+      const data = localStorage.getItem(BIOMES_KEY);
+      return data ? JSON.parse(data) : [];
+    } catch (e) {
+      console.error("Failed to load biomes", e);
+      return [];
+    }
+  },
+
+  // --- Custom Quests ---
+  // Replaces stored quests with the same id, keeps the rest in their original order
+  saveQuests: (quests: QuestDefinition[]): void => {
+    const existing = StorageService.getQuests();
+    quests.forEach(quest => {
+      const index = existing.findIndex(q => q.id === quest.id);
+      if (index >= 0) {
+        existing[index] = quest;
+      } else {
+        existing.push(quest);
+      }
+    });
+
+    localStorage.setItem(QUESTS_KEY, JSON.stringify(existing));
+  },
+
+  getQuests: (): QuestDefinition[] => {
+    try {
+      const data = localStorage.getItem(QUESTS_KEY);
+      return data ? JSON.parse(data) : [];
+    } catch (e) {
+      console.error("Failed to load quests", e);
+      return [];
+    }
+  },
+
+  // --- Settings ---
+  saveLocale: (locale: string): void => {
+    localStorage.setItem(LOCALE_KEY, locale);
+  },
+
+  getLocale: (): string | null => localStorage.getItem(LOCALE_KEY),
+
+  saveCreativeMode: (enabled: boolean): void => {
+    localStorage.setItem(CREATIVE_KEY, String(enabled));
+  },
+
+  getCreativeMode: (): boolean => localStorage.getItem(CREATIVE_KEY) === 'true',
+
+  savePeacefulMode: (enabled: boolean): void => {
+    localStorage.setItem(PEACEFUL_KEY, String(enabled));
+  },
+
+  getPeacefulMode: (): boolean => localStorage.getItem(PEACEFUL_KEY) === 'true',
+
   // --- Game State (World, Player, Stats) ---
   saveGameState: (state: GameSaveState): void => {
     try {
@@ -0,0 +1,99 @@
+import { BiomeId, StructureCell, StructureTemplate, TileType } from '../types';
+import { LruCache } from './lruCache';
+
+// What site selection needs to know about the world underneath a structure
+export interface StructureSampler {
+  sample(x: number, y: number): { biome: BiomeId; terrain: TileType };
+  noise(x: number, y: number, layer: number): number;
+}
+
+export interface PlacedStructure {
+  template: StructureTemplate;
+  x: number; // Top-left corner of the template
+  y: number;
+}
+
+// At most one structure per region, always fully inside it, so a tile only
+// ever has to look at its own region.
+export const STRUCTURE_REGION_SIZE = 96;
+const SITE_ATTEMPTS = 3;
+
+const LAYER_STRUCTURE = 400;
+
+export class StructureGenerator {
+  private sampler: StructureSampler;
+  private templates: StructureTemplate[];
+  private regions: LruCache<PlacedStructure | null>; // Site picked in each region, by region
+
+  constructor(sampler: StructureSampler, templates: StructureTemplate[], capacity: number = 256) {
+    this.sampler = sampler;
+    this.templates = templates;
+    this.regions = new LruCache(capacity);
+  }
+
+  public getCell(x: number, y: number): StructureCell | null {
+    const site = this.getRegionStructure(
+      Math.floor(x / STRUCTURE_REGION_SIZE),
+      Math.floor(y / STRUCTURE_REGION_SIZE)
+    );
+    if (!site) return null;
+
+    const row = site.template.rows[y - site.y];
+    const char = row?.[x - site.x];
+    if (!char || char === ' ') return null;
+    return site.template.legend[char] ?? null;
+  }
+
+  // Center of the region's structure, if it is a settlement
+  public getSettlement(rx: number, ry: number): { x: number; y: number } | null {
+    const site = this.getRegionStructure(rx, ry);
+    if (!site || !site.template.settlement) return null;
+    const width = Math.max(...site.template.rows.map(row => row.length));
+    return {
+      x: site.x + Math.floor(width / 2),
+      y: site.y + Math.floor(site.template.rows.length / 2),
+    };
+  }
+
+  public getRegionStructure(rx: number, ry: number): PlacedStructure | null {
+    const key = `${rx},${ry}`;
+    const cached = this.regions.get(key);
+    if (cached !== undefined) return cached;
+
+    const site = this.pickSite(rx, ry);
+    this.regions.set(key, site);
+    return site;
+  }
+
+  // A few seeded tries at a template + position; the first one that fits the land wins
+  private pickSite(rx: number, ry: number): PlacedStructure | null {
+    if (this.templates.length === 0) return null;
+
+    for (let attempt = 0; attempt < SITE_ATTEMPTS; attempt++) {
+      const layer = LAYER_STRUCTURE + attempt * 4;
+      const template = this.templates[Math.floor(this.sampler.noise(rx, ry, layer) * this.templates.length)];
+      if (this.sampler.noise(rx, ry, layer + 1) >= template.chance) continue;
+
+      const width = Math.max(...template.rows.map(row => row.length));
+      const height = template.rows.length;
+      const x = rx * STRUCTURE_REGION_SIZE + Math.floor(this.sampler.noise(rx, ry, layer + 2) * (STRUCTURE_REGION_SIZE - width));
+      const y = ry * STRUCTURE_REGION_SIZE + Math.floor(this.sampler.noise(rx, ry, layer + 3) * (STRUCTURE_REGION_SIZE - height));
+
+      if (this.fits(template, x, y)) return { template, x, y };
+    }
+
+    return null;
+  }
+
+  private fits(template: StructureTemplate, x: number, y: number): boolean {
+    for (let ty = 0; ty < template.rows.length; ty++) {
+      const row = template.rows[ty];
+      for (let tx = 0; tx < row.length; tx++) {
+        if (row[tx] === ' ') continue;
+        const { biome, terrain } = this.sampler.sample(x + tx, y + ty);
+        if (!template.biomes.includes(biome) || !template.terrains.includes(terrain)) return false;
+      }
+    }
+    return true;
+  }
+}
@@ -0,0 +1,53 @@
+import {
+  DROWNING_DAMAGE_PER_SECOND, HEALTH_REGEN_PER_SECOND, HUNGER_PER_SECOND, MAX_VITAL, RUN_STAMINA_PER_SECOND,
+  STAMINA_REGEN_PER_SECOND, STARVING_DAMAGE_PER_SECOND, SWIM_STAMINA_PER_SECOND, WELL_FED_HUNGER,
+} from '../constants';
+import { PlayerVitals } from '../types';
+import type { System } from './simulation';
+
+// What the player is doing while time passes
+export interface Activity {
+  running: boolean;
+  swimming: boolean;
+}
+
+const clamp = (value: number) => Math.min(MAX_VITAL, Math.max(0, value));
+
+export const createVitals = (): PlayerVitals => ({ health: MAX_VITAL, hunger: MAX_VITAL, stamina: MAX_VITAL });
+
+export const isDead = (vitals: PlayerVitals): boolean => vitals.health <= 0;
+
+// Advances the vitals by `seconds` of game time
+export const tickVitals = (vitals: PlayerVitals, seconds: number, activity: Activity): PlayerVitals => {
+  const hunger = clamp(vitals.hunger - HUNGER_PER_SECOND * seconds);
+
+  let staminaRate = STAMINA_REGEN_PER_SECOND;
+  if (activity.running) staminaRate = -RUN_STAMINA_PER_SECOND;
+  else if (activity.swimming) staminaRate = -SWIM_STAMINA_PER_SECOND;
+  const stamina = clamp(vitals.stamina + staminaRate * seconds);
+
+  let healthRate = 0;
+  if (hunger <= 0) healthRate -= STARVING_DAMAGE_PER_SECOND;
+  else if (hunger >= WELL_FED_HUNGER) healthRate += HEALTH_REGEN_PER_SECOND;
+  if (activity.swimming && stamina <= 0) healthRate -= DROWNING_DAMAGE_PER_SECOND;
+  const health = clamp(vitals.health + healthRate * seconds);
+
+  return { health, hunger, stamina };
+};
+
+// The player's vitals run on the game clock, and bites land on top. Nothing
+// changes once the player is dead, until a respawn restores them.
+export const survivalSystem: System = (sim, seconds) => {
+  const { damageTaken } = sim;
+  sim.damageTaken = 0;
+  if (isDead(sim.vitals)) return;
+  sim.vitals = tickVitals(sim.vitals, seconds, sim.controlled);
+  if (damageTaken > 0) sim.vitals = adjustVitals(sim.vitals, { health: -damageTaken });
+};
+
+// One-off costs (gathering) or gains (eating); each field is added and clamped
+export const adjustVitals = (vitals: PlayerVitals, change: Partial<PlayerVitals>): PlayerVitals => ({
+  health: clamp(vitals.health + (change.health ?? 0)),
+  hunger: clamp(vitals.hunger + (change.hunger ?? 0)),
+  stamina: clamp(vitals.stamina + (change.stamina ?? 0)),
+});
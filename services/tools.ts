@@ -0,0 +1,27 @@
+import { STARTER_TOOLS, TOOL_ITEMS } from '../constants';
+import { InventoryItem, ToolType } from '../types';
+
+export const createTool = (id: string, quality: number = 1): InventoryItem => ({
+  id,
+  count: 1,
+  data: { durability: TOOL_ITEMS[id].maxDurability, quality },
+});
+
+export const getToolType = (item: InventoryItem | null): ToolType | null =>
+  item ? TOOL_ITEMS[item.id]?.tool ?? null : null;
+
+// Instances with their own data (tools) are never merged into one slot
+export const canStack = (a: InventoryItem, b: InventoryItem): boolean =>
+  a.id === b.id && !a.data && !b.data;
+
+// One use of a tool. Returns the worn tool, or null once it breaks.
+export const wearTool = (item: InventoryItem): InventoryItem | null => {
+  const durability = (item.data?.durability ?? TOOL_ITEMS[item.id]?.maxDurability ?? 1) - 1;
+  return durability > 0 ? { ...item, data: { ...item.data, durability } } : null;
+};
+
+export const createStarterInventory = (size: number): (InventoryItem | null)[] => {
+  const inventory: (InventoryItem | null)[] = new Array(size).fill(null);
+  STARTER_TOOLS.forEach((id, i) => { inventory[i] = createTool(id); });
+  return inventory;
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { TileType } from '../types';
+import { WorldGenerator } from './worldEngine';
+
+const SEED = 'modifications';
+
+// The first tile along the x axis with a procedural object on it
+const findObject = (world: WorldGenerator) => {
+  for (let x = 0; x < 2000; x++) {
+    const tile = world.getTile(x, 0);
+    if (tile.object && !tile.customSprite) return tile;
+  }
+  throw new Error('no object found');
+};
+
+describe('modification layer', () => {
+  it('keeps a harvested object gone until its regrowth time, across a save', () => {
+    const world = new WorldGenerator(SEED);
+    const { x, y, object } = findObject(world);
+    world.removeProceduralObject(x, y, 1000);
+    expect(world.getTile(x, y).object).toBeNull();
+
+    const loaded = new WorldGenerator(SEED);
+    loaded.deserializeModifications(world.serializeModifications());
+    loaded.regrow(999);
+    expect(loaded.getTile(x, y).object).toBeNull();
+
+    loaded.regrow(1000);
+    expect(loaded.getTile(x, y).object).toBe(object);
+    expect(loaded.serializeModifications()).toEqual([]);
+  });
+
+  it('keeps changed terrain after the object on it grows back', () => {
+    const world = new WorldGenerator(SEED);
+    const { x, y, object } = findObject(world);
+    world.removeProceduralObject(x, y, 1000);
+    world.setTerrain(x, y, TileType.DIRT);
+    world.regrow(1000);
+
+    expect(world.getTile(x, y)).toMatchObject({ terrain: TileType.DIRT, object });
+    expect(world.getModification(x, y)).toEqual({ terrain: TileType.DIRT });
+  });
+
+  it('never brings back an object harvested without a regrowth time', () => {
+    const world = new WorldGenerator(SEED);
+    const { x, y } = findObject(world);
+    world.removeProceduralObject(x, y);
+    world.regrow(Number.MAX_SAFE_INTEGER);
+
+    expect(world.getTile(x, y).object).toBeNull();
+  });
+
+  it('mirrors changes into another copy of the world', () => {
+    const world = new WorldGenerator(SEED);
+    const mirror = new WorldGenerator(SEED);
+    world.onWorldChange(change => mirror.applyWorldChange(change));
+    const { x, y } = findObject(world);
+    world.removeProceduralObject(x, y);
+    world.setTerrain(x + 1, y, TileType.SAND);
+
+    expect(mirror.serializeModifications()).toEqual(world.serializeModifications());
+    expect(mirror.getTile(x, y).object).toBeNull();
+  });
+});
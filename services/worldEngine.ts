@@ -1,12 +1,23 @@
-import { OBJECT_ART, TERRAIN_ART } from '../constants';
-import { CustomSprite, ObjectType, TileType, WorldTile } from '../types';
+import { OBJECT_ART, STRUCTURE_TEMPLATES, TERRAIN_ART } from '../constants';
+import { BiomeDefinition, BiomeId, CustomSprite, ObjectType, TileModification, TileType, WorldTile } from '../types';
+import { Hydrology, WaterFeature } from './hydrology';
+import { CHUNK_SIZE, ChunkCache, OBJECT_TYPES, TILE_FLAG_RIVER, TILE_FLAG_STRUCTURE_SPRITE, TILE_TYPES, WorldChange, WorldChunk, chunkCoord, createChunk } from './chunkCache';
+import { STRUCTURE_REGION_SIZE, StructureGenerator } from './structures';
+import { RoadNetwork } from './roads';
+import { BiomeRegistry } from './biomeRegistry';
+import { GeneratorProfile, LATEST_GENERATOR_VERSION, getGeneratorProfile } from './generatorVersions';
+import { hashCoords } from './random';
 
 // Simple pseudo-random number generator class
 class PRNG {
   private seed: number;
+  private hashNoise: boolean;
+  private fractalContrast: number;
 
-  constructor(seedStr: string) {
+  constructor(seedStr: string, profile: GeneratorProfile) {
     this.seed = this.hashString(seedStr);
+    this.hashNoise = profile.noise === 'hash';
+    this.fractalContrast = profile.fractalContrast;
   }
 
   // DJB2 Hash to turn string key into number
@@ -21,19 +32,22 @@ class PRNG {
   // Deterministic random based on coordinate and seed
   // Returns 0-1
   public noise(x: number, y: number, layer: number = 0): number {
+    if (this.hashNoise) return hashCoords(this.seed, x, y, layer) / 4294967296;
+
+    // Generator v1: sine hash, kept so v1 worlds stay as they were
     let n = Math.sin(x * 12.9898 + y * 78.233 + this.seed + layer * 131.2) * 43758.5453;
     return n - Math.floor(n);
   }
 
   // A smoother noise function (Value Noise) for terrain blobs
-  public smoothNoise(x: number, y: number): number {
+  public smoothNoise(x: number, y: number, layer: number = 0): number {
     const floorX = Math.floor(x);
     const floorY = Math.floor(y);
     
-    const s = (this.noise(floorX, floorY)); 
-    const t = (this.noise(floorX + 1, floorY));
-    const u = (this.noise(floorX, floorY + 1));
-    const v = (this.noise(floorX + 1, floorY + 1));
+    const s = (this.noise(floorX, floorY, layer)); 
+    const t = (this.noise(floorX + 1, floorY, layer));
+    const u = (this.noise(floorX, floorY + 1, layer));
+    const v = (this.noise(floorX + 1, floorY + 1, layer));
 
     const recX = x - floorX;
     const recY = y - floorY;
@@ -47,19 +61,192 @@ class PRNG {
       smooth(recY)
     );
   }
+
+  // Fractal (fBm) noise: sums octaves of smoothNoise, each at double the
+  // frequency and half the amplitude of the previous one. Returns 0-1
+  public fractalNoise(x: number, y: number, octaves: number = 4, layer: number = 0): number {
+    let total = 0;
+    let amplitude = 1;
+    let frequency = 1;
+    let maxValue = 0;
+
+    for (let i = 0; i < octaves; i++) {
+      // Each octave reads its own layer so the lattices don't line up at the origin
+      total += this.smoothNoise(x * frequency, y * frequency, layer + i * 17) * amplitude;
+      maxValue += amplitude;
+      amplitude *= 0.5;
+      frequency *= 2;
+    }
+
+    // Averaging octaves pulls values towards 0.5; stretch them back out so
+    // thresholds tuned for single-octave noise still hit their extremes
+    const value = 0.5 + (total / maxValue - 0.5) * this.fractalContrast;
+    return Math.min(1, Math.max(0, value));
+  }
+}
+
+// Noise layers (kept apart so the fields are independent of each other)
+const LAYER_ELEVATION = 0;
+const LAYER_TEMPERATURE = 100;
+const LAYER_MOISTURE = 200;
+
+interface TerrainSample {
+  biome: BiomeId;
+  terrain: TileType;
+  elevation: number;
 }
 
 export class WorldGenerator {
+  public readonly seed: string;
+  public readonly version: number;
+  public readonly biomes: BiomeRegistry;
+  private profile: GeneratorProfile;
   private prng: PRNG;
   private placedObjects: Map<string, CustomSprite>;
+  // Delta layer: what the player changed on procedural tiles, by "x,y"
+  private modifications: Map<string, TileModification>;
+  private hydrology: Hydrology;
+  private structures: StructureGenerator;
+  private roads: RoadNetwork;
+  private spriteLibrary: Map<string, CustomSprite>;
+  private chunks: ChunkCache;
+  private worldListeners: Set<(change: WorldChange) => void>;
 
-  constructor(seed: string) {
-    this.prng = new PRNG(seed);
+  constructor(seed: string, customBiomes: BiomeDefinition[] = [], version: number = LATEST_GENERATOR_VERSION) {
+    this.seed = seed;
+    this.profile = getGeneratorProfile(version);
+    this.version = this.profile.version;
+    this.biomes = new BiomeRegistry(customBiomes);
+    this.prng = new PRNG(seed, this.profile);
     this.placedObjects = new Map();
+    this.modifications = new Map();
+    this.chunks = new ChunkCache();
+    this.worldListeners = new Set();
+    this.hydrology = new Hydrology({
+      sample: (x, y) => this.sampleTerrain(x, y),
+      noise: (x, y, layer) => this.prng.noise(x, y, layer),
+    });
+    this.structures = new StructureGenerator({
+      sample: (x, y) => this.sampleSurface(x, y),
+      noise: (x, y, layer) => this.prng.noise(x, y, layer),
+    }, STRUCTURE_TEMPLATES);
+    this.roads = new RoadNetwork({
+      sample: (x, y) => {
+        const cell = this.structures.getCell(x, y);
+        return {
+          terrain: cell?.terrain ?? this.sampleSurface(x, y).terrain,
+          blocked: !!cell?.object || !!cell?.spriteId,
+        };
+      },
+      settlement: (rx, ry) => this.structures.getSettlement(rx, ry),
+    });
+    this.spriteLibrary = new Map();
+  }
+
+  // Sprites that structure templates refer to by id
+  public setSpriteLibrary(sprites: CustomSprite[]) {
+    this.spriteLibrary = new Map(sprites.map(sprite => [sprite.id, sprite]));
   }
 
-  public placeObject(x: number, y: number, sprite: CustomSprite) {
+  // Center of the closest settlement within `regions` structure regions of (x, y)
+  public nearestSettlement(x: number, y: number, regions: number): { x: number; y: number } | null {
+    if (this.profile.classic) return null;
+    const rx = Math.floor(x / STRUCTURE_REGION_SIZE);
+    const ry = Math.floor(y / STRUCTURE_REGION_SIZE);
+    let nearest: { x: number; y: number } | null = null;
+    let nearestDistance = Infinity;
+    for (let dy = -regions; dy <= regions; dy++) {
+      for (let dx = -regions; dx <= regions; dx++) {
+        const settlement = this.structures.getSettlement(rx + dx, ry + dy);
+        const distance = settlement ? Math.hypot(settlement.x - x, settlement.y - y) : Infinity;
+        if (distance < nearestDistance) {
+          nearest = settlement;
+          nearestDistance = distance;
+        }
+      }
+    }
+    return nearest;
+  }
+
+  // Returns the placed object it replaced, if any, so the caller can refund it
+  public placeObject(x: number, y: number, sprite: CustomSprite): CustomSprite | null {
+    const replaced = this.getPlacedObject(x, y);
     this.placedObjects.set(`${x},${y}`, sprite);
+    // A placed sprite suppresses the procedural object under it
+    this.chunks.delete(chunkCoord(x), chunkCoord(y));
+    this.emitWorldChange({ type: 'place', x, y, sprite });
+    return replaced;
+  }
+
+  // Returns the removed object, or null when nothing was placed there.
+  // The procedural object it covered (if any) comes back.
+  public removeObject(x: number, y: number): CustomSprite | null {
+    const removed = this.getPlacedObject(x, y);
+    if (!removed) return null;
+    this.placedObjects.delete(`${x},${y}`);
+    this.chunks.delete(chunkCoord(x), chunkCoord(y));
+    this.emitWorldChange({ type: 'remove', x, y });
+    return removed;
+  }
+
+  // Only objects placed by the player; structure sprites are part of generation
+  public getPlacedObject(x: number, y: number): CustomSprite | null {
+    return this.placedObjects.get(`${x},${y}`) ?? null;
+  }
+
+  // --- Modification layer ---
+  // Harvests the procedural object at (x, y). It grows back once regrow() is
+  // called with a game time past regrowAt; without one it stays gone.
+  public removeProceduralObject(x: number, y: number, regrowAt?: number) {
+    this.modifyTile(x, y, { ...this.modifications.get(`${x},${y}`), objectRemoved: true, regrowAt });
+  }
+
+  public setTerrain(x: number, y: number, terrain: TileType) {
+    this.modifyTile(x, y, { ...this.modifications.get(`${x},${y}`), terrain });
+  }
+
+  public getModification(x: number, y: number): TileModification | null {
+    return this.modifications.get(`${x},${y}`) ?? null;
+  }
+
+  // Brings back harvested objects whose regrowth time has passed
+  public regrow(now: number) {
+    this.modifications.forEach((modification, key) => {
+      if (modification.regrowAt === undefined || modification.regrowAt > now) return;
+      const [x, y] = key.split(',').map(Number);
+      const { objectRemoved, regrowAt, ...rest } = modification;
+      this.modifyTile(x, y, rest);
+    });
+  }
+
+  // Modifications that no longer change anything are dropped
+  private modifyTile(x: number, y: number, modification: TileModification | null) {
+    const key = `${x},${y}`;
+    const kept = modification && (modification.objectRemoved || modification.terrain) ? modification : null;
+    if (kept) this.modifications.set(key, kept);
+    else this.modifications.delete(key);
+    this.chunks.delete(chunkCoord(x), chunkCoord(y));
+    this.emitWorldChange({ type: 'modify', x, y, modification: kept });
+  }
+
+  // Lets mirrors of this world (the generation worker) follow the player's changes
+  public onWorldChange(listener: (change: WorldChange) => void): () => void {
+    this.worldListeners.add(listener);
+    return () => this.worldListeners.delete(listener);
+  }
+
+  public applyWorldChange(change: WorldChange) {
+    switch (change.type) {
+      case 'place': this.placeObject(change.x, change.y, change.sprite); break;
+      case 'remove': this.removeObject(change.x, change.y); break;
+      case 'reset': this.deserializePlacedObjects(change.entries); break;
+      case 'modify': this.modifyTile(change.x, change.y, change.modification); break;
+      case 'resetModifications': this.deserializeModifications(change.entries); break;
+    }
+  }
+
+  private emitWorldChange(change: WorldChange) {
+    this.worldListeners.forEach(listener => listener(change));
   }
 
   // --- Serialization for Save/Load ---
@@ -69,30 +256,131 @@ export class WorldGenerator {
 
   public deserializePlacedObjects(entries: [string, CustomSprite][]) {
     this.placedObjects = new Map(entries);
+    this.chunks.clear();
+    this.emitWorldChange({ type: 'reset', entries });
+  }
+
+  public serializeModifications(): [string, TileModification][] {
+    return Array.from(this.modifications.entries());
+  }
+
+  public deserializeModifications(entries: [string, TileModification][]) {
+    this.modifications = new Map(entries);
+    this.chunks.clear();
+    this.emitWorldChange({ type: 'resetModifications', entries });
   }
   // -----------------------------------
 
+  // Served from the chunk cache; the chunk is generated on first access
   public getTile(x: number, y: number): WorldTile {
-    // Scales
-    const biomeScale = 0.005; // Large scale for biomes
-    const terrainScale = 0.05; // Medium scale for local terrain features
-    
+    return this.readTile(this.getChunk(chunkCoord(x), chunkCoord(y)), x, y);
+  }
+
+  // Like getTile, but never generates: null while the chunk isn't cached yet
+  public peekTile(x: number, y: number): WorldTile | null {
+    const chunk = this.chunks.get(chunkCoord(x), chunkCoord(y));
+    return chunk ? this.readTile(chunk, x, y) : null;
+  }
+
+  // Just the terrain byte, for neighbor lookups (autotiling) that run every frame
+  public peekTerrain(x: number, y: number): TileType | null {
+    const chunk = this.chunks.get(chunkCoord(x), chunkCoord(y));
+    if (!chunk) return null;
+    return TILE_TYPES[chunk.terrain[(y - chunk.cy * CHUNK_SIZE) * CHUNK_SIZE + (x - chunk.cx * CHUNK_SIZE)]];
+  }
+
+  public hasChunk(cx: number, cy: number): boolean {
+    return this.chunks.has(cx, cy);
+  }
+
+  // Adopts a chunk generated elsewhere (the generation worker)
+  public installChunk(chunk: WorldChunk) {
+    this.chunks.set(chunk);
+  }
+
+  private readTile(chunk: WorldChunk, x: number, y: number): WorldTile {
+    const i = (y - chunk.cy * CHUNK_SIZE) * CHUNK_SIZE + (x - chunk.cx * CHUNK_SIZE);
+    const object = OBJECT_TYPES[chunk.object[i]];
+
+    return {
+      x,
+      y,
+      terrain: TILE_TYPES[chunk.terrain[i]],
+      biome: this.biomes.at(chunk.biome[i]).id,
+      object: object === ObjectType.NONE ? null : object,
+      customSprite: this.placedObjects.get(`${x},${y}`)
+        ?? (chunk.flags[i] & TILE_FLAG_STRUCTURE_SPRITE ? this.getStructureSprite(x, y) : undefined),
+      river: (chunk.flags[i] & TILE_FLAG_RIVER) !== 0,
+      variant: chunk.variant[i]
+    };
+  }
+
+  public getChunk(cx: number, cy: number): WorldChunk {
+    let chunk = this.chunks.get(cx, cy);
+    if (!chunk) {
+      chunk = this.generateChunk(cx, cy);
+      this.chunks.set(chunk);
+    }
+    return chunk;
+  }
+
+  public generateChunk(cx: number, cy: number): WorldChunk {
+    const chunk = createChunk(cx, cy);
+    for (let ly = 0; ly < CHUNK_SIZE; ly++) {
+      for (let lx = 0; lx < CHUNK_SIZE; lx++) {
+        const tile = this.generateTile(cx * CHUNK_SIZE + lx, cy * CHUNK_SIZE + ly);
+        const i = ly * CHUNK_SIZE + lx;
+        chunk.terrain[i] = TILE_TYPES.indexOf(tile.terrain);
+        chunk.object[i] = OBJECT_TYPES.indexOf(tile.object ?? ObjectType.NONE);
+        chunk.variant[i] = tile.variant;
+        chunk.biome[i] = this.biomes.indexOf(tile.biome);
+        chunk.flags[i] = (tile.river ? TILE_FLAG_RIVER : 0)
+          | (!this.profile.classic && this.structures.getCell(tile.x, tile.y)?.spriteId ? TILE_FLAG_STRUCTURE_SPRITE : 0);
+      }
+    }
+    return chunk;
+  }
+
+  private getStructureSprite(x: number, y: number): CustomSprite | undefined {
+    const spriteId = this.structures.getCell(x, y)?.spriteId;
+    return spriteId ? this.spriteLibrary.get(spriteId) : undefined;
+  }
+
+  // Biome + terrain from the noise fields alone, before hydrology or objects
+  private sampleTerrain(x: number, y: number): TerrainSample {
+    const { climateScale, terrainScale, elevationOctaves, climateOctaves } = this.profile;
+
     // Noise layers
-    const biomeNoise = this.prng.smoothNoise(x * biomeScale, y * biomeScale);
-    const elevation = this.prng.smoothNoise(x * terrainScale, y * terrainScale);
+    const elevation = this.prng.fractalNoise(x * terrainScale, y * terrainScale, elevationOctaves, LAYER_ELEVATION);
+    const moisture = this.prng.fractalNoise(x * climateScale, y * climateScale, climateOctaves, LAYER_MOISTURE);
+    // Higher ground is colder
+    const temperature = this.prng.fractalNoise(x * climateScale, y * climateScale, climateOctaves, LAYER_TEMPERATURE)
+      - Math.max(0, elevation - 0.6) * 0.6;
     
-    let biome = 'Unknown';
-    let terrain: TileType = TileType.WATER;
-    let object: ObjectType | null = null;
-    let customSprite: CustomSprite | undefined = undefined;
+    // Temperature and moisture are independent, so any biome can border any other
+    const biome = this.biomes.pick(temperature, moisture);
+    const terrain = this.biomes.terrainAt(biome, elevation);
 
-    // Check for user placed object first
-    if (this.placedObjects.has(`${x},${y}`)) {
-      customSprite = this.placedObjects.get(`${x},${y}`);
-    }
+    return { biome: biome.id, terrain, elevation };
+  }
+
+  // Natural terrain with rivers and lakes carved in, before structures or objects
+  private sampleSurface(x: number, y: number): { biome: BiomeId; terrain: TileType; water: WaterFeature } {
+    const { biome, terrain } = this.sampleTerrain(x, y);
+
+    // --- Hydrology: rivers and lakes carved on top of the base terrain ---
+    const water = this.hydrology.getWater(x, y);
+    return { biome, terrain: water !== WaterFeature.NONE ? TileType.WATER : terrain, water };
+  }
+
+  // Generator v0, as it was before climates, rivers, structures and roads:
+  // a single noise field picks the biome, and each biome has its own rules
+  private generateClassicTile(x: number, y: number): { biome: BiomeId; terrain: TileType; object: ObjectType | null } {
+    const { climateScale, terrainScale } = this.profile;
+    const biomeNoise = this.prng.smoothNoise(x * climateScale, y * climateScale);
+    const elevation = this.prng.smoothNoise(x * terrainScale, y * terrainScale);
 
-    // --- Biome Determination ---
-    // Mapping 0-1 noise to biomes roughly based on assumed "temperature/moisture" combo in one value
+    let biome: string;
     if (biomeNoise < 0.15) biome = 'DESERT';
     else if (biomeNoise < 0.30) biome = 'SAVANNA';
     else if (biomeNoise < 0.45) biome = 'GRASSLAND';
@@ -100,81 +388,118 @@ export class WorldGenerator {
     else if (biomeNoise < 0.85) biome = 'TAIGA';
     else biome = 'TUNDRA';
 
-    // --- Terrain Determination based on Biome + Elevation ---
-    // Base Elevations: <0.3 Deep, <0.4 Water, <0.45 Coast, >0.45 Land, >0.8 High
-    
+    let terrain: TileType;
     switch (biome) {
-        case 'DESERT':
-            if (elevation < 0.3) terrain = TileType.WATER;
-            else if (elevation < 0.4) terrain = TileType.SAND; // Coast
-            else if (elevation < 0.8) terrain = TileType.SAND; // Land
-            else terrain = TileType.STONE; // High
-            break;
-
-        case 'SAVANNA':
-            if (elevation < 0.35) terrain = TileType.WATER;
-            else if (elevation < 0.45) terrain = TileType.SAND;
-            else terrain = TileType.GRASS;
-            break;
-
-        case 'GRASSLAND':
-            if (elevation < 0.35) terrain = TileType.WATER;
-            else if (elevation < 0.40) terrain = TileType.SAND;
-            else if (elevation < 0.8) terrain = TileType.GRASS;
-            else terrain = TileType.DIRT;
-            break;
-
-        case 'RAINFOREST':
-            if (elevation < 0.30) terrain = TileType.DEEP_WATER;
-            else if (elevation < 0.40) terrain = TileType.WATER;
-            else if (elevation < 0.45) terrain = TileType.SAND;
-            else if (elevation < 0.75) terrain = TileType.FOREST; // Dense forest
-            else terrain = TileType.GRASS; // Clearings
-            break;
-
-        case 'TAIGA':
-            if (elevation < 0.35) terrain = TileType.WATER;
-            else if (elevation < 0.45) terrain = TileType.DIRT;
-            else if (elevation < 0.75) terrain = TileType.FOREST;
-            else terrain = TileType.SNOW; // High Taiga
-            break;
-
-        case 'TUNDRA':
-            if (elevation < 0.35) terrain = TileType.DEEP_WATER; // Icy water
-            else if (elevation < 0.45) terrain = TileType.DIRT; // Gravel/Permafrost
-            else if (elevation < 0.80) terrain = TileType.SNOW;
-            else terrain = TileType.MOUNTAIN;
-            break;
-
-        default:
-            terrain = TileType.GRASS;
+      case 'DESERT':
+        if (elevation < 0.3) terrain = TileType.WATER;
+        else if (elevation < 0.8) terrain = TileType.SAND;
+        else terrain = TileType.STONE;
+        break;
+      case 'SAVANNA':
+        if (elevation < 0.35) terrain = TileType.WATER;
+        else if (elevation < 0.45) terrain = TileType.SAND;
+        else terrain = TileType.GRASS;
+        break;
+      case 'GRASSLAND':
+        if (elevation < 0.35) terrain = TileType.WATER;
+        else if (elevation < 0.40) terrain = TileType.SAND;
+        else if (elevation < 0.8) terrain = TileType.GRASS;
+        else terrain = TileType.DIRT;
+        break;
+      case 'RAINFOREST':
+        if (elevation < 0.30) terrain = TileType.DEEP_WATER;
+        else if (elevation < 0.40) terrain = TileType.WATER;
+        else if (elevation < 0.45) terrain = TileType.SAND;
+        else if (elevation < 0.75) terrain = TileType.FOREST;
+        else terrain = TileType.GRASS;
+        break;
+      case 'TAIGA':
+        if (elevation < 0.35) terrain = TileType.WATER;
+        else if (elevation < 0.45) terrain = TileType.DIRT;
+        else if (elevation < 0.75) terrain = TileType.FOREST;
+        else terrain = TileType.SNOW;
+        break;
+      default:
+        if (elevation < 0.35) terrain = TileType.DEEP_WATER;
+        else if (elevation < 0.45) terrain = TileType.DIRT;
+        else if (elevation < 0.80) terrain = TileType.SNOW;
+        else terrain = TileType.MOUNTAIN;
     }
 
-    // --- Procedural Object Placement ---
-    if (!customSprite) {
-      const objectHash = this.prng.noise(x, y, 1); 
+    const objectHash = this.prng.noise(x, y, 1);
+    let object: ObjectType | null = null;
+    if (biome === 'RAINFOREST' && terrain === TileType.FOREST) {
+      if (objectHash > 0.90) object = ObjectType.TREE_OAK;
+      else if (objectHash > 0.85) object = ObjectType.FLOWER_RED;
+    } else if (biome === 'GRASSLAND' && terrain === TileType.GRASS) {
+      if (objectHash > 0.98) object = ObjectType.TREE_OAK;
+      else if (objectHash > 0.95) object = ObjectType.HOUSE_SMALL;
+      else if (objectHash > 0.90) object = ObjectType.FLOWER_BLUE;
+    } else if ((biome === 'DESERT' || biome === 'SAVANNA') && terrain === TileType.SAND) {
+      if (objectHash > 0.98) object = ObjectType.ROCK_SMALL;
+    } else if (biome === 'TAIGA' && terrain === TileType.FOREST) {
+      if (objectHash > 0.92) object = ObjectType.TREE_OAK;
+    } else if (terrain === TileType.MOUNTAIN || terrain === TileType.STONE) {
+      if (objectHash > 0.95) object = ObjectType.ROCK_SMALL;
+    }
 
-      // Biome-specific object rules
-      if (biome === 'RAINFOREST' && terrain === TileType.FOREST) {
-         if (objectHash > 0.90) object = ObjectType.TREE_OAK;
-         else if (objectHash > 0.85) object = ObjectType.FLOWER_RED;
-      }
-      else if (biome === 'GRASSLAND' && terrain === TileType.GRASS) {
-          if (objectHash > 0.98) object = ObjectType.TREE_OAK;
-          else if (objectHash > 0.95) object = ObjectType.HOUSE_SMALL;
-          else if (objectHash > 0.90) object = ObjectType.FLOWER_BLUE;
-      }
-      else if ((biome === 'DESERT' || biome === 'SAVANNA') && terrain === TileType.SAND) {
-          if (objectHash > 0.98) object = ObjectType.ROCK_SMALL;
-      }
-      else if (biome === 'TAIGA' && terrain === TileType.FOREST) {
-          if (objectHash > 0.92) object = ObjectType.TREE_OAK; // Should be pine, using oak placeholder
-      }
-      else if (terrain === TileType.MOUNTAIN || terrain === TileType.STONE) {
-          if (objectHash > 0.95) object = ObjectType.ROCK_SMALL;
-      }
+    return { biome: biome as BiomeId, terrain, object };
+  }
+
+  // Full generation of a single tile, bypassing the cache
+  private generateTile(x: number, y: number): WorldTile {
+    if (this.profile.classic) {
+      const { biome, terrain, object } = this.generateClassicTile(x, y);
+      const modification = this.modifications.get(`${x},${y}`);
+      return {
+        x,
+        y,
+        terrain: modification?.terrain ?? terrain,
+        biome,
+        object: modification?.objectRemoved || this.placedObjects.has(`${x},${y}`) ? null : object,
+        customSprite: this.placedObjects.get(`${x},${y}`),
+        river: false,
+        variant: Math.floor(this.prng.noise(x, y, 2) * 4),
+      };
     }
 
+    const { biome, terrain: surface, water } = this.sampleSurface(x, y);
+    let terrain = surface;
+    let object: ObjectType | null = null;
+    let customSprite: CustomSprite | undefined = undefined;
+
+    // Check for user placed object first
+    if (this.placedObjects.has(`${x},${y}`)) {
+      customSprite = this.placedObjects.get(`${x},${y}`);
+    }
+
+    // --- Structures: templates stamped over the natural terrain ---
+    const cell = this.structures.getCell(x, y);
+    const structureDecidesObject = !!cell && (cell.object !== undefined || !!cell.spriteId);
+    if (cell) {
+      if (cell.terrain) terrain = cell.terrain;
+      if (cell.object && !customSprite) object = cell.object;
+      if (cell.spriteId && !customSprite) customSprite = this.spriteLibrary.get(cell.spriteId);
+    }
+
+    // --- Roads between settlements, bridging water where they must ---
+    // They run through open structure cells (plazas) but never over a building
+    const road = this.roads.getRoad(x, y);
+    if (road && !cell?.object && !cell?.spriteId) {
+      terrain = road;
+    }
+
+    // --- Procedural Object Placement ---
+    if (!customSprite && !structureDecidesObject && !road) {
+      const objectHash = this.prng.noise(x, y, 1);
+      object = this.biomes.spawnObject(this.biomes.get(biome)!, terrain, objectHash);
+    }
+
+    // --- Player modifications on top of everything generated ---
+    const modification = this.modifications.get(`${x},${y}`);
+    if (modification?.terrain) terrain = modification.terrain;
+    if (modification?.objectRemoved) object = null;
+
     return {
       x,
       y,
@@ -182,6 +507,7 @@ export class WorldGenerator {
       biome,
       object,
       customSprite,
+      river: water === WaterFeature.RIVER,
       variant: Math.floor(this.prng.noise(x, y, 2) * 4) 
     };
   }
@@ -0,0 +1,8 @@
+import { describe, expect, it } from 'vitest';
+import { verifyGoldenSnapshots } from './worldSnapshots';
+
+describe('golden world snapshots', () => {
+  it('released generator versions still build the same worlds', () => {
+    expect(verifyGoldenSnapshots()).toEqual([]);
+  }, 60_000);
+});
@@ -0,0 +1,64 @@
+import { WorldGenerator } from './worldEngine';
+
+// Golden hashes of fixed regions for fixed seeds, one set per generator
+// version. A mismatch means a change altered a released generator, and every
+// saved world built with that version would shift under its placed objects.
+// Intentional changes belong in a new GENERATOR_VERSIONS entry instead.
+// The regions are built with the built-in biomes, structures, rivers and roads
+// too, which aren't versioned on their own, so they also catch changes to those
+// that reach a golden region. Checked by `npm test`.
+interface GoldenSnapshot {
+  version: number;
+  seed: string;
+  x: number; // Top-left corner of the region
+  y: number;
+  size: number;
+  hash: string;
+}
+
+export const GOLDEN_SNAPSHOTS: GoldenSnapshot[] = [
+  { version: 0, seed: '8f2a4b9c1d3e5f7a0b2c4d6e8f1a3b5c', x: -32, y: -32, size: 64, hash: '2122e7c6' },
+  { version: 0, seed: '8f2a4b9c1d3e5f7a0b2c4d6e8f1a3b5c', x: -280, y: -320, size: 64, hash: 'de4d721c' },
+  { version: 0, seed: 'golden', x: 1000, y: -2000, size: 64, hash: '4eac3183' },
+  { version: 1, seed: '8f2a4b9c1d3e5f7a0b2c4d6e8f1a3b5c', x: -32, y: -32, size: 64, hash: '77d649a4' },
+  { version: 1, seed: '8f2a4b9c1d3e5f7a0b2c4d6e8f1a3b5c', x: -280, y: -320, size: 64, hash: 'f2064af1' },
+  { version: 1, seed: 'golden', x: 1000, y: -2000, size: 64, hash: 'f0438469' },
+  { version: 2, seed: '8f2a4b9c1d3e5f7a0b2c4d6e8f1a3b5c', x: -32, y: -32, size: 64, hash: '192c11eb' },
+  { version: 2, seed: '8f2a4b9c1d3e5f7a0b2c4d6e8f1a3b5c', x: -280, y: -320, size: 64, hash: 'f37e40a8' },
+  { version: 2, seed: 'golden', x: 1000, y: -2000, size: 64, hash: '011cb6a6' },
+];
+
+// FNV-1a over everything generation decides about each tile
+export const hashRegion = (world: WorldGenerator, x: number, y: number, size: number): string => {
+  let hash = 0x811c9dc5;
+  const mix = (value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+  };
+
+  for (let ty = y; ty < y + size; ty++) {
+    for (let tx = x; tx < x + size; tx++) {
+      const tile = world.getTile(tx, ty);
+      mix(`${tile.terrain}|${tile.biome}|${tile.object}|${tile.river}|${tile.variant}|${tile.customSprite?.id ?? ''};`);
+    }
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Regenerates every golden region; returns a message per mismatch
+export const verifyGoldenSnapshots = (): string[] => {
+  const failures: string[] = [];
+  GOLDEN_SNAPSHOTS.forEach(snapshot => {
+    const world = new WorldGenerator(snapshot.seed, [], snapshot.version);
+    const hash = hashRegion(world, snapshot.x, snapshot.y, snapshot.size);
+    if (hash !== snapshot.hash) {
+      failures.push(
+        `Generator v${snapshot.version} changed: seed "${snapshot.seed}" region ` +
+        `(${snapshot.x}, ${snapshot.y}) ${snapshot.size}x${snapshot.size} hashed ${hash}, expected ${snapshot.hash}`
+      );
+    }
+  });
+  return failures;
+};
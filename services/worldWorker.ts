@@ -0,0 +1,32 @@
+import { WorldGenerator } from './worldEngine';
+import { WorldWorkerRequest, WorldWorkerResponse, chunkBuffers } from './chunkCache';
+
+// Generates chunks off the render thread. Holds its own WorldGenerator built
+// like the main thread's (seed, generator version, custom biomes) and kept in
+// step with its placed objects and modifications.
+let world: WorldGenerator | null = null;
+
+self.onmessage = (e: MessageEvent<WorldWorkerRequest>) => {
+  const msg = e.data;
+
+  switch (msg.type) {
+    case 'init':
+      world = new WorldGenerator(msg.seed, msg.biomes, msg.version);
+      world.deserializePlacedObjects(msg.entries);
+      world.deserializeModifications(msg.modifications);
+      break;
+
+    case 'worldChange':
+      world?.applyWorldChange(msg.change);
+      break;
+
+    case 'generate': {
+      if (!world) return;
+      // Generated fresh (not cached here) because the buffers are handed over
+      const chunk = world.generateChunk(msg.cx, msg.cy);
+      const response: WorldWorkerResponse = { type: 'chunk', chunk, revision: msg.revision };
+      self.postMessage(response, { transfer: chunkBuffers(chunk) });
+      break;
+    }
+  }
+};
@@ -17,10 +17,34 @@ export interface PixelArtMatrix {
   portal?: PortalConfig; // New: Teleportation config
 }
 
+// Every piece a terrain can be drawn with
+export interface TerrainTileset {
+  variants: PixelArtMatrix[]; // Alternate full tiles, picked by WorldTile.variant
+  // Autotile overlays drawn over the base tile where it borders other terrain.
+  // edges[mask]: sides that border (N=1, E=2, S=4, W=8).
+  // corners[mask]: diagonals that border while both adjacent sides match (NE=1, SE=2, SW=4, NW=8).
+  edges?: PixelArtMatrix[];
+  corners?: PixelArtMatrix[];
+  joins?: TileType[]; // Neighboring terrains that don't count as a border
+}
+
+// An answer the player can pick at the end of a dialogue page
+export interface DialogueChoice {
+  label: string;
+  goto: number | null; // Page index to continue at; null ends the dialogue
+}
+
+export interface DialoguePage {
+  text: string;
+  choices?: DialogueChoice[]; // Without choices the next page follows, and the last page ends the dialogue
+}
+
 export interface CustomSprite extends PixelArtMatrix {
   id: string;
   name: string;
   createdAt: number;
+  cost?: ItemStack[]; // Materials placing it consumes (on placed objects, what was paid); free when absent
+  dialogue?: DialoguePage[]; // Signs, NPCs and lore stones: shown when the player interacts with the sprite
 }
 
 export enum TileType {
@@ -33,6 +57,8 @@ export enum TileType {
   STONE = 'STONE',
   MOUNTAIN = 'MOUNTAIN',
   SNOW = 'SNOW',
+  ROAD = 'ROAD',
+  BRIDGE = 'BRIDGE',
 }
 
 export enum ObjectType {
@@ -42,6 +68,82 @@ export enum ObjectType {
   FLOWER_RED = 'FLOWER_RED',
   FLOWER_BLUE = 'FLOWER_BLUE',
   HOUSE_SMALL = 'HOUSE_SMALL',
+  CAVE_ENTRANCE = 'CAVE_ENTRANCE',
+  WORKBENCH = 'WORKBENCH',
+  FURNACE = 'FURNACE',
+}
+
+// One cell of a structure template. Omitted fields keep what the world generated there.
+export interface StructureCell {
+  terrain?: TileType;
+  object?: ObjectType | null; // null clears the procedural object
+  spriteId?: string; // CustomSprite id from the sprite library
+}
+
+export interface StructureTemplate {
+  id: string;
+  name: string;
+  biomes: BiomeId[]; // Biomes the structure may be built in
+  terrains: TileType[]; // Terrain required under every non-blank cell
+  chance: number; // Odds (0-1) of being picked for a region
+  settlement?: boolean; // Linked to neighboring settlements by roads
+  legend: Record<string, StructureCell>;
+  rows: string[]; // Grid of legend characters, ' ' leaves the world untouched
+}
+
+// Biome ids are open-ended (custom biomes bring their own), but branded so an
+// arbitrary string can't be passed where a biome is expected
+export type BiomeId = string & { readonly __brand: 'BiomeId' };
+
+// Item keys found on a terrain. Custom biomes may use display names instead.
+export interface TerrainResourceData {
+    animais: string[];
+    minerais: string[];
+    pedras_raras: string[];
+    vegetacao: string[];
+}
+
+// Climate window a biome claims. Omitted bounds are open-ended; max is exclusive.
+export interface BiomeClimate {
+  minTemperature?: number;
+  maxTemperature?: number;
+  minMoisture?: number;
+  maxMoisture?: number;
+}
+
+// Elevation bands in ascending order; the first band the elevation is below wins
+export interface TerrainBand {
+  below?: number; // Omit on the last band to cover everything above
+  terrain: TileType;
+}
+
+export interface ObjectSpawn {
+  object: ObjectType;
+  chance: number; // Odds (0-1) per tile
+  terrains: TileType[]; // Terrain the object may spawn on
+}
+
+export enum Weather {
+  CLEAR = 'CLEAR',
+  RAIN = 'RAIN',
+  SNOW = 'SNOW',
+  SANDSTORM = 'SANDSTORM',
+}
+
+export interface WeatherChance {
+  weather: Weather;
+  chance: number; // Odds (0-1) each time the weather changes; clear takes the rest
+}
+
+export interface BiomeDefinition {
+  id: BiomeId;
+  name: string;
+  climate: BiomeClimate[]; // Any matching window selects the biome
+  terrain: TerrainBand[];
+  objects: ObjectSpawn[];
+  resources?: Partial<Record<TileType, TerrainResourceData>>; // Replaces TERRAIN_RESOURCES per terrain
+  weather?: WeatherChance[]; // DEFAULT_WEATHER when absent
+  hostileByDay?: string[]; // Hostile creatures (item keys) that attack here in daylight too, not only at night
 }
 
 export enum Direction {
@@ -51,13 +153,27 @@ export enum Direction {
   RIGHT = 'RIGHT',
 }
 
+// --- Entities ---
+export enum EntityKind {
+  ANIMAL = 'ANIMAL',
+  VILLAGER = 'VILLAGER',
+}
+
+export enum EntityBehavior {
+  WANDER = 'WANDER', // Strolls between nearby points, pausing in between
+  FLEE = 'FLEE', // Runs from the player
+  FOLLOW = 'FOLLOW', // Tamed: keeps close to the player
+  CHASE = 'CHASE', // Hostile: closes in on the player to attack
+}
+
 export interface WorldTile {
   x: number;
   y: number;
   terrain: TileType;
-  biome: string; // Added biome name
+  biome: BiomeId;
   object: ObjectType | null;
   customSprite?: CustomSprite; 
+  river: boolean; // Carved by the hydrology pass
   variant: number; 
 }
 
@@ -69,9 +185,80 @@ export interface Viewport {
   scale: number;
 }
 
+export enum ToolType {
+  PICKAXE = 'PICKAXE',
+  AXE = 'AXE',
+  FISHING_ROD = 'FISHING_ROD',
+  SWORD = 'SWORD',
+}
+
+// Per-instance state. Items that carry data never stack.
+export interface ItemData {
+  durability?: number;
+  quality?: number; // 1 is a plain item; better tools find rare stones more often
+}
+
 export interface InventoryItem {
-  id: string;
+  id: string; // ItemDefinition key
   count: number;
+  data?: ItemData;
+}
+
+export enum ItemCategory {
+  ANIMAL = 'ANIMAL',
+  MINERAL = 'MINERAL',
+  RARE_STONE = 'RARE_STONE',
+  VEGETATION = 'VEGETATION',
+  MATERIAL = 'MATERIAL', // Made by crafting or chopping
+  TOOL = 'TOOL',
+  PLACEABLE = 'PLACEABLE',
+}
+
+export enum ItemRarity {
+  COMMON = 'COMMON',
+  UNCOMMON = 'UNCOMMON',
+  RARE = 'RARE',
+  LEGENDARY = 'LEGENDARY',
+}
+
+export interface ItemDefinition {
+  key: string; // Stable id stored in saves; names come from the locale catalogs
+  category: ItemCategory;
+  rarity: ItemRarity;
+  maxStack: number;
+  icon: PixelArtMatrix;
+  food?: number; // Hunger restored when eaten; inedible when absent
+}
+
+export interface ItemStack {
+  item: string;
+  count: number;
+}
+
+export interface Recipe {
+  id: string;
+  inputs: ItemStack[]; // All consumed together
+  output: ItemStack;
+  station?: ObjectType; // Must be near the player to craft
+}
+
+// A resource node that has been gathered from and not fully grown back yet
+export interface ResourceNodeState {
+  remaining: number;
+  updatedAt: number; // Game time (ms) regrowth is counted from
+}
+
+// The current weather of one biome
+export interface WeatherState {
+  weather: Weather;
+  until: number; // Game time (ms) it changes again
+}
+
+// A player change to a procedural tile, layered over what the generator makes there
+export interface TileModification {
+  objectRemoved?: boolean; // The generated object was harvested
+  terrain?: TileType; // Replaces the generated terrain
+  regrowAt?: number; // Game time (ms) the removed object grows back; never when absent
 }
 
 export interface ExplorationBounds {
@@ -81,18 +268,70 @@ export interface ExplorationBounds {
   maxY: number;
 }
 
+// Survival stats, each 0 to MAX_VITAL
+export interface PlayerVitals {
+  health: number;
+  hunger: number; // Full at MAX_VITAL; starving at 0
+  stamina: number;
+}
+
+// What the player has seen of one placed object's dialogue
+export interface DialogueState {
+  read: boolean; // Reached an end at least once
+  choices: Record<number, number>; // Choice index last picked, by page index
+}
+
+// --- Quests ---
+export enum ObjectiveType {
+  COLLECT = 'COLLECT', // Have count of an item; handed in when the reward is claimed
+  REACH_BIOME = 'REACH_BIOME',
+  WALK = 'WALK', // Walk a distance, in tiles
+  VISIT = 'VISIT', // Stand near a point
+  USE_PORTAL = 'USE_PORTAL',
+}
+
+export type QuestObjective =
+  | { type: ObjectiveType.COLLECT; item: string; count: number }
+  | { type: ObjectiveType.REACH_BIOME; biome: BiomeId }
+  | { type: ObjectiveType.WALK; distance: number }
+  | { type: ObjectiveType.VISIT; x: number; y: number; name?: string; village?: boolean } // Described by name, or as a village
+  | { type: ObjectiveType.USE_PORTAL };
+
+export interface QuestDefinition {
+  id: string;
+  title?: string; // Without one the first objective names the quest
+  objectives: QuestObjective[]; // Done in order
+  rewards: ItemStack[];
+}
+
+// Saved progress of one quest: a number per objective (tiles walked, or 1 once done)
+export interface QuestProgress {
+  progress: number[];
+  completed: boolean; // Reward claimed
+}
+
 export interface GameSaveState {
   player: {
     x: number;
     y: number;
     direction: Direction;
+    vitals?: PlayerVitals; // Missing in saves from before survival stats
   };
   stats: {
     totalDistance: number;
     bounds: ExplorationBounds; // Track visited area
   };
   seed: string;
+  generatorVersion?: number; // Missing in saves from before generator versioning
+  biomes?: BiomeDefinition[]; // Custom biomes the world was built with; missing in older saves
   mapObjects: [string, CustomSprite][]; 
   inventory: (InventoryItem | null)[]; // Array of 36 slots
+  random?: Record<string, number>; // Gameplay RandomStream states by name
+  gameTime?: number; // In-game milliseconds played in this world
+  resourceNodes?: [string, ResourceNodeState][]; // Depleted nodes by "x,y"
+  worldDelta?: [string, TileModification][]; // Harvested objects and changed terrain by "x,y"
+  weather?: [string, WeatherState][]; // By biome id
+  quests?: [string, QuestProgress][]; // By quest id
+  dialogues?: [string, DialogueState][]; // By "x,y" of the object
   lastSavedAt: number;
 }